@@ -5,49 +5,184 @@
  */
 
 // --- Data Structures ---
-interface MaterialItem {
-    id: string; // Unique ID for UI key purposes during form editing
+export interface MaterialItem {
+    id: string; // Line ID, unique within the PO. Dispatches refer to the line by this ID.
     material: string;
     quantity: number;
+    unit: string; // Unit the quantity and rate are in; one of the material's units
     rate: number;
     gstPercentage: number; // GST percentage for this item
+    discountPercentage: number; // Trade discount on the rate, in percent
+    schedule: DeliverySlot[]; // Promised deliveries, earliest first; empty when no date was agreed
+    cancelled?: LineCancellation; // Set when this line alone was cancelled; it stays on the PO but nothing is pending on it
+    siteId: string; // DeliverySite.id of the site this line is delivered to
 }
 
-interface PurchaseOrder {
-    id: string; // Now a simple sequential number string, e.g., "1", "2"
+// One place a PO's goods go to, e.g. a tower of a larger project.
+interface DeliverySite {
+    id: string; // Unique within the PO. Lines and dispatches refer to the site by this ID.
+    name: string; // e.g. "TOWER A"; may be blank when the PO has a single site
+    address: string;
+    destination: string;
+}
+
+// A line withdrawn from a live PO. Quantity is what was still pending on it, in the line's unit.
+interface LineCancellation {
+    at: string; // ISO timestamp
+    by: string;
+    reason: string;
+    quantity: number;
+}
+
+// One promised delivery for a PO line. Quantity is in the line's unit.
+interface DeliverySlot {
+    date: string; // YYYY-MM-DD
+    quantity: number;
+}
+
+// Freight, loading and similar charges billed on the whole order, each with its own GST rate.
+interface OrderCharge {
+    id: string;
+    label: string;
+    amount: number; // Before GST
+    gstPercentage: number;
+}
+
+export interface PurchaseOrder {
+    id: string; // From the PO numbering series, e.g. "HCC/PO/25-26/0001". Older POs keep their plain sequential numbers ("1", "2")
     externalPoNumber?: string; // Optional user-defined PO number
     partyName: string;
+    partyId?: string; // Party master entry the PO was raised for, when known
     gstin: string;
     salesmanName: string;
-    siteAddress: string;
-    destination: string;
+    billToAddress: string; // Address the order is invoiced to, e.g. the builder's head office
+    shipToPartyName: string; // Consignee the goods go to; the billed party unless someone else receives them
+    shipToGstin: string;
+    deliverySites: DeliverySite[]; // At least one
+    placeOfSupplyStateCode: string; // GST state code of the place of supply; decides CGST/SGST vs IGST
+    supplierStateCode: string; // Our own state code when the PO was raised, so a later change to the company profile doesn't re-split its tax
     items: MaterialItem[]; // Note: Saved items won't need the form 'id', but will have gstPercentage
     createdAt: string; // Full ISO Date string (e.g., "2023-10-26T07:30:00.000Z")
-    status: 'Pending' | 'Partially Dispatched' | 'Completed' | 'Cancelled'; // Added 'Cancelled'
-    totalAmount: number; // Now includes GST
-    // Tracks total dispatched quantity for each material in this PO
-    dispatchedQuantityByMaterial: { [materialName: string]: number };
+    updatedAt?: string; // ISO timestamp of the last user edit; used to pick a side when merging devices
+    // 'Draft' and 'Awaiting Approval' POs are not yet released; nothing can be dispatched against them
+    status: 'Draft' | 'Awaiting Approval' | 'Pending' | 'Partially Dispatched' | 'Completed' | 'Short Closed' | 'Cancelled';
+    cashDiscountPercentage: number; // Cash discount on the whole order, applied after line discounts and before GST
+    charges: OrderCharge[];
+    roundOff: number; // Added to the computed amount to reach totalAmount
+    totalAmount: number; // Now includes GST, charges and round-off
+    revisedFrom?: string; // ID of the cancelled PO this one was revised from
+    revisedInto?: string; // ID of the PO that replaced this one after it was cancelled
+    approvalHistory: ApprovalEvent[]; // Submissions, credit holds and approval decisions, oldest first
+    // Set when the PO was short closed. The quantities still pending then are written off; its
+    // dispatches keep counting everywhere, unlike those of a cancelled PO.
+    shortClose?: { at: string; by: string; reason: string; quantityByLine: { [lineId: string]: number } };
+    // Stored copy of the dispatched quantity per PO line ID. The dispatch ledger is the source of
+    // truth (see computeDispatchedQuantityByLine); this is refreshed whenever the ledger for
+    // the PO changes and checked against it on the Data Health screen.
+    dispatchedQuantityByLine: { [lineId: string]: number };
+}
+
+interface ApprovalEvent {
+    action: 'submit' | 'hold' | 'approve' | 'reject';
+    by: string;
+    at: string; // ISO timestamp
+    remark: string; // Approver's remark, or the reason for an automatic hold
+}
+
+interface DispatchedItem {
+    lineId: string; // MaterialItem.id of the PO line this quantity was dispatched against
+    material: string; // Copied from the line for display
+    quantity: number; // In the unit it was dispatched in
+    unit: string;
+    // The quantity converted to the PO line's unit when the dispatch was saved. This is what
+    // counts against the line, so later changes to the conversion factors don't rewrite history.
+    lineQuantity: number;
 }
 
-interface Dispatch {
-    id: string; // Format: D-YYYYMMDD-XXXX
+export interface Dispatch {
+    id: string; // From the dispatch numbering series, e.g. "HCC/DC/25-26/0001". Older dispatches keep their D-YYYYMMDD-XXXX IDs
     poId: string;
     vehicleNumber: string;
     driverContact: string;
     invoiceNumber?: string; // Optional: Invoice number for the dispatch
     transporterName?: string; // Optional: Name of the transporter
-    dispatchedItems: { material: string; quantity: number }[]; // Material name and quantity dispatched in this event
+    dispatchedItems: DispatchedItem[]; // PO line and quantity dispatched in this event
+    siteId: string; // DeliverySite.id of the PO site the vehicle went to; every line dispatched is for that site
     dispatchedAt: string; // Full ISO Date string (e.g., "2023-10-26T07:30:00.000Z") - User can set this date
+    updatedAt?: string; // ISO timestamp of the last user edit
+    // Set when the dispatch was voided. Voided dispatches stay in the log but count towards nothing.
+    voided?: { at: string; by: string; reason: string };
+    // Set when a supervisor allowed a line past its over-dispatch tolerance
+    overDispatchOverride?: { at: string; supervisor: string; enteredBy: string; reason: string };
+}
+
+interface UnitConversion {
+    unit: string; // e.g. "TONNE"
+    factor: number; // Base units in one of this unit, e.g. 25 bags of 40 kg in a tonne
+}
+
+export interface Material {
+    code: string; // Short unique code, e.g. "M001"
+    name: string; // Name used on PO lines; unique, upper-case
+    unit: string; // Base unit of measure, e.g. "BAG". Default rate is per this unit.
+    alternateUnits: UnitConversion[];
+    hsnCode: string;
+    defaultGstPercentage: number;
+    defaultRate: number;
+    active: boolean; // Inactive materials stay on existing POs but are not offered for new lines
+    overDispatchTolerancePercentage?: number; // Overrides the company default; unset to use it
+}
+
+interface PriceListEntry {
+    material: string;
+    unit: string; // The rate is per this unit
+    rate: number;
+    effectiveFrom: string; // YYYY-MM-DD
+    effectiveTo: string; // YYYY-MM-DD, or '' while the rate is open-ended
+}
+
+// Agreed rates for one party, or for a group of parties that share a price list.
+export interface PriceList {
+    id: string; // "PL-XXXXXX"
+    name: string;
+    partyIds: string[];
+    tolerancePercentage: number; // PO rates within this much of the list rate are not flagged
+    entries: PriceListEntry[];
+}
+
+interface PartyContact {
+    name: string;
+    phone: string;
+    email: string;
+}
+
+export interface Party {
+    id: string; // Format: P-XXXXXX
+    name: string; // Upper-case, unique; copied to PurchaseOrder.partyName
+    gstin: string;
+    billingAddress: string;
+    siteAddresses: string[];
+    defaultSalesman: string;
+    contacts: PartyContact[];
+    creditLimit: number; // Most undispatched order value (incl. GST) allowed before new POs are held; 0 for no limit
+    overDispatchTolerancePercentage?: number; // Overrides the material and company tolerances; unset to use them
 }
 
 // --- Application State ---
-type View = 'create-po' | 'view-po' | 'view-dispatches' | 'pending-orders';
+type View = 'create-po' | 'view-po' | 'view-dispatches' | 'pending-orders' | 'backup' | 'sync' | 'data-health' | 'materials' | 'parties' | 'price-lists' | 'company' | 'delivery-schedule' | 'approvals';
 let currentView: View = 'create-po';
 let purchaseOrders: PurchaseOrder[] = [];
 let dispatches: Dispatch[] = [];
+let auditLog: AuditEntry[] = [];
 
 // State for PO form's dynamic material items
 let poFormMaterialItems: MaterialItem[] = []; // Used for create and edit PO forms
+let poFormCharges: OrderCharge[] = []; // Order-level charges on the same forms
+let poFormScheduleText: { [itemId: string]: string } = {}; // Delivery schedules as typed, parsed on submit
+let poFormSites: DeliverySite[] = []; // Delivery sites on the same forms
+let poFormSavedSiteAddresses: string[] = []; // Saved addresses of the ship-to party, offered for each site
+let poFormDuplicateAcknowledgement: { poIds: string[]; reason: string } | null = null; // Set by "Create Anyway" on a possible duplicate PO
+const FIRST_DELIVERY_SITE_ID = 'site-1';
 const DEFAULT_GST_RATE = 18; // Default GST rate, e.g., 18%
 
 // State for Dispatch Log filters
@@ -58,21 +193,48 @@ const DEFAULT_PREDEFINED_MATERIALS: string[] = [
     "HITECH READYMIX PLASTER",
     "HITECH READYMIX PLASTER 1 :3",
     "FLOOR SCREED",
-    "BLOCK JOINING MORATAR",
+    "BLOCK JOINING MORTAR",
     "GYPSUM",
     "TILES ADHESIVE GOLD",
     "TILES ADHESIVE SILVER",
     "TILES ADHESIVE PLATINUM",
     "ROOFIT READYMIX PLASTER"
 ];
-let PREDEFINED_MATERIALS: string[] = [...DEFAULT_PREDEFINED_MATERIALS];
+const DEFAULT_MATERIAL_UNIT = 'NOS';
+let materialMaster: Material[] = [];
+let parties: Party[] = [];
+let priceLists: PriceList[] = [];
+
+interface CompanyProfile {
+    name: string;
+    gstin: string;
+    address: string;
+    stateCode: string; // GST state code our supplies are made from
+    requirePOApproval: boolean; // Every new PO waits for approval, not only those over a credit limit
+    overDispatchTolerancePercentage: number; // How far past the ordered quantity a line may be dispatched
+}
+export const DEFAULT_COMPANY_PROFILE: CompanyProfile = { name: 'HITECH CHEMPLAST CORPORATION', gstin: '', address: '', stateCode: '', requirePOApproval: false, overDispatchTolerancePercentage: 0 };
+let companyProfile: CompanyProfile = { ...DEFAULT_COMPANY_PROFILE };
+
+type NumberingSeriesKey = 'po' | 'dispatch' | 'invoice';
+export interface NumberingSeries {
+    key: NumberingSeriesKey;
+    format: string; // e.g. "HCC/PO/{FY}/{SEQ}". {FY} is the financial year ("25-26"), {SEQ} the running number. Blank invoice format = invoice numbers are typed by hand
+    padding: number; // Minimum digits in {SEQ}
+    lastNumbers: { [financialYear: string]: number }; // Last {SEQ} issued per financial year ('' for formats without {FY}). Only ever goes up
+}
+const DEFAULT_NUMBERING_SERIES: NumberingSeries[] = [
+    { key: 'po', format: 'HCC/PO/{FY}/{SEQ}', padding: 4, lastNumbers: {} },
+    { key: 'dispatch', format: 'HCC/DC/{FY}/{SEQ}', padding: 4, lastNumbers: {} },
+    { key: 'invoice', format: '', padding: 4, lastNumbers: {} }
+];
+let numberingSeries: NumberingSeries[] = DEFAULT_NUMBERING_SERIES.map(series => ({ ...series, lastNumbers: {} }));
 
 // Current items being edited (if any)
 let currentEditingPOId: string | null = null;
-let currentEditingDispatchId: string | null = null;
 
 // Temporary state for Create PO page mode and prefill data
-let _formModeForCreatePage: 'create' | 'edit' | 'revise' = 'create';
+let _formModeForCreatePage: 'create' | 'edit' | 'revise' | 'duplicate' = 'create';
 let _formDataForCreatePage: PurchaseOrder | undefined = undefined;
 let _originalIdForRevisionOnCreatePage: string | undefined = undefined;
 
@@ -82,16 +244,15 @@ const mainContent = document.getElementById('main-content')!;
 const navbar = document.getElementById('navbar')!;
 
 // --- Utility Functions ---
-function generateId(prefix: 'PO' | 'D' | 'item'): string {
-    if (prefix === 'PO') {
-        const maxId = purchaseOrders.reduce((max, po) => Math.max(max, parseInt(po.id, 10) || 0), 0);
-        return (maxId + 1).toString();
-    }
-    const now = new Date();
-    const datePart = `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}${now.getDate().toString().padStart(2, '0')}`;
-    const randomPart = Math.random().toString(36).substring(2, 6).toUpperCase();
-    if (prefix === 'item') return `${prefix}-${randomPart}`;
-    return `${prefix}-${datePart}-${randomPart}`;
+// PO and dispatch numbers come from their numbering series (see allocateDocumentNumber).
+// Line and charge IDs only have to be unique within their PO; pass the IDs already in use there.
+function generateId(prefix: 'item' | 'charge', takenIds: Iterable<string> = []): string {
+    const taken = new Set(takenIds);
+    let id: string;
+    do {
+        id = `${prefix}-${crypto.randomUUID().replace(/-/g, '').substring(0, 10).toUpperCase()}`;
+    } while (taken.has(id));
+    return id;
 }
 
 function formatToDDMMYY(isoString?: string): string {
@@ -154,6 +315,21 @@ function escapeCSVField(field: any): string {
     return stringField;
 }
 
+function formatFieldValue(value: any): string {
+    if (typeof value === 'undefined' || value === null) return '(none)';
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+    return JSON.stringify(value);
+}
+
+// JSON.stringify with object keys sorted, so records can be compared regardless of key order.
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().filter(k => typeof value[k] !== 'undefined').map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
 // Auto-uppercase listener
 function toUpperCaseListener(event: Event) {
     const inputElement = event.target as HTMLInputElement | HTMLTextAreaElement;
@@ -167,49 +343,798 @@ function toUpperCaseListener(event: Event) {
 }
 
 
-// --- LocalStorage Persistence ---
-function saveData(): void {
-    localStorage.setItem('HITECH_purchaseOrders', JSON.stringify(purchaseOrders));
-    localStorage.setItem('HITECH_dispatches', JSON.stringify(dispatches));
-    localStorage.setItem('HITECH_dispatchFilterStartDate', dispatchFilterStartDate);
-    localStorage.setItem('HITECH_dispatchFilterEndDate', dispatchFilterEndDate);
-    localStorage.setItem('HITECH_predefinedMaterials', JSON.stringify(PREDEFINED_MATERIALS));
+// --- GST ---
+// GSTIN check digit: each of the first 14 characters is valued 0-35, weighted 1,2,1,2...,
+// and the base-36 digits of each product are summed. The 15th character makes the sum a
+// multiple of 36. The first two digits are the registration state code.
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
+
+const GST_STATE_CODES: { [code: string]: string } = {
+    '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+    '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+    '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur',
+    '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal',
+    '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+    '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa',
+    '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry',
+    '35': 'Andaman and Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh',
+    '97': 'Other Territory'
+};
+
+interface LineTax {
+    taxable: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    gst: number; // cgst + sgst + igst
+    total: number;
+}
+
+function computeGstinCheckCharacter(first14: string): string {
+    let sum = 0;
+    for (let i = 0; i < 14; i++) {
+        const product = GSTIN_CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+        sum += Math.floor(product / 36) + (product % 36);
+    }
+    return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
 }
 
-function loadData(): void {
-    const storedPOs = localStorage.getItem('HITECH_purchaseOrders');
-    if (storedPOs) {
-        purchaseOrders = JSON.parse(storedPOs).map((po: PurchaseOrder) => ({
-             ...po,
-             // Ensure dispatchedQuantityByMaterial exists, for older data
-             dispatchedQuantityByMaterial: po.dispatchedQuantityByMaterial || {}
-        }));
+// Returns a message describing what is wrong with the GSTIN, or null if it is valid.
+export function validateGstin(gstin: string): string | null {
+    const value = gstin.trim().toUpperCase();
+    if (!GSTIN_PATTERN.test(value)) return `${value} is not in the GSTIN format (e.g. 27AAPFU0939F1ZV).`;
+    if (!GST_STATE_CODES[value.substring(0, 2)]) return `${value} starts with ${value.substring(0, 2)}, which is not a GST state code.`;
+    const expected = computeGstinCheckCharacter(value.substring(0, 14));
+    if (value[14] !== expected) return `${value} has an invalid check digit (expected ${expected}). Please re-check the number.`;
+    return null;
+}
+
+// State code of a valid GSTIN, or '' if the GSTIN is empty or invalid.
+export function getGstinStateCode(gstin: string): string {
+    return gstin && validateGstin(gstin) === null ? gstin.trim().substring(0, 2) : '';
+}
+
+function describeStateCode(code: string): string {
+    return GST_STATE_CODES[code] ? `${code} - ${GST_STATE_CODES[code]}` : 'Not set';
+}
+
+function renderStateOptionsHTML(selectedCode: string): string {
+    return `<option value="">-- Select State --</option>` + Object.keys(GST_STATE_CODES)
+        .map(code => `<option value="${code}" ${code === selectedCode ? 'selected' : ''}>${escapeHTML(describeStateCode(code))}</option>`)
+        .join('');
+}
+
+// IGST applies when the place of supply is in another state than ours. Until both states
+// are known the supply is treated as intra-state.
+export function isInterStateSupply(placeOfSupplyStateCode: string | undefined, supplierStateCode: string = companyProfile.stateCode): boolean {
+    return !!supplierStateCode && !!placeOfSupplyStateCode && supplierStateCode !== placeOfSupplyStateCode;
+}
+
+function isPOInterState(po: PurchaseOrder): boolean {
+    return isInterStateSupply(po.placeOfSupplyStateCode, po.supplierStateCode);
+}
+
+export function computeLineTax(quantity: number, rate: number, gstPercentage: number, interState: boolean): LineTax {
+    const taxable = quantity * rate;
+    const gst = (taxable * gstPercentage) / 100;
+    return {
+        taxable,
+        cgst: interState ? 0 : gst / 2,
+        sgst: interState ? 0 : gst / 2,
+        igst: interState ? gst : 0,
+        gst,
+        total: taxable + gst
+    };
+}
+
+function describeLineTax(tax: LineTax, gstPercentage: number, interState: boolean): string {
+    return interState
+        ? `IGST ${gstPercentage}%: ₹${tax.igst.toFixed(2)}`
+        : `CGST ${gstPercentage / 2}%: ₹${tax.cgst.toFixed(2)} + SGST ${gstPercentage / 2}%: ₹${tax.sgst.toFixed(2)}`;
+}
+
+// --- PO Totals ---
+// Discounts reduce the taxable value: the line's trade discount first, then the order's cash
+// discount on what is left. Charges are added with their own GST, and the grand total is
+// rounded to the nearest rupee.
+const ORDER_CHARGE_LABELS = ['FREIGHT', 'LOADING', 'UNLOADING'];
+
+interface POTotals {
+    grossAmount: number; // quantity * rate over all lines
+    lineDiscount: number;
+    cashDiscount: number;
+    chargesAmount: number; // Before GST
+    taxable: number; // Lines after discounts, plus charges
+    cgst: number;
+    sgst: number;
+    igst: number;
+    roundOff: number;
+    total: number;
+}
+
+// Rate per unit after the line discount and the order's cash discount.
+function getNetRate(item: MaterialItem, cashDiscountPercentage: number): number {
+    return item.rate * (1 - item.discountPercentage / 100) * (1 - cashDiscountPercentage / 100);
+}
+
+export function computePOTotals(items: MaterialItem[], cashDiscountPercentage: number, charges: OrderCharge[], interState: boolean): POTotals {
+    const totals: POTotals = { grossAmount: 0, lineDiscount: 0, cashDiscount: 0, chargesAmount: 0, taxable: 0, cgst: 0, sgst: 0, igst: 0, roundOff: 0, total: 0 };
+    let beforeRoundOff = 0;
+    const addTax = (tax: LineTax) => {
+        totals.taxable += tax.taxable;
+        totals.cgst += tax.cgst;
+        totals.sgst += tax.sgst;
+        totals.igst += tax.igst;
+        beforeRoundOff += tax.total;
+    };
+    items.forEach(item => {
+        const gross = item.quantity * item.rate;
+        const lineDiscount = (gross * item.discountPercentage) / 100;
+        totals.grossAmount += gross;
+        totals.lineDiscount += lineDiscount;
+        totals.cashDiscount += ((gross - lineDiscount) * cashDiscountPercentage) / 100;
+        addTax(computeLineTax(item.quantity, getNetRate(item, cashDiscountPercentage), item.gstPercentage, interState));
+    });
+    charges.forEach(charge => {
+        totals.chargesAmount += charge.amount;
+        addTax(computeLineTax(1, charge.amount, charge.gstPercentage, interState));
+    });
+    totals.total = Math.round(beforeRoundOff);
+    totals.roundOff = totals.total - beforeRoundOff;
+    return totals;
+}
+
+function computeStoredPOTotals(po: PurchaseOrder): POTotals {
+    return computePOTotals(po.items, po.cashDiscountPercentage, po.charges, isPOInterState(po));
+}
+
+// --- IndexedDB Persistence ---
+// All application data lives in IndexedDB. DB_VERSION tracks the object store layout,
+// SCHEMA_VERSION tracks the shape of the records inside them. Records written by an older
+// schema are upgraded by SCHEMA_MIGRATIONS on load.
+const DB_NAME = 'HITECH_PO_DB';
+const DB_VERSION = 5;
+const STORE_PURCHASE_ORDERS = 'purchaseOrders';
+const STORE_DISPATCHES = 'dispatches';
+const STORE_MATERIALS = 'materials';
+const STORE_PARTIES = 'parties';
+const STORE_PRICE_LISTS = 'priceLists';
+const STORE_SETTINGS = 'settings';
+const STORE_AUDIT_LOG = 'auditLog';
+const STORE_SYNC_QUEUE = 'syncQueue'; // Written by the sync layer only, never part of a backup
+const ALL_STORES = [STORE_PURCHASE_ORDERS, STORE_DISPATCHES, STORE_MATERIALS, STORE_PARTIES, STORE_PRICE_LISTS, STORE_SETTINGS, STORE_AUDIT_LOG];
+
+export const SCHEMA_VERSION = 14;
+const LEGACY_STORAGE_KEYS = [
+    'HITECH_purchaseOrders',
+    'HITECH_dispatches',
+    'HITECH_dispatchFilterStartDate',
+    'HITECH_dispatchFilterEndDate',
+    'HITECH_predefinedMaterials'
+];
+
+interface PersistedSettings {
+    dispatchFilterStartDate: string;
+    dispatchFilterEndDate: string;
+    company: CompanyProfile;
+    numbering: NumberingSeries[];
+}
+
+// Full snapshot of everything the app persists. Also the unit that migrations operate on.
+export interface PersistedData {
+    schemaVersion: number;
+    purchaseOrders: PurchaseOrder[];
+    dispatches: Dispatch[];
+    materials: Material[]; // Plain names before schema v5
+    parties: Party[];
+    priceLists: PriceList[];
+    auditLog: AuditEntry[];
+    settings: PersistedSettings;
+}
+
+interface SchemaMigration {
+    toVersion: number;
+    description: string;
+    migrate: (data: PersistedData) => void;
+}
+
+// Ordered upgrade steps. Version 0 is the original localStorage layout.
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        toVersion: 1,
+        description: 'Ensure every PO has a dispatchedQuantityByMaterial map',
+        migrate: (data) => {
+            data.purchaseOrders.forEach(po => {
+                (po as any).dispatchedQuantityByMaterial = (po as any).dispatchedQuantityByMaterial || {};
+            });
+        }
+    },
+    {
+        toVersion: 2,
+        description: 'Add the audit log',
+        migrate: (data) => {
+            data.auditLog = Array.isArray(data.auditLog) ? data.auditLog : [];
+        }
+    },
+    {
+        toVersion: 3,
+        description: 'Link revised POs to their cancelled originals using the audit log',
+        migrate: (data) => {
+            // Only pairs the log records from both sides are linked; anything less certain is
+            // left for the Data Health screen to show.
+            data.purchaseOrders.forEach(revised => {
+                if (revised.revisedFrom) return;
+                const original = data.purchaseOrders.find(po => po.id !== revised.id && auditLogNamesRevision(data.auditLog, revised.id, po.id));
+                if (!original || original.revisedInto || original.status !== 'Cancelled') return;
+                if (!auditLogNamesRevisionOnOriginal(data.auditLog, original.id, revised.id)) return;
+                revised.revisedFrom = original.id;
+                original.revisedInto = revised.id;
+            });
+        }
+    },
+    {
+        toVersion: 4,
+        description: 'Track dispatched quantities per PO line instead of per material name',
+        migrate: (data) => {
+            const poById = new Map(data.purchaseOrders.map(po => [po.id, po] as [string, PurchaseOrder]));
+            data.purchaseOrders.forEach(po => {
+                const usedIds = new Set<string>();
+                po.items.forEach(item => {
+                    while (!item.id || usedIds.has(item.id)) item.id = generateId('item');
+                    usedIds.add(item.id);
+                });
+                // A record that already has per-line quantities keeps them (see normalizeRemoteChanges)
+                if (!po.dispatchedQuantityByLine || typeof po.dispatchedQuantityByLine !== 'object') {
+                    const byMaterial: { [materialName: string]: number } = (po as any).dispatchedQuantityByMaterial || {};
+                    po.dispatchedQuantityByLine = {};
+                    Object.keys(byMaterial).forEach(materialKey => {
+                        const line = po.items.find(item => item.material.toUpperCase() === materialKey.toUpperCase());
+                        if (line) po.dispatchedQuantityByLine[line.id] = byMaterial[materialKey];
+                    });
+                }
+                delete (po as any).dispatchedQuantityByMaterial;
+            });
+            data.dispatches.forEach(d => linkDispatchItemsToLines(d, poById.get(d.poId)));
+        }
+    },
+    {
+        toVersion: 5,
+        description: 'Turn the material name list into the material master',
+        migrate: (data) => {
+            // Entries that already are master records are kept, so the step can run again on
+            // records pulled from the server (see normalizeRemoteChanges)
+            const existing = (data.materials as any[]).filter((m): m is Material => !!m && typeof m === 'object' && typeof m.code === 'string');
+            const names = (data.materials as any[])
+                .map(m => typeof m === 'string' ? m : m?.name)
+                .filter((name): name is string => typeof name === 'string');
+            data.purchaseOrders.forEach(po => po.items.forEach(item => names.push(item.material)));
+            data.materials = materialsFromNames(names, data.purchaseOrders, existing);
+        }
+    },
+    {
+        toVersion: 6,
+        description: 'Build the party master from the parties on existing POs',
+        migrate: (data) => {
+            data.parties = Array.isArray(data.parties) ? data.parties : [];
+            const newestFirst = [...data.purchaseOrders].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+            newestFirst.forEach(po => {
+                const name = po.partyName.trim().toUpperCase();
+                if (!name) return;
+                let party = data.parties.find(p => p.name === name);
+                if (!party) {
+                    party = { id: generatePartyId(data.parties), name, gstin: po.gstin, billingAddress: '', siteAddresses: [], defaultSalesman: po.salesmanName, contacts: [], creditLimit: 0 };
+                    data.parties.push(party);
+                }
+                const siteAddress = ((po as any).siteAddress || '').trim(); // Before v13, a PO had a single site address
+                if (siteAddress && !party.siteAddresses.includes(siteAddress)) party.siteAddresses.push(siteAddress);
+                if (!party.gstin && po.gstin) party.gstin = po.gstin;
+                po.partyId = party.id;
+            });
+        }
+    },
+    {
+        toVersion: 7,
+        description: 'Record the place of supply on every PO, taken from the party GSTIN',
+        migrate: (data) => {
+            data.purchaseOrders.forEach(po => {
+                po.placeOfSupplyStateCode = po.placeOfSupplyStateCode || getGstinStateCode(po.gstin);
+            });
+        }
+    },
+    {
+        toVersion: 8,
+        description: 'Add discounts, charges and round-off to POs, keeping their stored totals',
+        migrate: (data) => {
+            data.purchaseOrders.forEach(po => {
+                po.items.forEach(item => {
+                    item.discountPercentage = typeof item.discountPercentage === 'number' ? item.discountPercentage : 0;
+                });
+                po.cashDiscountPercentage = typeof po.cashDiscountPercentage === 'number' ? po.cashDiscountPercentage : 0;
+                po.charges = Array.isArray(po.charges) ? po.charges : [];
+                if (typeof po.roundOff !== 'number') {
+                    // Old totals were never rounded; whatever differs from the recomputed amount becomes the round-off.
+                    const unrounded = po.items.reduce((sum, item) => sum + computeLineTax(item.quantity, item.rate, item.gstPercentage, false).total, 0);
+                    po.roundOff = po.totalAmount - unrounded;
+                }
+            });
+        }
+    },
+    {
+        toVersion: 9,
+        description: 'Give every material, PO line and dispatched item a unit of measure',
+        migrate: (data) => {
+            data.materials.forEach(m => {
+                m.alternateUnits = Array.isArray(m.alternateUnits) ? m.alternateUnits : [];
+            });
+            const baseUnitOf = (materialName: string) =>
+                data.materials.find(m => m.name === materialName.trim().toUpperCase())?.unit || DEFAULT_MATERIAL_UNIT;
+            const poById = new Map(data.purchaseOrders.map(po => [po.id, po] as [string, PurchaseOrder]));
+            data.purchaseOrders.forEach(po => po.items.forEach(item => {
+                item.unit = item.unit || baseUnitOf(item.material);
+            }));
+            // Quantities so far were entered in the line's unit
+            data.dispatches.forEach(d => d.dispatchedItems.forEach(item => {
+                const line = poById.get(d.poId)?.items.find(i => i.id === item.lineId);
+                item.unit = item.unit || (line ? line.unit : baseUnitOf(item.material));
+                item.lineQuantity = typeof item.lineQuantity === 'number' ? item.lineQuantity : item.quantity;
+            }));
+        }
+    },
+    {
+        toVersion: 10,
+        description: 'Add party price lists',
+        migrate: (data) => {
+            data.priceLists = Array.isArray(data.priceLists) ? data.priceLists : [];
+        }
+    },
+    {
+        toVersion: 11,
+        description: 'Add delivery schedules to PO lines',
+        migrate: (data) => {
+            data.purchaseOrders.forEach(po => po.items.forEach(item => {
+                item.schedule = Array.isArray(item.schedule) ? item.schedule : [];
+            }));
+        }
+    },
+    {
+        toVersion: 12,
+        description: 'Add approval history to POs and credit limits to parties',
+        migrate: (data) => {
+            data.purchaseOrders.forEach(po => {
+                po.approvalHistory = Array.isArray(po.approvalHistory) ? po.approvalHistory : [];
+            });
+            data.parties.forEach(party => {
+                party.creditLimit = typeof party.creditLimit === 'number' ? party.creditLimit : 0;
+            });
+        }
+    },
+    {
+        toVersion: 13,
+        description: 'Split POs into bill-to and ship-to details with delivery sites',
+        migrate: (data) => {
+            data.purchaseOrders.forEach(po => {
+                const legacy = po as any;
+                if (!Array.isArray(po.deliverySites)) {
+                    po.deliverySites = [{ id: FIRST_DELIVERY_SITE_ID, name: '', address: legacy.siteAddress || '', destination: legacy.destination || '' }];
+                }
+                delete legacy.siteAddress;
+                delete legacy.destination;
+                if (typeof po.billToAddress !== 'string') {
+                    po.billToAddress = data.parties.find(p => p.id === po.partyId)?.billingAddress || '';
+                }
+                po.shipToPartyName = typeof po.shipToPartyName === 'string' ? po.shipToPartyName : po.partyName;
+                po.shipToGstin = typeof po.shipToGstin === 'string' ? po.shipToGstin : po.gstin;
+                po.items.forEach(item => { item.siteId = item.siteId || po.deliverySites[0].id; });
+            });
+            const poById = new Map(data.purchaseOrders.map(po => [po.id, po] as [string, PurchaseOrder]));
+            data.dispatches.forEach(d => {
+                d.siteId = d.siteId || poById.get(d.poId)?.deliverySites[0]?.id || FIRST_DELIVERY_SITE_ID;
+            });
+        }
+    },
+    {
+        toVersion: 14,
+        description: 'Record our state code on every PO, taken from the company profile',
+        migrate: (data) => {
+            const companyStateCode = data.settings.company?.stateCode || '';
+            data.purchaseOrders.forEach(po => {
+                po.supplierStateCode = typeof po.supplierStateCode === 'string' ? po.supplierStateCode : companyStateCode;
+            });
+        }
+    }
+];
+
+// Builds master entries for plain material names. Rate and GST default to the most recent
+// PO line for the material, so the prefill matches what was last quoted.
+export function materialsFromNames(names: string[], pos: PurchaseOrder[], existing: Material[] = []): Material[] {
+    const materials: Material[] = [...existing];
+    const newestFirst = [...pos].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    names.forEach(rawName => {
+        const name = rawName.trim().toUpperCase();
+        if (!name || materials.some(m => m.name === name)) return;
+        let lastLine: MaterialItem | undefined;
+        newestFirst.some(po => (lastLine = po.items.find(item => item.material.toUpperCase() === name)) !== undefined);
+        materials.push({
+            code: nextMaterialCode(materials),
+            name,
+            unit: DEFAULT_MATERIAL_UNIT,
+            alternateUnits: [],
+            hsnCode: '',
+            defaultGstPercentage: lastLine ? lastLine.gstPercentage : DEFAULT_GST_RATE,
+            defaultRate: lastLine ? lastLine.rate : 0,
+            active: true
+        });
+    });
+    return materials;
+}
+
+// Older dispatches recorded only the material name. Each such item is attached to the first
+// PO line with that material, or to a new line ID that Data Health reports as not on the PO.
+export function linkDispatchItemsToLines(dispatch: Dispatch, po?: PurchaseOrder): void {
+    dispatch.dispatchedItems.forEach(item => {
+        if (item.lineId) return;
+        const line = po?.items.find(i => i.material.toUpperCase() === item.material.toUpperCase());
+        item.lineId = line ? line.id : generateId('item');
+    });
+}
+
+let database: IDBDatabase | null = null;
+let pendingSave: Promise<unknown> = Promise.resolve();
+// Bumped on every write. A tab may only write if it last loaded (or wrote) the current revision,
+// so a tab holding stale data can't overwrite changes made in another tab.
+let loadedDataRevision = 0;
+// Stored audit entries are only added to; entries edited in place (a PO renumbered before it
+// reached the server) are listed here so the next save writes them again.
+let editedAuditEntryIds = new Set<string>();
+const DATA_CHANNEL_NAME = 'hitech-po-data';
+const DATA_REVISION_STORAGE_KEY = 'HITECH_dataRevision'; // Fallback signal where BroadcastChannel is missing
+let dataChannel: BroadcastChannel | null = null;
+
+export function migratePersistedData(data: PersistedData): PersistedData {
+    if (data.schemaVersion > SCHEMA_VERSION) {
+        throw new Error(`Data schema version ${data.schemaVersion} is newer than this app supports (${SCHEMA_VERSION}).`);
+    }
+    SCHEMA_MIGRATIONS
+        .filter(step => step.toVersion > data.schemaVersion)
+        .sort((a, b) => a.toVersion - b.toVersion)
+        .forEach(step => {
+            step.migrate(data);
+            data.schemaVersion = step.toVersion;
+        });
+    return data;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_PURCHASE_ORDERS)) db.createObjectStore(STORE_PURCHASE_ORDERS, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(STORE_DISPATCHES)) db.createObjectStore(STORE_DISPATCHES, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(STORE_MATERIALS)) db.createObjectStore(STORE_MATERIALS, { keyPath: 'name' });
+            if (!db.objectStoreNames.contains(STORE_PARTIES)) db.createObjectStore(STORE_PARTIES, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(STORE_PRICE_LISTS)) db.createObjectStore(STORE_PRICE_LISTS, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(STORE_SETTINGS)) db.createObjectStore(STORE_SETTINGS, { keyPath: 'key' });
+            if (!db.objectStoreNames.contains(STORE_SYNC_QUEUE)) db.createObjectStore(STORE_SYNC_QUEUE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(STORE_AUDIT_LOG)) db.createObjectStore(STORE_AUDIT_LOG, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn('Database upgrade is blocked by another open tab.');
+    });
+}
+
+// Single values kept in the settings store outside PersistedSettings (device-local state).
+async function readSetting<T>(key: string): Promise<T | undefined> {
+    if (!database) return undefined;
+    const record = await requestToPromise(database.transaction(STORE_SETTINGS, 'readonly').objectStore(STORE_SETTINGS).get(key));
+    return record ? record.value as T : undefined;
+}
+
+async function writeSetting(key: string, value: any): Promise<void> {
+    if (!database) return;
+    const tx = database.transaction(STORE_SETTINGS, 'readwrite');
+    tx.objectStore(STORE_SETTINGS).put({ key, value });
+    await transactionToPromise(tx);
+}
+
+// data is null when the database has never been written to (no schemaVersion stored).
+export async function readDatabase(db: IDBDatabase): Promise<{ data: PersistedData | null; revision: number }> {
+    const tx = db.transaction(ALL_STORES, 'readonly');
+    const [pos, dispatchRecords, materialRecords, partyRecords, priceListRecords, settingRecords, auditRecords] = await Promise.all([
+        requestToPromise(tx.objectStore(STORE_PURCHASE_ORDERS).getAll()),
+        requestToPromise(tx.objectStore(STORE_DISPATCHES).getAll()),
+        requestToPromise(tx.objectStore(STORE_MATERIALS).getAll()),
+        requestToPromise(tx.objectStore(STORE_PARTIES).getAll()),
+        requestToPromise(tx.objectStore(STORE_PRICE_LISTS).getAll()),
+        requestToPromise(tx.objectStore(STORE_SETTINGS).getAll()),
+        requestToPromise(tx.objectStore(STORE_AUDIT_LOG).getAll())
+    ]);
+    const settingsMap: { [key: string]: any } = {};
+    (settingRecords as { key: string; value: any }[]).forEach(record => { settingsMap[record.key] = record.value; });
+    const revision = typeof settingsMap.dataRevision === 'number' ? settingsMap.dataRevision : 0;
+    if (typeof settingsMap.schemaVersion !== 'number') return { data: null, revision };
+
+    const data: PersistedData = {
+        schemaVersion: settingsMap.schemaVersion,
+        purchaseOrders: pos as PurchaseOrder[],
+        dispatches: dispatchRecords as Dispatch[],
+        materials: materialRecords as Material[],
+        parties: partyRecords as Party[],
+        priceLists: priceListRecords as PriceList[],
+        auditLog: auditRecords as AuditEntry[],
+        settings: {
+            dispatchFilterStartDate: settingsMap.dispatchFilterStartDate || '',
+            dispatchFilterEndDate: settingsMap.dispatchFilterEndDate || '',
+            company: { ...DEFAULT_COMPANY_PROFILE, ...settingsMap.company },
+            numbering: normalizeNumberingSeries(settingsMap.numbering)
+        }
+    };
+    return { data, revision };
+}
+
+interface AuditLogWrite {
+    replace: boolean; // Clear the stored log first (restore with replace)
+    editedIds: Set<string>;
+}
+
+// Returns the new revision, or null (writing nothing) if the stored revision is no longer
+// expectedRevision, i.e. another tab has written since this tab last loaded.
+export async function writeDatabase(db: IDBDatabase, data: PersistedData, expectedRevision: number,
+    auditWrite: AuditLogWrite = { replace: false, editedIds: new Set() }): Promise<number | null> {
+    // One transaction for everything, so a failed write leaves the previous data intact.
+    const tx = db.transaction(ALL_STORES, 'readwrite');
+    const poStore = tx.objectStore(STORE_PURCHASE_ORDERS);
+    const dispatchStore = tx.objectStore(STORE_DISPATCHES);
+    const materialStore = tx.objectStore(STORE_MATERIALS);
+    const partyStore = tx.objectStore(STORE_PARTIES);
+    const priceListStore = tx.objectStore(STORE_PRICE_LISTS);
+    const settingsStore = tx.objectStore(STORE_SETTINGS);
+    const auditStore = tx.objectStore(STORE_AUDIT_LOG);
+
+    const [revisionRecord, storedAuditIds] = await Promise.all([
+        requestToPromise(settingsStore.get('dataRevision')),
+        requestToPromise(auditStore.getAllKeys())
+    ]);
+    const storedRevision = revisionRecord ? revisionRecord.value as number : 0;
+    if (storedRevision !== expectedRevision) {
+        tx.abort();
+        return null;
     }
-    const storedDispatches = localStorage.getItem('HITECH_dispatches');
-    if (storedDispatches) {
-        dispatches = JSON.parse(storedDispatches);
+
+    poStore.clear();
+    dispatchStore.clear();
+    materialStore.clear();
+    partyStore.clear();
+    priceListStore.clear();
+    data.purchaseOrders.forEach(po => poStore.put(po));
+    data.dispatches.forEach(d => dispatchStore.put(d));
+    data.materials.forEach(material => materialStore.put(material));
+    data.parties.forEach(party => partyStore.put(party));
+    data.priceLists.forEach(list => priceListStore.put(list));
+    // The log only grows, so it is not rewritten on every save like the rest
+    if (auditWrite.replace) {
+        auditStore.clear();
+        data.auditLog.forEach(entry => auditStore.add(entry));
+    } else {
+        const stored = new Set(storedAuditIds);
+        data.auditLog.forEach(entry => {
+            if (!stored.has(entry.id)) auditStore.add(entry);
+            else if (auditWrite.editedIds.has(entry.id)) auditStore.put(entry);
+        });
     }
-    dispatchFilterStartDate = localStorage.getItem('HITECH_dispatchFilterStartDate') || '';
-    dispatchFilterEndDate = localStorage.getItem('HITECH_dispatchFilterEndDate') || '';
+    settingsStore.put({ key: 'schemaVersion', value: data.schemaVersion });
+    (Object.keys(data.settings) as (keyof PersistedSettings)[]).forEach(key => {
+        settingsStore.put({ key, value: data.settings[key] });
+    });
+    settingsStore.put({ key: 'dataRevision', value: storedRevision + 1 });
+    await transactionToPromise(tx);
+    return storedRevision + 1;
+}
+
+// Reads the pre-IndexedDB localStorage data, if any. Each key is parsed on its own so one
+// corrupt value doesn't prevent importing the rest.
+function readLegacyLocalStorage(): PersistedData | null {
+    if (!LEGACY_STORAGE_KEYS.some(key => localStorage.getItem(key) !== null)) return null;
 
-    const storedPredefinedMaterials = localStorage.getItem('HITECH_predefinedMaterials');
-    if (storedPredefinedMaterials) {
+    const parseArray = (key: string): any[] => {
+        const raw = localStorage.getItem(key);
+        if (!raw) return [];
         try {
-            const parsedMaterials = JSON.parse(storedPredefinedMaterials);
-            if (Array.isArray(parsedMaterials) && parsedMaterials.every(m => typeof m === 'string')) {
-                PREDEFINED_MATERIALS = parsedMaterials;
-            } else {
-                PREDEFINED_MATERIALS = [...DEFAULT_PREDEFINED_MATERIALS];
-                localStorage.setItem('HITECH_predefinedMaterials', JSON.stringify(PREDEFINED_MATERIALS));
+            const parsed = JSON.parse(raw);
+            return Array.isArray(parsed) ? parsed : [];
+        } catch (e) {
+            console.error(`Error parsing ${key} from localStorage:`, e);
+            alert(`Some old data (${key}) could not be read and was not imported. The original copy is left in browser storage.`);
+            return [];
+        }
+    };
+    const legacyMaterials = parseArray('HITECH_predefinedMaterials');
+
+    return {
+        schemaVersion: 0,
+        purchaseOrders: parseArray('HITECH_purchaseOrders'),
+        dispatches: parseArray('HITECH_dispatches'),
+        // Plain names; the v5 migration turns them into master entries
+        materials: (legacyMaterials.length > 0 && legacyMaterials.every(m => typeof m === 'string') ? legacyMaterials : [...DEFAULT_PREDEFINED_MATERIALS]) as any[],
+        parties: [],
+        priceLists: [],
+        auditLog: [],
+        settings: {
+            dispatchFilterStartDate: localStorage.getItem('HITECH_dispatchFilterStartDate') || '',
+            dispatchFilterEndDate: localStorage.getItem('HITECH_dispatchFilterEndDate') || '',
+            company: { ...DEFAULT_COMPANY_PROFILE },
+            numbering: normalizeNumberingSeries(undefined)
+        }
+    };
+}
+
+export function getPersistedSnapshot(): PersistedData {
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        purchaseOrders,
+        dispatches,
+        materials: materialMaster,
+        parties,
+        priceLists,
+        auditLog,
+        settings: {
+            dispatchFilterStartDate,
+            dispatchFilterEndDate,
+            company: companyProfile,
+            numbering: numberingSeries
+        }
+    };
+}
+
+export function applyPersistedData(data: PersistedData): void {
+    purchaseOrders = [...data.purchaseOrders].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    dispatches = data.dispatches;
+    materialMaster = data.materials;
+    parties = data.parties;
+    priceLists = data.priceLists;
+    auditLog = data.auditLog;
+    dispatchFilterStartDate = data.settings.dispatchFilterStartDate;
+    dispatchFilterEndDate = data.settings.dispatchFilterEndDate;
+    companyProfile = data.settings.company;
+    numberingSeries = data.settings.numbering;
+}
+
+// Writes are queued so they always land in the order saveData() was called. Resolves to false
+// when the change was not stored, because another tab wrote first or the write failed: the page
+// then shows the stored data again, so the caller must not queue the change for sync or report
+// it as done. replaceAuditLog clears the stored change history before writing this one.
+export function saveData(options: { replaceAuditLog?: boolean } = {}): Promise<boolean> {
+    const snapshot: PersistedData = JSON.parse(JSON.stringify(getPersistedSnapshot()));
+    const auditWrite: AuditLogWrite = { replace: !!options.replaceAuditLog, editedIds: editedAuditEntryIds };
+    editedAuditEntryIds = new Set();
+    const saved = pendingSave.then(async (): Promise<boolean> => {
+        if (!database) return true;
+        try {
+            const revision = await writeDatabase(database, snapshot, loadedDataRevision, auditWrite);
+            if (revision === null) {
+                alert('This data was changed in another tab, so your last change was NOT saved. The page now shows the latest data; please repeat the change.');
+                await reloadDataFromDatabase(true);
+                return false;
             }
+            loadedDataRevision = revision;
+            announceDataChange(revision);
+            return true;
         } catch (e) {
-            console.error("Error parsing predefined materials from localStorage:", e);
-            PREDEFINED_MATERIALS = [...DEFAULT_PREDEFINED_MATERIALS];
-            localStorage.setItem('HITECH_predefinedMaterials', JSON.stringify(PREDEFINED_MATERIALS));
+            console.error('Error saving data to IndexedDB:', e);
+            alert('Error: Your last change could not be saved to browser storage and was NOT saved. The page now shows the stored data; please try again, and export a backup if this keeps happening.');
+            await reloadDataFromDatabase(true).catch(reloadError => console.error('Error reloading stored data:', reloadError));
+            return false;
+        }
+    });
+    pendingSave = saved;
+    return saved;
+}
+
+export async function loadData(): Promise<void> {
+    try {
+        database = await openDatabase();
+    } catch (e) {
+        console.error('Error opening IndexedDB:', e);
+        alert('Error: Browser storage is unavailable. Changes made in this session will not be saved.');
+        return;
+    }
+
+    const stored = await readDatabase(database);
+    let data = stored.data;
+    loadedDataRevision = stored.revision;
+    if (!data) {
+        // First run on IndexedDB: import whatever the localStorage version left behind.
+        // The legacy keys are left in place as a fallback copy.
+        data = readLegacyLocalStorage() || {
+            schemaVersion: SCHEMA_VERSION,
+            purchaseOrders: [],
+            dispatches: [],
+            materials: materialsFromNames(DEFAULT_PREDEFINED_MATERIALS, []),
+            parties: [],
+            priceLists: [],
+            auditLog: [],
+            settings: { dispatchFilterStartDate: '', dispatchFilterEndDate: '', company: { ...DEFAULT_COMPANY_PROFILE }, numbering: normalizeNumberingSeries(undefined) }
+        };
+    }
+
+    const loadedVersion = data.schemaVersion;
+    try {
+        migratePersistedData(data);
+    } catch (e) {
+        console.error('Error migrating stored data:', e);
+        alert(`Error: ${(e as Error).message} Data was not loaded.`);
+        database = null; // Never overwrite data we could not understand
+        return;
+    }
+    applyPersistedData(data);
+    if (loadedVersion !== SCHEMA_VERSION) {
+        await saveData();
+    }
+}
+
+// --- Cross-Tab Coordination ---
+function announceDataChange(revision: number): void {
+    if (dataChannel) {
+        dataChannel.postMessage({ type: 'data-changed', revision });
+    } else {
+        localStorage.setItem(DATA_REVISION_STORAGE_KEY, String(revision));
+    }
+}
+
+// Re-reads everything from IndexedDB after another tab wrote. With force, reloads even if the
+// revision looks current (used after this tab's own write was rejected as stale).
+async function reloadDataFromDatabase(force: boolean = false): Promise<void> {
+    if (!database) return;
+    const { data, revision } = await readDatabase(database);
+    if (!data || (!force && revision === loadedDataRevision)) return;
+    try {
+        migratePersistedData(data);
+    } catch (e) {
+        // Another tab is running a newer version of the app; stop writing until reloaded.
+        console.error('Error migrating data written by another tab:', e);
+        alert(`${(e as Error).message} Please reload this page.`);
+        database = null;
+        return;
+    }
+    applyPersistedData(data);
+    loadedDataRevision = revision;
+    dispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
+    syncQueue = await readSyncQueue();
+    refreshViewAfterBackgroundChange(true);
+}
+
+function initCrossTabSync(): void {
+    const onRemoteChange = (revision: number) => {
+        if (revision !== loadedDataRevision) {
+            reloadDataFromDatabase().catch(e => console.error('Error reloading data changed in another tab:', e));
         }
+    };
+    if (typeof BroadcastChannel !== 'undefined') {
+        dataChannel = new BroadcastChannel(DATA_CHANNEL_NAME);
+        dataChannel.addEventListener('message', (event) => {
+            if (event.data?.type === 'data-changed') onRemoteChange(event.data.revision);
+        });
     } else {
-        PREDEFINED_MATERIALS = [...DEFAULT_PREDEFINED_MATERIALS];
-        localStorage.setItem('HITECH_predefinedMaterials', JSON.stringify(PREDEFINED_MATERIALS));
+        window.addEventListener('storage', (event) => {
+            if (event.key === DATA_REVISION_STORAGE_KEY && event.newValue) onRemoteChange(parseInt(event.newValue, 10));
+        });
     }
 }
 
@@ -227,7 +1152,6 @@ function renderApp(): void {
              _formDataForCreatePage = undefined;
              _originalIdForRevisionOnCreatePage = undefined;
         }
-        currentEditingDispatchId = null;
     }
 
 
@@ -253,6 +1177,33 @@ function renderApp(): void {
         case 'pending-orders':
             renderPOList('pending');
             break;
+        case 'approvals':
+            renderPOList('approvals');
+            break;
+        case 'delivery-schedule':
+            renderDeliveryScheduleView();
+            break;
+        case 'backup':
+            renderBackupView();
+            break;
+        case 'sync':
+            renderSyncView();
+            break;
+        case 'data-health':
+            renderDataHealthView();
+            break;
+        case 'materials':
+            renderMaterialMasterView();
+            break;
+        case 'parties':
+            renderPartyMasterView();
+            break;
+        case 'price-lists':
+            renderPriceListsView();
+            break;
+        case 'company':
+            renderCompanyView();
+            break;
         default:
             mainContent.innerHTML = '<p>Error: View not found.</p>';
     }
@@ -263,9 +1214,27 @@ function renderNavbar(): void {
         <button data-view="create-po" aria-label="Create New Purchase Order">Create PO</button>
         <button data-view="view-po" aria-label="View All Purchase Orders">All POs</button>
         <button data-view="pending-orders" aria-label="View Pending Purchase Orders">Pending Orders</button>
+        <button data-view="approvals" aria-label="View Draft and Unapproved Purchase Orders">Approvals (${purchaseOrders.filter(po => po.status === 'Awaiting Approval').length})</button>
         <button data-view="view-dispatches" aria-label="View Dispatch Log">Dispatch Log</button>
+        <button data-view="delivery-schedule" aria-label="Compare Delivery Schedules with Dispatches">Schedules</button>
+        <button data-view="materials" aria-label="Manage Material Master">Materials</button>
+        <button data-view="parties" aria-label="Manage Party Master">Parties</button>
+        <button data-view="price-lists" aria-label="Manage Party Price Lists">Price Lists</button>
+        <button data-view="company" aria-label="Edit Company Profile">Company</button>
+        <button data-view="backup" aria-label="Backup and Restore Data">Backup</button>
+        <button data-view="sync" aria-label="Server Sync Status">Sync</button>
+        <button data-view="data-health" aria-label="Check Data Health">Data Health</button>
+        <button type="button" id="change-user-button" class="nav-user" aria-label="Change the name recorded in the change history">User: ${escapeHTML(currentUserName || 'Not set')}</button>
     `;
-    navbar.querySelectorAll('button').forEach(button => {
+    document.getElementById('change-user-button')?.addEventListener('click', () => {
+        const entered = prompt('Name recorded in the change history:', currentUserName);
+        if (entered === null) return;
+        currentUserName = entered.trim().toUpperCase();
+        writeSetting('currentUserName', currentUserName).catch(e => console.error('Error saving user name:', e));
+        renderNavbar();
+        updateNavActiveState();
+    });
+    navbar.querySelectorAll<HTMLButtonElement>('button[data-view]').forEach(button => {
         button.addEventListener('click', () => {
             const newView = button.dataset.view as View;
             if (currentView === 'create-po' && newView !== 'create-po') {
@@ -282,7 +1251,7 @@ function renderNavbar(): void {
 }
 
 function updateNavActiveState(): void {
-    navbar.querySelectorAll('button').forEach(button => {
+    navbar.querySelectorAll<HTMLButtonElement>('button[data-view]').forEach(button => {
         if (button.dataset.view === currentView) {
             button.classList.add('active');
         } else {
@@ -294,13 +1263,13 @@ function updateNavActiveState(): void {
 // --- Purchase Order Creation / Editing ---
 function renderCreatePOForm(
     poPrefillData?: PurchaseOrder,
-    mode: 'create' | 'edit' | 'revise' = 'create',
+    mode: 'create' | 'edit' | 'revise' | 'duplicate' = 'create',
     originalCancelledPOId?: string
 ): void {
 
     let formTitle: string;
     let submitButtonText: string;
-    let isEditingOrRevising = mode === 'edit' || mode === 'revise';
+    let isEditingOrRevising = mode === 'edit' || mode === 'revise' || mode === 'duplicate';
 
     // Set currentEditingPOId only for actual 'edit' mode, for submit handler.
     // For 'revise', currentEditingPOId must be null to trigger create logic.
@@ -312,6 +1281,10 @@ function renderCreatePOForm(
         currentEditingPOId = null; // Critical: ensures handleCreatePOSubmit is called
         formTitle = `Revise Purchase Order (New from Cancelled PO: ${escapeHTML(originalCancelledPOId)})`;
         submitButtonText = 'Create Revised PO';
+    } else if (mode === 'duplicate' && poPrefillData && originalCancelledPOId) {
+        currentEditingPOId = null; // A duplicate is saved as a new PO, like a revision
+        formTitle = `Duplicate Purchase Order (Copy of PO: ${escapeHTML(originalCancelledPOId)})`;
+        submitButtonText = 'Create Purchase Order';
     } else { // mode === 'create'
         currentEditingPOId = null;
         formTitle = 'Create New Purchase Order';
@@ -323,8 +1296,17 @@ function renderCreatePOForm(
         // Deep clone items for form editing to avoid direct mutation
         poFormMaterialItems = JSON.parse(JSON.stringify(poPrefillData.items.map(item => ({...item, id: item.id || generateId('item') }))));
     } else {
-        poFormMaterialItems = [{ id: generateId('item'), material: '', quantity: 0, rate: 0, gstPercentage: DEFAULT_GST_RATE }];
+        poFormMaterialItems = [{ id: generateId('item'), material: '', quantity: 0, unit: DEFAULT_MATERIAL_UNIT, rate: 0, gstPercentage: DEFAULT_GST_RATE, discountPercentage: 0, schedule: [], siteId: FIRST_DELIVERY_SITE_ID }];
     }
+    poFormCharges = poPrefillData ? JSON.parse(JSON.stringify(poPrefillData.charges)) : [];
+    poFormScheduleText = {};
+    poFormSites = poPrefillData ? JSON.parse(JSON.stringify(poPrefillData.deliverySites)) : [{ id: FIRST_DELIVERY_SITE_ID, name: '', address: '', destination: '' }];
+    const shipToParty = poPrefillData ? findPartyByName(poPrefillData.shipToPartyName) : undefined;
+    poFormSavedSiteAddresses = shipToParty ? shipToParty.siteAddresses : [];
+    poFormDuplicateAcknowledgement = null;
+    const shipToSameAsBillTo = !poPrefillData || (poPrefillData.shipToPartyName === poPrefillData.partyName && poPrefillData.shipToGstin === poPrefillData.gstin);
+    // Like a dispatched line's rate, the cash discount is fixed once anything has been dispatched
+    const lockCashDiscount = mode === 'edit' && !!poPrefillData && Object.values(computeDispatchedQuantityByLine(poPrefillData)).some(qty => qty > 0);
 
     mainContent.innerHTML = `
         <div class="form-container">
@@ -332,24 +1314,50 @@ function renderCreatePOForm(
             <form id="po-form" aria-labelledby="po-form-heading">
                 <div class="form-group">
                     <label for="partyName">Party Name:</label>
-                    <input type="text" id="partyName" name="partyName" value="${poPrefillData ? escapeHTML(poPrefillData.partyName) : ''}" required>
+                    <input type="text" id="partyName" name="partyName" list="party-suggestions" value="${poPrefillData ? escapeHTML(poPrefillData.partyName) : ''}" required>
+                    <datalist id="party-suggestions">
+                        ${parties.map(p => `<option value="${escapeHTML(p.name)}">${escapeHTML(p.gstin)}</option>`).join('')}
+                    </datalist>
                 </div>
                 <div class="form-group">
                     <label for="gstin">GSTIN:</label>
-                    <input type="text" id="gstin" name="gstin" value="${poPrefillData ? escapeHTML(poPrefillData.gstin) : ''}" pattern="^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$" title="Enter valid GSTIN (e.g., 22AAAAA0000A1Z5)">
+                    <input type="text" id="gstin" name="gstin" value="${poPrefillData ? escapeHTML(poPrefillData.gstin) : ''}" pattern="^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$" title="Enter valid GSTIN (e.g., 27AAPFU0939F1ZV)">
+                    <small id="gstin-status" class="field-hint"></small>
+                </div>
+                <div class="form-group">
+                    <label for="placeOfSupply">Place of Supply:</label>
+                    <select id="placeOfSupply" name="placeOfSupply" required>
+                        ${renderStateOptionsHTML(poPrefillData ? poPrefillData.placeOfSupplyStateCode || getGstinStateCode(poPrefillData.gstin) : '')}
+                    </select>
+                    <small id="supply-type-hint" class="field-hint"></small>
                 </div>
                 <div class="form-group">
                     <label for="salesmanName">Salesman Name:</label>
                     <input type="text" id="salesmanName" name="salesmanName" value="${poPrefillData ? escapeHTML(poPrefillData.salesmanName) : ''}" required>
                 </div>
                 <div class="form-group">
-                    <label for="siteAddress">Site Address:</label>
-                    <textarea id="siteAddress" name="siteAddress" rows="3" required>${poPrefillData ? escapeHTML(poPrefillData.siteAddress) : ''}</textarea>
+                    <label for="billToAddress">Bill-to Address:</label>
+                    <textarea id="billToAddress" name="billToAddress" rows="3">${poPrefillData ? escapeHTML(poPrefillData.billToAddress) : ''}</textarea>
                 </div>
                 <div class="form-group">
-                    <label for="destination">Destination:</label>
-                    <input type="text" id="destination" name="destination" value="${poPrefillData ? escapeHTML(poPrefillData.destination) : ''}" required>
+                    <label><input type="checkbox" id="shipToSameAsBillTo" name="shipToSameAsBillTo" ${shipToSameAsBillTo ? 'checked' : ''}> Ship to the billed party</label>
+                </div>
+                <div id="ship-to-fields" style="${shipToSameAsBillTo ? 'display: none;' : ''}">
+                    <div class="form-group">
+                        <label for="shipToPartyName">Ship-to Party (Consignee):</label>
+                        <input type="text" id="shipToPartyName" name="shipToPartyName" list="party-suggestions" value="${poPrefillData ? escapeHTML(poPrefillData.shipToPartyName) : ''}">
+                    </div>
+                    <div class="form-group">
+                        <label for="shipToGstin">Ship-to GSTIN:</label>
+                        <input type="text" id="shipToGstin" name="shipToGstin" value="${poPrefillData ? escapeHTML(poPrefillData.shipToGstin) : ''}">
+                    </div>
+                </div>
+
+                <h3>Delivery Sites</h3>
+                <div id="delivery-sites-container">
+                    ${renderPOFormSitesHTML()}
                 </div>
+                <button type="button" id="add-delivery-site" class="secondary" style="margin-top: 10px; margin-bottom:20px;">+ Add Site</button>
                 <div class="form-group">
                     <label for="externalPoNumber">Optional PO Number (External Ref):</label>
                     <input type="text" id="externalPoNumber" name="externalPoNumber" value="${poPrefillData && poPrefillData.externalPoNumber ? escapeHTML(poPrefillData.externalPoNumber) : ''}">
@@ -360,11 +1368,35 @@ function renderCreatePOForm(
                     ${renderPOFormMaterialItemsHTML(mode === 'edit' ? poPrefillData : undefined)}
                 </div>
                 <button type="button" id="add-material-item" class="secondary" style="margin-top: 10px; margin-bottom:20px;" ${ (mode === 'edit' && poPrefillData && poPrefillData.status === 'Partially Dispatched') ? '' : ''}>+ Add Material</button>
+
+                <h3>Discount &amp; Charges</h3>
+                <div class="form-group">
+                    <label for="cashDiscountPercentage">Cash Discount on Order (%):</label>
+                    <input type="number" id="cashDiscountPercentage" name="cashDiscountPercentage" value="${poPrefillData ? poPrefillData.cashDiscountPercentage : 0}" min="0" max="100" step="0.01" ${lockCashDiscount ? 'readonly style="background-color:#e9ecef;"' : ''}>
+                </div>
+                <datalist id="order-charge-labels">
+                    ${ORDER_CHARGE_LABELS.map(label => `<option value="${label}"></option>`).join('')}
+                </datalist>
+                <div id="order-charges-container">
+                    ${renderPOFormChargesHTML()}
+                </div>
+                <button type="button" id="add-order-charge" class="secondary" style="margin-top: 10px;">+ Add Charge</button>
                 <hr style="margin: 20px 0;">
+                <div class="form-group po-tax-summary" style="text-align: right;">
+                    Gross: ₹<span id="po-total-gross">0.00</span>
+                    | Discounts: -₹<span id="po-total-discount">0.00</span>
+                    | Charges: ₹<span id="po-total-charges">0.00</span>
+                    <br>
+                    Taxable: ₹<span id="po-total-taxable">0.00</span>
+                    <span id="po-total-gst-split"></span>
+                    | Round Off: ₹<span id="po-round-off">0.00</span>
+                </div>
                 <div class="form-group" style="text-align: right; font-weight: bold; font-size: 1.2em;">
                     Grand Total (incl. GST): ₹<span id="po-grand-total">0.00</span>
                 </div>
+                <div id="duplicate-po-warning" class="duplicate-po-warning" role="alert" style="display: none;"></div>
                 <button type="submit" class="primary">${submitButtonText}</button>
+                ${mode !== 'edit' ? '<button type="submit" class="secondary" data-save-as-draft="true">Save as Draft</button>' : ''}
                 ${isEditingOrRevising ? `<button type="button" onclick="window.cancelPOFormEdit()" class="secondary">Cancel</button>` : ''}
             </form>
         </div>
@@ -372,10 +1404,35 @@ function renderCreatePOForm(
 
     // Attach uppercase listeners
     document.getElementById('partyName')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('gstin')?.addEventListener('input', handlePOFormGstinInput);
+    document.getElementById('placeOfSupply')?.addEventListener('change', refreshPOFormTaxes);
+    document.getElementById('cashDiscountPercentage')?.addEventListener('input', refreshPOFormTaxes);
+    attachPOFormChargeListeners();
+    document.getElementById('add-order-charge')?.addEventListener('click', handleAddPOFormCharge);
+    updateGstinStatus();
+    document.getElementById('partyName')?.addEventListener('input', (e) => {
+        const party = findPartyByName((e.target as HTMLInputElement).value);
+        if (party) applyPartyToPOForm(party);
+        applyListPricesToPOForm();
+    });
     document.getElementById('gstin')?.addEventListener('input', toUpperCaseListener);
     document.getElementById('salesmanName')?.addEventListener('input', toUpperCaseListener);
-    document.getElementById('destination')?.addEventListener('input', toUpperCaseListener);
     document.getElementById('externalPoNumber')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('shipToSameAsBillTo')?.addEventListener('change', (e) => {
+        const sameAsBillTo = (e.target as HTMLInputElement).checked;
+        document.getElementById('ship-to-fields')!.style.display = sameAsBillTo ? 'none' : 'block';
+        const party = findPartyByName((document.getElementById(sameAsBillTo ? 'partyName' : 'shipToPartyName') as HTMLInputElement).value);
+        poFormSavedSiteAddresses = party ? party.siteAddresses : [];
+        refreshPOFormSitesUI();
+    });
+    document.getElementById('shipToPartyName')?.addEventListener('input', (e) => {
+        toUpperCaseListener(e);
+        const party = findPartyByName((e.target as HTMLInputElement).value);
+        if (party) applyShipToPartyToPOForm(party);
+    });
+    document.getElementById('shipToGstin')?.addEventListener('input', toUpperCaseListener);
+    attachPOFormSiteListeners();
+    document.getElementById('add-delivery-site')?.addEventListener('click', handleAddPOFormSite);
 
     attachPOFormMaterialItemListeners(mode === 'edit' ? poPrefillData : undefined);
     poFormMaterialItems.forEach(item => updateItemCalculationsInForm(item.id)); // Initial calculation
@@ -410,46 +1467,73 @@ function renderPOFormMaterialItemsHTML(poForEditContext?: PurchaseOrder): string
 
     return poFormMaterialItems.map((item, index) => {
         // For edit mode, check dispatched quantities to lock fields. For revise/create, this isn't applicable.
-        const originalPOItem = poForEditContext?.items.find(i => i.material === item.material);
-        const dispatchedQty = (poForEditContext && originalPOItem) ? (poForEditContext.dispatchedQuantityByMaterial[originalPOItem.material] || 0) : 0;
+        const originalPOItem = poForEditContext?.items.find(i => i.id === item.id);
+        const dispatchedQty = (poForEditContext && originalPOItem) ? (computeDispatchedQuantityByLine(poForEditContext)[originalPOItem.id] || 0) : 0;
         const itemIsDispatched = dispatchedQty > 0;
-
-        const disableMaterial = isPartiallyDispatchedEdit && itemIsDispatched;
-        const disableRate = isPartiallyDispatchedEdit && itemIsDispatched;
-        const disableGst = isPartiallyDispatchedEdit && itemIsDispatched;
+        // A cancelled line is kept as it was cancelled
+        const lineCancelled = !!originalPOItem?.cancelled;
+
+        const disableMaterial = (isPartiallyDispatchedEdit && itemIsDispatched) || lineCancelled;
+        const disableRate = (isPartiallyDispatchedEdit && itemIsDispatched) || lineCancelled;
+        const disableGst = (isPartiallyDispatchedEdit && itemIsDispatched) || lineCancelled;
+        const disableDiscount = (isPartiallyDispatchedEdit && itemIsDispatched) || lineCancelled;
+        const disableUnit = (isPartiallyDispatchedEdit && itemIsDispatched) || lineCancelled;
         const minQuantity = (isPartiallyDispatchedEdit && itemIsDispatched) ? dispatchedQty : 0.01;
 
 
         return `
         <div class="material-item" data-item-id="${item.id}">
-            <h4>Material ${index + 1} ${(poForEditContext && itemIsDispatched) ? `<span class="badge badge-info-light">Dispatched: ${dispatchedQty.toFixed(2)}</span>` : ''}</h4>
+            <h4>Material ${index + 1} ${(poForEditContext && itemIsDispatched) ? `<span class="badge badge-info-light">Dispatched: ${dispatchedQty.toFixed(2)}</span>` : ''}${lineCancelled ? ' <span class="badge badge-cancelled">Line Cancelled</span>' : ''}</h4>
             <div class="form-group">
                 <label for="material-${item.id}">Material Name:</label>
                 <input type="text" id="material-${item.id}" class="material-name" list="material-suggestions-${item.id}" value="${escapeHTML(item.material)}" required data-item-id="${item.id}" ${disableMaterial ? 'readonly style="background-color:#e9ecef;"' : ''}>
                 <datalist id="material-suggestions-${item.id}">
-                    ${PREDEFINED_MATERIALS.map(mat => `<option value="${escapeHTML(mat)}"></option>`).join('')}
+                    ${materialMaster.filter(m => m.active).map(m => `<option value="${escapeHTML(m.name)}">${escapeHTML(m.code)} · ${escapeHTML(m.unit)}</option>`).join('')}
                 </datalist>
             </div>
             <div class="form-group">
                 <label for="quantity-${item.id}">Quantity (Min: ${minQuantity.toFixed(2)}):</label>
-                <input type="number" id="quantity-${item.id}" class="material-quantity" value="${item.quantity}" min="${minQuantity.toFixed(2)}" step="0.01" required data-item-id="${item.id}">
+                <input type="number" id="quantity-${item.id}" class="material-quantity" value="${item.quantity}" min="${minQuantity.toFixed(2)}" step="0.01" required data-item-id="${item.id}" ${lineCancelled ? 'readonly style="background-color:#e9ecef;"' : ''}>
+            </div>
+            <div class="form-group">
+                <label for="unit-${item.id}">Unit:</label>
+                <select id="unit-${item.id}" class="material-unit" data-item-id="${item.id}" ${disableUnit ? 'disabled style="background-color:#e9ecef;"' : ''}>
+                    ${renderPOFormUnitOptionsHTML(item)}
+                </select>
             </div>
             <div class="form-group">
-                <label for="rate-${item.id}">Rate:</label>
+                <label for="rate-${item.id}">Rate (per unit):</label>
                 <input type="number" id="rate-${item.id}" class="material-rate" value="${item.rate}" min="0.01" step="0.01" required data-item-id="${item.id}" ${disableRate ? 'readonly style="background-color:#e9ecef;"' : ''}>
             </div>
+            <div class="form-group">
+                <label for="discount-${item.id}">Trade Discount (%):</label>
+                <input type="number" id="discount-${item.id}" class="material-discount" value="${item.discountPercentage}" min="0" max="100" step="0.01" data-item-id="${item.id}" ${disableDiscount ? 'readonly style="background-color:#e9ecef;"' : ''}>
+            </div>
             <div class="form-group">
                 <label for="gst-${item.id}">GST Percentage:</label>
                 <select id="gst-${item.id}" class="material-gst" data-item-id="${item.id}" ${disableGst ? 'disabled style="background-color:#e9ecef;"' : ''}>
                     ${gstOptions.map(opt => `<option value="${opt}" ${item.gstPercentage === opt ? 'selected' : ''}>${opt}%</option>`).join('')}
                 </select>
             </div>
+            <div class="form-group" style="${poFormSites.length > 1 ? '' : 'display: none;'}">
+                <label for="site-${item.id}">Delivery Site:</label>
+                <select id="site-${item.id}" class="material-site" data-item-id="${item.id}" ${disableUnit ? 'disabled style="background-color:#e9ecef;"' : ''}>
+                    ${renderPOFormSiteOptionsHTML(item.siteId)}
+                </select>
+            </div>
+            <div class="form-group">
+                <label for="schedule-${item.id}">Delivery Schedule (optional):</label>
+                <input type="text" id="schedule-${item.id}" class="material-schedule" value="${escapeHTML(getPOFormScheduleText(item))}" placeholder="2025-07-15, or 2025-07-01 = 40, 2025-07-15" data-item-id="${item.id}" ${lineCancelled ? 'readonly style="background-color:#e9ecef;"' : ''}>
+                <small id="schedule-hint-${item.id}" class="field-hint"></small>
+            </div>
             <div class="item-calculations">
+                <p>Gross Amount: ₹<span id="gross-amount-${item.id}">0.00</span> <small id="discount-amount-${item.id}"></small></p>
                 <p>Taxable Amount: ₹<span id="taxable-amount-${item.id}">0.00</span></p>
-                <p>GST Amount: ₹<span id="gst-amount-${item.id}">0.00</span></p>
+                <p>GST Amount: ₹<span id="gst-amount-${item.id}">0.00</span> <small id="gst-split-${item.id}"></small></p>
                 <p><strong>Line Total (incl. GST): ₹<span id="line-total-${item.id}">0.00</span></strong></p>
+                <small id="price-check-${item.id}" class="field-hint"></small>
             </div>
-            ${poFormMaterialItems.length > 1 && !(isPartiallyDispatchedEdit && itemIsDispatched) ? `<button type="button" class="remove-material-item danger" data-item-id="${item.id}" aria-label="Remove Material ${index + 1}">Remove</button>` : ''}
+            ${poFormMaterialItems.length > 1 && !(isPartiallyDispatchedEdit && itemIsDispatched) && !lineCancelled ? `<button type="button" class="remove-material-item danger" data-item-id="${item.id}" aria-label="Remove Material ${index + 1}">Remove</button>` : ''}
         </div>
     `}).join('');
 }
@@ -465,16 +1549,25 @@ function attachPOFormMaterialItemListeners(poForEditContext?: PurchaseOrder): vo
 
     container.querySelectorAll('input[data-item-id], select[data-item-id]').forEach(inputEl => {
         const input = inputEl as HTMLInputElement | HTMLSelectElement;
-        const eventType = (input.classList.contains('material-name') || input.classList.contains('material-quantity') || input.classList.contains('material-rate')) ? 'input' : 'change';
+        const eventType = (input.classList.contains('material-name') || input.classList.contains('material-quantity') || input.classList.contains('material-rate') || input.classList.contains('material-discount') || input.classList.contains('material-schedule')) ? 'input' : 'change';
 
         input.addEventListener(eventType, () => {
             const itemId = input.dataset.itemId!;
             const itemIndex = poFormMaterialItems.findIndex(i => i.id === itemId);
             if (itemIndex > -1) {
-                if (input.classList.contains('material-name')) poFormMaterialItems[itemIndex].material = input.value;
+                if (input.classList.contains('material-name')) {
+                    poFormMaterialItems[itemIndex].material = input.value;
+                    prefillPOFormItemFromMaster(itemId);
+                    const unitSelect = document.getElementById(`unit-${itemId}`) as HTMLSelectElement | null;
+                    if (unitSelect && !unitSelect.disabled) unitSelect.innerHTML = renderPOFormUnitOptionsHTML(poFormMaterialItems[itemIndex]);
+                }
                 if (input.classList.contains('material-quantity')) poFormMaterialItems[itemIndex].quantity = parseFloat(input.value) || 0;
                 if (input.classList.contains('material-rate')) poFormMaterialItems[itemIndex].rate = parseFloat(input.value) || 0;
                 if (input.classList.contains('material-gst')) poFormMaterialItems[itemIndex].gstPercentage = parseFloat(input.value) || 0;
+                if (input.classList.contains('material-discount')) poFormMaterialItems[itemIndex].discountPercentage = parseFloat(input.value) || 0;
+                if (input.classList.contains('material-site')) poFormMaterialItems[itemIndex].siteId = input.value;
+                if (input.classList.contains('material-unit')) changePOFormItemUnit(itemId, input.value);
+                if (input.classList.contains('material-schedule')) poFormScheduleText[itemId] = input.value;
 
                 updateItemCalculationsInForm(itemId);
                 updatePOGrandTotalInForm();
@@ -487,35 +1580,199 @@ function attachPOFormMaterialItemListeners(poForEditContext?: PurchaseOrder): vo
     });
 }
 
-function updateItemCalculationsInForm(itemId: string): void {
+function renderPOFormUnitOptionsHTML(item: MaterialItem): string {
+    const units = findMaterialByName(item.material)
+        ? getConvertibleUnits(item.material, item.unit)
+        : Array.from(new Set([item.unit, ...COMMON_UNITS]));
+    return units.map(unit => `<option value="${escapeHTML(unit)}" ${unit === item.unit ? 'selected' : ''}>${escapeHTML(unit)}</option>`).join('');
+}
+
+// Switching a line to another unit of the same material keeps the price the same by
+// converting the rate, e.g. ₹300 per BAG becomes ₹7500 per TONNE at 25 bags a tonne.
+function changePOFormItemUnit(itemId: string, newUnit: string): void {
     const item = poFormMaterialItems.find(i => i.id === itemId);
-    if (!item) return;
+    if (!item || item.unit === newUnit) return;
+    const perNewUnit = convertQuantity(item.material, 1, newUnit, item.unit);
+    const rateInput = document.getElementById(`rate-${itemId}`) as HTMLInputElement | null;
+    if (perNewUnit !== null && rateInput && !rateInput.readOnly) {
+        item.rate = Math.round(item.rate * perNewUnit * 100) / 100;
+        rateInput.value = item.rate.toString();
+    }
+    item.unit = newUnit;
+}
 
-    const qty = item.quantity;
-    const rate = item.rate;
-    const gstPerc = item.gstPercentage;
+// Copies the default unit, rate and GST of a master material into the line once its name matches.
+// Locked fields (dispatched lines of a partially dispatched PO) are left alone.
+function prefillPOFormItemFromMaster(itemId: string): void {
+    const item = poFormMaterialItems.find(i => i.id === itemId);
+    const material = item ? findMaterialByName(item.material) : undefined;
+    if (!item || !material || !material.active) return;
+    const rateInput = document.getElementById(`rate-${itemId}`) as HTMLInputElement | null;
+    const gstSelect = document.getElementById(`gst-${itemId}`) as HTMLSelectElement | null;
+    const unitSelect = document.getElementById(`unit-${itemId}`) as HTMLSelectElement | null;
+    if (unitSelect && !unitSelect.disabled) {
+        item.unit = material.unit;
+        unitSelect.innerHTML = renderPOFormUnitOptionsHTML(item);
+    }
+    if (rateInput && !rateInput.readOnly) {
+        const listRate = getListRateForLine(getPOFormPartyId(), item, getPOFormPriceDate());
+        item.rate = listRate !== null ? Math.round(listRate * 100) / 100 : material.defaultRate;
+        rateInput.value = item.rate.toString();
+    }
+    if (gstSelect && !gstSelect.disabled && Array.from(gstSelect.options).some(o => parseFloat(o.value) === material.defaultGstPercentage)) {
+        item.gstPercentage = material.defaultGstPercentage;
+        gstSelect.value = material.defaultGstPercentage.toString();
+    }
+}
 
-    const taxableAmount = qty * rate;
-    const gstAmount = (taxableAmount * gstPerc) / 100;
-    const lineTotal = taxableAmount + gstAmount;
+function updateItemCalculationsInForm(itemId: string): void {
+    const item = poFormMaterialItems.find(i => i.id === itemId);
+    if (!item) return;
 
-    document.getElementById(`taxable-amount-${itemId}`)!.textContent = taxableAmount.toFixed(2);
-    document.getElementById(`gst-amount-${itemId}`)!.textContent = gstAmount.toFixed(2);
-    document.getElementById(`line-total-${itemId}`)!.textContent = lineTotal.toFixed(2);
+    const interState = isPOFormInterState();
+    const gross = item.quantity * item.rate;
+    const tax = computeLineTax(item.quantity, getNetRate(item, getPOFormCashDiscount()), item.gstPercentage, interState);
+
+    document.getElementById(`gross-amount-${itemId}`)!.textContent = gross.toFixed(2);
+    document.getElementById(`discount-amount-${itemId}`)!.textContent = gross - tax.taxable > 0 ? `(less discounts ₹${(gross - tax.taxable).toFixed(2)})` : '';
+    document.getElementById(`taxable-amount-${itemId}`)!.textContent = tax.taxable.toFixed(2);
+    document.getElementById(`gst-amount-${itemId}`)!.textContent = tax.gst.toFixed(2);
+    document.getElementById(`gst-split-${itemId}`)!.textContent = `(${describeLineTax(tax, item.gstPercentage, interState)})`;
+    document.getElementById(`line-total-${itemId}`)!.textContent = tax.total.toFixed(2);
+
+    const priceCheck = checkLineAgainstPriceList(getPOFormPartyId(), item, getPOFormPriceDate());
+    const priceCheckEl = document.getElementById(`price-check-${itemId}`)!;
+    priceCheckEl.textContent = priceCheck ? describePriceCheck(priceCheck, item.unit) : '';
+    priceCheckEl.classList.toggle('error-message', !!priceCheck && priceCheck.outsideTolerance);
+    updatePOFormScheduleHint(item);
 }
 
-function updatePOGrandTotalInForm(): void {
-    let grandTotal = 0;
-    poFormMaterialItems.forEach(item => {
-        const taxableAmount = item.quantity * item.rate;
-        const gstAmount = (taxableAmount * item.gstPercentage) / 100;
-        grandTotal += taxableAmount + gstAmount;
-    });
-    document.getElementById('po-grand-total')!.textContent = grandTotal.toFixed(2);
+// The typed schedule is kept apart from the line so a half-typed date survives re-renders.
+function getPOFormScheduleText(item: MaterialItem): string {
+    if (poFormScheduleText[item.id] === undefined) poFormScheduleText[item.id] = formatScheduleText(item.schedule, item.quantity);
+    return poFormScheduleText[item.id];
 }
 
-
-function refreshPOFormMaterialItemsUI(poForEditContext?: PurchaseOrder): void {
+function updatePOFormScheduleHint(item: MaterialItem): void {
+    const hintEl = document.getElementById(`schedule-hint-${item.id}`);
+    if (!hintEl) return;
+    try {
+        const slots = parseScheduleText(getPOFormScheduleText(item), item.quantity);
+        const scheduled = slots.reduce((sum, s) => sum + s.quantity, 0);
+        hintEl.textContent = slots.length === 0 ? '' : `${slots.length} ${slots.length === 1 ? 'delivery' : 'deliveries'}, ${scheduled.toFixed(2)} of ${item.quantity.toFixed(2)} ${item.unit} scheduled${scheduled < item.quantity - 0.005 ? '; the rest has no date' : ''}.`;
+        hintEl.classList.remove('error-message');
+    } catch (e) {
+        hintEl.textContent = (e as Error).message;
+        hintEl.classList.add('error-message');
+    }
+}
+
+// Parses each line's typed schedule into its slots. Alerts and returns false on the first bad one.
+function applyPOFormSchedules(items: MaterialItem[]): boolean {
+    for (const item of items) {
+        try {
+            item.schedule = parseScheduleText(getPOFormScheduleText(item), item.quantity);
+        } catch (e) {
+            alert(`Delivery schedule for ${item.material}: ${(e as Error).message}`);
+            return false;
+        }
+    }
+    return true;
+}
+
+function getPOFormPartyId(): string | undefined {
+    const input = document.getElementById('partyName') as HTMLInputElement | null;
+    return input ? findPartyByName(input.value)?.id : undefined;
+}
+
+// Price lists are looked up on the PO date: today for a new PO, the original date when editing.
+function getPOFormPriceDate(): string {
+    const editingPO = currentEditingPOId ? purchaseOrders.find(po => po.id === currentEditingPOId) : undefined;
+    return (editingPO ? editingPO.createdAt : new Date().toISOString()).substring(0, 10);
+}
+
+// Puts the list price on unlocked lines whose rate hasn't been typed over: still 0 or the
+// material's default rate. Used when the party changes.
+function applyListPricesToPOForm(): void {
+    poFormMaterialItems.forEach(item => {
+        const rateInput = document.getElementById(`rate-${item.id}`) as HTMLInputElement | null;
+        const material = findMaterialByName(item.material);
+        if (!rateInput || rateInput.readOnly || (item.rate !== 0 && (!material || item.rate !== material.defaultRate))) return;
+        const listRate = getListRateForLine(getPOFormPartyId(), item, getPOFormPriceDate());
+        if (listRate === null) return;
+        item.rate = Math.round(listRate * 100) / 100;
+        rateInput.value = item.rate.toString();
+    });
+    refreshPOFormTaxes();
+}
+
+// Asks before saving lines priced outside their price list tolerance.
+function confirmPriceListDeviations(items: MaterialItem[], partyId: string | undefined, date: string): boolean {
+    const flagged = items
+        .map(item => ({ item, check: checkLineAgainstPriceList(partyId, item, date) }))
+        .filter(({ check }) => check && check.outsideTolerance);
+    if (flagged.length === 0) return true;
+    return confirm(`These lines are outside their price list tolerance:\n${flagged.map(({ item, check }) => `${item.material}: ${describePriceCheck(check!, item.unit)}`).join('\n')}\n\nSave anyway?`);
+}
+
+function updatePOGrandTotalInForm(): void {
+    const interState = isPOFormInterState();
+    const totals = computePOTotals(poFormMaterialItems, getPOFormCashDiscount(), poFormCharges, interState);
+    document.getElementById('po-total-gross')!.textContent = totals.grossAmount.toFixed(2);
+    document.getElementById('po-total-discount')!.textContent = (totals.lineDiscount + totals.cashDiscount).toFixed(2);
+    document.getElementById('po-total-charges')!.textContent = totals.chargesAmount.toFixed(2);
+    document.getElementById('po-total-taxable')!.textContent = totals.taxable.toFixed(2);
+    document.getElementById('po-round-off')!.textContent = totals.roundOff.toFixed(2);
+    document.getElementById('po-total-gst-split')!.textContent = interState
+        ? ` | IGST: ₹${totals.igst.toFixed(2)}`
+        : ` | CGST: ₹${totals.cgst.toFixed(2)} | SGST: ₹${totals.sgst.toFixed(2)}`;
+    document.getElementById('po-grand-total')!.textContent = totals.total.toFixed(2);
+}
+
+function getPOFormCashDiscount(): number {
+    const input = document.getElementById('cashDiscountPercentage') as HTMLInputElement | null;
+    return input ? parseFloat(input.value) || 0 : 0;
+}
+
+function isPOFormInterState(): boolean {
+    const placeOfSupply = document.getElementById('placeOfSupply') as HTMLSelectElement | null;
+    const editingPO = currentEditingPOId ? purchaseOrders.find(p => p.id === currentEditingPOId) : undefined;
+    return isInterStateSupply(placeOfSupply ? placeOfSupply.value : '', editingPO?.supplierStateCode || companyProfile.stateCode);
+}
+
+function refreshPOFormTaxes(): void {
+    poFormMaterialItems.forEach(item => updateItemCalculationsInForm(item.id));
+    updatePOGrandTotalInForm();
+    const hint = document.getElementById('supply-type-hint');
+    if (hint) {
+        hint.textContent = !companyProfile.stateCode
+            ? 'Set the company state under Company to split IGST from CGST/SGST.'
+            : isPOFormInterState() ? 'Inter-state supply: IGST applies.' : 'Intra-state supply: CGST + SGST apply.';
+    }
+}
+
+// Shows whether the typed GSTIN is valid and moves the place of supply to its state.
+function updateGstinStatus(): void {
+    const input = document.getElementById('gstin') as HTMLInputElement | null;
+    const status = document.getElementById('gstin-status');
+    if (!input || !status) return;
+    const value = input.value.trim();
+    const error = value ? validateGstin(value) : null;
+    status.textContent = !value ? '' : error ? error : `Valid GSTIN, state ${describeStateCode(value.substring(0, 2))}`;
+    status.classList.toggle('error-message', !!error);
+    refreshPOFormTaxes();
+}
+
+function handlePOFormGstinInput(): void {
+    const input = document.getElementById('gstin') as HTMLInputElement;
+    const placeOfSupply = document.getElementById('placeOfSupply') as HTMLSelectElement;
+    const stateCode = getGstinStateCode(input.value.toUpperCase());
+    if (stateCode) placeOfSupply.value = stateCode;
+    updateGstinStatus();
+}
+
+
+function refreshPOFormMaterialItemsUI(poForEditContext?: PurchaseOrder): void {
     const container = document.getElementById('material-items-container');
     if (container) {
         container.innerHTML = renderPOFormMaterialItemsHTML(poForEditContext);
@@ -526,71 +1783,330 @@ function refreshPOFormMaterialItemsUI(poForEditContext?: PurchaseOrder): void {
 }
 
 function handleAddPOFormMaterialItem(poForEditContext?: PurchaseOrder): void {
-    poFormMaterialItems.push({ id: generateId('item'), material: '', quantity: 0, rate: 0, gstPercentage: DEFAULT_GST_RATE });
+    // A new line is usually for the same site as the one above it
+    const lastLine = poFormMaterialItems[poFormMaterialItems.length - 1];
+    poFormMaterialItems.push({ id: generateId('item', poFormMaterialItems.map(item => item.id)), material: '', quantity: 0, unit: DEFAULT_MATERIAL_UNIT, rate: 0, gstPercentage: DEFAULT_GST_RATE, discountPercentage: 0, schedule: [], siteId: lastLine ? lastLine.siteId : poFormSites[0].id });
     refreshPOFormMaterialItemsUI(poForEditContext);
 }
 
+function renderPOFormChargesHTML(): string {
+    const gstOptions = [0, 5, 12, 18, 28];
+    if (poFormCharges.length === 0) return '<p class="field-hint">No freight or other charges.</p>';
+    return poFormCharges.map(charge => `
+        <div class="order-charge-row" data-charge-id="${charge.id}">
+            <input type="text" class="charge-label" list="order-charge-labels" value="${escapeHTML(charge.label)}" placeholder="Charge (e.g. FREIGHT)" aria-label="Charge name" data-charge-id="${charge.id}">
+            <input type="number" class="charge-amount" value="${charge.amount}" min="0" step="0.01" aria-label="Charge amount before GST" data-charge-id="${charge.id}">
+            <select class="charge-gst" aria-label="Charge GST percentage" data-charge-id="${charge.id}">
+                ${gstOptions.map(opt => `<option value="${opt}" ${charge.gstPercentage === opt ? 'selected' : ''}>${opt}%</option>`).join('')}
+            </select>
+            <button type="button" class="remove-order-charge danger small" data-charge-id="${charge.id}">Remove</button>
+        </div>
+    `).join('');
+}
+
+function attachPOFormChargeListeners(): void {
+    const container = document.getElementById('order-charges-container')!;
+    container.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input[data-charge-id], select[data-charge-id]').forEach(input => {
+        input.addEventListener(input.tagName === 'SELECT' ? 'change' : 'input', (e) => {
+            const charge = poFormCharges.find(c => c.id === input.dataset.chargeId);
+            if (!charge) return;
+            if (input.classList.contains('charge-label')) {
+                toUpperCaseListener(e);
+                charge.label = input.value;
+            }
+            if (input.classList.contains('charge-amount')) charge.amount = parseFloat(input.value) || 0;
+            if (input.classList.contains('charge-gst')) charge.gstPercentage = parseFloat(input.value) || 0;
+            updatePOGrandTotalInForm();
+        });
+    });
+    container.querySelectorAll<HTMLElement>('.remove-order-charge').forEach(button => {
+        button.addEventListener('click', () => {
+            poFormCharges = poFormCharges.filter(c => c.id !== button.dataset.chargeId);
+            refreshPOFormChargesUI();
+        });
+    });
+}
+
+function refreshPOFormChargesUI(): void {
+    document.getElementById('order-charges-container')!.innerHTML = renderPOFormChargesHTML();
+    attachPOFormChargeListeners();
+    updatePOGrandTotalInForm();
+}
+
+function handleAddPOFormCharge(): void {
+    poFormCharges.push({ id: generateId('charge', poFormCharges.map(charge => charge.id)), label: poFormCharges.length === 0 ? 'FREIGHT' : '', amount: 0, gstPercentage: DEFAULT_GST_RATE });
+    refreshPOFormChargesUI();
+}
+
+function renderPOFormSitesHTML(): string {
+    // A site something was dispatched to stays on the PO
+    const usedSiteIds = new Set(dispatches.filter(d => currentEditingPOId && d.poId === currentEditingPOId).map(d => d.siteId));
+    return poFormSites.map((site, index) => `
+        <div class="delivery-site" data-site-id="${site.id}">
+            <h4>Site ${index + 1}</h4>
+            <div class="form-group">
+                <label for="site-name-${site.id}">Site Name${poFormSites.length > 1 ? '' : ' (optional)'}:</label>
+                <input type="text" id="site-name-${site.id}" class="site-name" value="${escapeHTML(site.name)}" placeholder="e.g. TOWER A" data-site-id="${site.id}" ${poFormSites.length > 1 ? 'required' : ''}>
+            </div>
+            <div class="form-group">
+                <label for="site-address-${site.id}">Site Address:</label>
+                ${poFormSavedSiteAddresses.length > 0 ? `
+                <select class="site-saved-address" aria-label="Saved addresses for site ${index + 1}" data-site-id="${site.id}">
+                    <option value="">Use a saved address…</option>
+                    ${poFormSavedSiteAddresses.map((address, i) => `<option value="${i}">${escapeHTML(address)}</option>`).join('')}
+                </select>` : ''}
+                <textarea id="site-address-${site.id}" class="site-address" rows="3" required data-site-id="${site.id}">${escapeHTML(site.address)}</textarea>
+            </div>
+            <div class="form-group">
+                <label for="site-destination-${site.id}">Destination:</label>
+                <input type="text" id="site-destination-${site.id}" class="site-destination" value="${escapeHTML(site.destination)}" required data-site-id="${site.id}">
+            </div>
+            ${poFormSites.length > 1 && !usedSiteIds.has(site.id) ? `<button type="button" class="remove-delivery-site danger small" data-site-id="${site.id}">Remove Site</button>` : ''}
+        </div>
+    `).join('');
+}
+
+function attachPOFormSiteListeners(): void {
+    const container = document.getElementById('delivery-sites-container')!;
+    container.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>('[data-site-id]:not(button)').forEach(input => {
+        input.addEventListener(input.tagName === 'SELECT' ? 'change' : 'input', (e) => {
+            const site = poFormSites.find(s => s.id === input.dataset.siteId);
+            if (!site) return;
+            if (input.classList.contains('site-name')) {
+                toUpperCaseListener(e);
+                site.name = input.value;
+                refreshPOFormLineSiteOptions();
+            }
+            if (input.classList.contains('site-destination')) {
+                toUpperCaseListener(e);
+                site.destination = input.value;
+                refreshPOFormLineSiteOptions();
+            }
+            if (input.classList.contains('site-address')) site.address = input.value;
+            if (input.classList.contains('site-saved-address') && input.value !== '') {
+                site.address = poFormSavedSiteAddresses[parseInt(input.value, 10)] || site.address;
+                (document.getElementById(`site-address-${site.id}`) as HTMLTextAreaElement).value = site.address;
+                input.value = '';
+            }
+        });
+    });
+    container.querySelectorAll<HTMLElement>('.remove-delivery-site').forEach(button => {
+        button.addEventListener('click', () => {
+            poFormSites = poFormSites.filter(s => s.id !== button.dataset.siteId);
+            // Lines of a removed site go to the first one
+            poFormMaterialItems.forEach(item => {
+                if (!poFormSites.some(s => s.id === item.siteId)) item.siteId = poFormSites[0].id;
+            });
+            refreshPOFormSitesUI();
+        });
+    });
+}
+
+function refreshPOFormSitesUI(): void {
+    const container = document.getElementById('delivery-sites-container');
+    if (!container) return;
+    container.innerHTML = renderPOFormSitesHTML();
+    attachPOFormSiteListeners();
+    refreshPOFormLineSiteOptions();
+}
+
+// Keeps each line's site picker in step with the sites above; it is hidden while there is only one.
+function refreshPOFormLineSiteOptions(): void {
+    poFormMaterialItems.forEach(item => {
+        const select = document.getElementById(`site-${item.id}`) as HTMLSelectElement | null;
+        if (!select) return;
+        select.innerHTML = renderPOFormSiteOptionsHTML(item.siteId);
+        (select.closest('.form-group') as HTMLElement).style.display = poFormSites.length > 1 ? 'block' : 'none';
+    });
+}
+
+function renderPOFormSiteOptionsHTML(selectedSiteId: string): string {
+    return poFormSites.map((site, index) => `<option value="${site.id}" ${site.id === selectedSiteId ? 'selected' : ''}>${escapeHTML(describeDeliverySite(site, index))}</option>`).join('');
+}
+
+function handleAddPOFormSite(): void {
+    poFormSites.push({ id: nextDeliverySiteId(poFormSites), name: '', address: '', destination: '' });
+    refreshPOFormSitesUI();
+}
+
+// Checks the sites and the ship-to details on the form. Returns the cleaned-up sites, or null after alerting.
+function validatePOFormSites(items: MaterialItem[], formData: FormData): DeliverySite[] | null {
+    const sites = poFormSites.map(site => ({ ...site, name: site.name.trim().toUpperCase(), address: site.address.trim(), destination: site.destination.trim().toUpperCase() }));
+    const incomplete = sites.findIndex(site => !site.address || !site.destination);
+    if (incomplete > -1) {
+        alert(`Site ${incomplete + 1} needs an address and a destination.`);
+        return null;
+    }
+    if (sites.length > 1) {
+        const names = sites.map(site => site.name);
+        if (names.some(name => !name) || new Set(names).size !== names.length) {
+            alert('Each delivery site needs its own name when a PO has more than one.');
+            return null;
+        }
+    }
+    if (items.some(item => !sites.some(site => site.id === item.siteId))) {
+        alert('Every material line must be for one of the delivery sites.');
+        return null;
+    }
+    if (formData.get('shipToSameAsBillTo') !== 'on') {
+        if (!(formData.get('shipToPartyName') as string).trim()) {
+            alert('Enter the ship-to party, or tick "Ship to the billed party".');
+            return null;
+        }
+        const shipToGstin = (formData.get('shipToGstin') as string).trim().toUpperCase();
+        const gstinError = shipToGstin ? validateGstin(shipToGstin) : null;
+        if (gstinError) {
+            alert(`Invalid ship-to GSTIN: ${gstinError}`);
+            return null;
+        }
+    }
+    return sites;
+}
+
+// Bill-to and ship-to fields of the PO form. With "Ship to the billed party" ticked, the consignee is the billed party.
+function readPOFormParties(formData: FormData): Pick<PurchaseOrder, 'billToAddress' | 'shipToPartyName' | 'shipToGstin'> {
+    const sameAsBillTo = formData.get('shipToSameAsBillTo') === 'on';
+    return {
+        billToAddress: (formData.get('billToAddress') as string).trim(),
+        shipToPartyName: ((sameAsBillTo ? formData.get('partyName') : formData.get('shipToPartyName')) as string).trim().toUpperCase(),
+        shipToGstin: ((sameAsBillTo ? formData.get('gstin') : formData.get('shipToGstin')) as string).trim().toUpperCase()
+    };
+}
+
+// Checks discounts and charges on the form. Returns the cleaned-up charges, or null after alerting.
+function validatePOFormAmounts(items: MaterialItem[], formData: FormData): OrderCharge[] | null {
+    const badDiscount = items.find(item => item.discountPercentage < 0 || item.discountPercentage > 100);
+    if (badDiscount) {
+        alert(`Trade discount for ${badDiscount.material} must be between 0 and 100%.`);
+        return null;
+    }
+    const cashDiscount = parseFloat(formData.get('cashDiscountPercentage') as string) || 0;
+    if (cashDiscount < 0 || cashDiscount > 100) {
+        alert('Cash discount must be between 0 and 100%.');
+        return null;
+    }
+    const charges = poFormCharges
+        .filter(c => c.label.trim() !== '' || c.amount !== 0)
+        .map(c => ({ ...c, label: c.label.trim().toUpperCase() }));
+    const badCharge = charges.find(c => !c.label || c.amount < 0);
+    if (badCharge) {
+        alert('Every charge needs a name and an amount of zero or more.');
+        return null;
+    }
+    return charges;
+}
+
 function handleRemovePOFormMaterialItem(itemId: string, poForEditContext?: PurchaseOrder): void {
     poFormMaterialItems = poFormMaterialItems.filter(item => item.id !== itemId);
     refreshPOFormMaterialItemsUI(poForEditContext);
 }
 
-function handleCreatePOSubmit(event: Event): void {
+async function handleCreatePOSubmit(event: Event): Promise<void> {
     event.preventDefault();
     const form = (event.target as HTMLFormElement);
     const formData = new FormData(form);
+    const saveAsDraft = !!(event as SubmitEvent).submitter?.dataset.saveAsDraft;
+    if (!validatePOFormTaxFields(formData)) return;
 
     const validItemsFromForm = poFormMaterialItems
         .filter(item => item.material.trim() !== '' && item.quantity > 0 && item.rate >= 0)
-        .map(({ id, material, quantity, rate, gstPercentage }) => ({ material: material.toUpperCase(), quantity, rate, gstPercentage, id: id || generateId('item') }));
+        .map(({ id, material, quantity, unit, rate, gstPercentage, discountPercentage, schedule, siteId }) => ({ material: material.toUpperCase(), quantity, unit, rate, gstPercentage, discountPercentage, schedule, siteId, id: id || generateId('item', poFormMaterialItems.map(item => item.id)) }));
 
 
     if (validItemsFromForm.length === 0) {
         alert('Please add at least one valid material item with name and quantity.');
         return;
     }
+    const charges = validatePOFormAmounts(validItemsFromForm, formData);
+    if (!charges) return;
+    const deliverySites = validatePOFormSites(validItemsFromForm, formData);
+    if (!deliverySites) return;
+    if (!applyPOFormSchedules(validItemsFromForm)) return;
+    const cashDiscountPercentage = parseFloat(formData.get('cashDiscountPercentage') as string) || 0;
+    const placeOfSupplyStateCode = formData.get('placeOfSupply') as string;
+    const totals = computePOTotals(validItemsFromForm, cashDiscountPercentage, charges, isInterStateSupply(placeOfSupplyStateCode));
+    const externalPoNumberValue = formData.get('externalPoNumber') as string;
 
-    let totalAmountWithGST = 0;
-    validItemsFromForm.forEach(item => {
-        const taxable = item.quantity * item.rate;
-        const gst = (taxable * item.gstPercentage) / 100;
-        totalAmountWithGST += taxable + gst;
-    });
+    const duplicateCandidate: DuplicatePOCandidate = {
+        partyName: (formData.get('partyName') as string).toUpperCase(),
+        partyId: findPartyByName(formData.get('partyName') as string)?.id,
+        externalPoNumber: externalPoNumberValue ? externalPoNumberValue.trim() : undefined,
+        items: validItemsFromForm,
+        deliverySites,
+        totalAmount: totals.total,
+        createdAt: new Date().toISOString()
+    };
+    // A revision or duplicate is expected to look like its source PO
+    const duplicateMatches = findLikelyDuplicatePOs(duplicateCandidate, _originalIdForRevisionOnCreatePage);
+    const duplicateAcknowledgement = poFormDuplicateAcknowledgement;
+    poFormDuplicateAcknowledgement = null;
+    if (duplicateMatches.length > 0 && !(duplicateAcknowledgement && duplicateMatches.every(match => duplicateAcknowledgement.poIds.includes(match.po.id)))) {
+        showDuplicatePOWarning(form, duplicateCandidate, duplicateMatches, (event as SubmitEvent).submitter);
+        return;
+    }
+    if (!confirmPriceListDeviations(validItemsFromForm, findPartyByName(formData.get('partyName') as string)?.id, getPOFormPriceDate())) return;
 
-    const dispatchedQuantityByMaterial: { [materialName: string]: number } = {};
+    const dispatchedQuantityByLine: { [lineId: string]: number } = {};
     validItemsFromForm.forEach(item => {
-        dispatchedQuantityByMaterial[item.material.toUpperCase()] = 0;
+        dispatchedQuantityByLine[item.id] = 0;
     });
 
-    const externalPoNumberValue = formData.get('externalPoNumber') as string;
-
     const newPO: PurchaseOrder = {
-        id: generateId('PO'),
+        id: allocateDocumentNumber('po', toLocalDateOnly(new Date())),
         externalPoNumber: externalPoNumberValue ? externalPoNumberValue.trim() : undefined,
         partyName: (formData.get('partyName') as string).toUpperCase(),
         gstin: (formData.get('gstin') as string).toUpperCase(),
         salesmanName: (formData.get('salesmanName') as string).toUpperCase(),
-        siteAddress: formData.get('siteAddress') as string,
-        destination: (formData.get('destination') as string).toUpperCase(),
+        ...readPOFormParties(formData),
+        deliverySites,
+        placeOfSupplyStateCode,
+        supplierStateCode: companyProfile.stateCode,
         items: validItemsFromForm,
         createdAt: new Date().toISOString(),
-        status: 'Pending',
-        totalAmount: totalAmountWithGST,
-        dispatchedQuantityByMaterial: dispatchedQuantityByMaterial
+        updatedAt: new Date().toISOString(),
+        status: 'Draft',
+        cashDiscountPercentage,
+        charges,
+        roundOff: totals.roundOff,
+        totalAmount: totals.total,
+        approvalHistory: [],
+        dispatchedQuantityByLine: dispatchedQuantityByLine
     };
+    const originalPO = _formModeForCreatePage === 'revise' && _originalIdForRevisionOnCreatePage ? purchaseOrders.find(p => p.id === _originalIdForRevisionOnCreatePage) : undefined;
+    if (originalPO) newPO.revisedFrom = originalPO.id;
+    const duplicatedFromId = _formModeForCreatePage === 'duplicate' ? _originalIdForRevisionOnCreatePage : undefined;
 
-    newPO.items.forEach(item => {
-        const materialNameUpper = item.material;
-        if (!PREDEFINED_MATERIALS.includes(materialNameUpper)) {
-            PREDEFINED_MATERIALS.push(materialNameUpper);
-        }
-    });
+    offerToAddUnknownMaterials(newPO.items);
+    offerToAddUnknownParty(newPO);
+    newPO.partyId = findPartyByName(newPO.partyName)?.id;
+    const creditHold = saveAsDraft ? null : releaseOrHoldPO(newPO);
 
     purchaseOrders.unshift(newPO);
-    saveData();
-    alert('Purchase Order Created Successfully! System PO ID: ' + newPO.id);
+    const createNotes = [
+        originalPO ? revisedFromNote(originalPO.id) : duplicatedFromId ? `Duplicated from PO ${duplicatedFromId}.` : '',
+        duplicateMatches.length > 0 && duplicateAcknowledgement ? `Created despite possible duplicate of PO ${duplicateMatches.map(match => match.po.id).join(', ')}: ${duplicateAcknowledgement.reason}` : ''
+    ].filter(note => note);
+    recordAuditEntry('po', newPO, 'create', [], createNotes.length > 0 ? createNotes.join(' ') : undefined);
+    if (originalPO) {
+        recordAuditEntry('po', originalPO, 'revise', [{ field: 'revisedInto', before: originalPO.revisedInto, after: newPO.id }], revisedIntoNote(newPO.id));
+        originalPO.revisedInto = newPO.id;
+        originalPO.updatedAt = newPO.updatedAt;
+    }
+    if (!(await saveData())) return;
+    queueSyncOperation('po', 'create', newPO);
+    if (originalPO) queueSyncOperation('po', 'update', originalPO);
+    if (saveAsDraft) {
+        alert(`Purchase Order saved as a draft. System PO ID: ${newPO.id}\nSubmit it from the Approvals list when it is ready.`);
+    } else if (newPO.status === 'Awaiting Approval') {
+        alert(`Purchase Order ${newPO.id} was created and is awaiting approval before it can be dispatched.${creditHold ? `\n\n${creditHold}` : ''}`);
+    } else {
+        alert('Purchase Order Created Successfully! System PO ID: ' + newPO.id);
+    }
     form.reset();
     poFormMaterialItems = []; // Reset for next creation
+    poFormCharges = [];
+    poFormScheduleText = {};
+    poFormSites = [];
     currentEditingPOId = null; // Clear any potential editing ID
     _formModeForCreatePage = 'create'; // Reset form mode
     _formDataForCreatePage = undefined;
@@ -599,7 +2115,21 @@ function handleCreatePOSubmit(event: Event): void {
     renderApp();
 }
 
-function handleUpdatePOSubmit(poId: string, event: Event): void {
+function validatePOFormTaxFields(formData: FormData): boolean {
+    const gstin = (formData.get('gstin') as string).trim().toUpperCase();
+    const gstinError = gstin ? validateGstin(gstin) : null;
+    if (gstinError) {
+        alert(`Invalid GSTIN: ${gstinError}`);
+        return false;
+    }
+    if (!GST_STATE_CODES[formData.get('placeOfSupply') as string]) {
+        alert('Please select the place of supply.');
+        return false;
+    }
+    return true;
+}
+
+async function handleUpdatePOSubmit(poId: string, event: Event): Promise<void> {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
     const formData = new FormData(form);
@@ -609,31 +2139,43 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
         return;
     }
     const existingPO = purchaseOrders[poIndex];
+    if (!validatePOFormTaxFields(formData)) return;
 
     const editedItemsFromForm = poFormMaterialItems
-        .map(({ id, material, quantity, rate, gstPercentage }) => ({ material: material.toUpperCase(), quantity, rate, gstPercentage, id: id || generateId('item') }));
+        .map(({ id, material, quantity, unit, rate, gstPercentage, discountPercentage, schedule, siteId, cancelled }) => ({ material: material.toUpperCase(), quantity, unit, rate, gstPercentage, discountPercentage, schedule, siteId, ...(cancelled ? { cancelled } : {}), id: id || generateId('item', poFormMaterialItems.map(item => item.id)) }));
 
     if (editedItemsFromForm.length === 0) {
         alert('A Purchase Order must have at least one material item.');
         return;
     }
+    const charges = validatePOFormAmounts(editedItemsFromForm, formData);
+    if (!charges) return;
+    const deliverySites = validatePOFormSites(editedItemsFromForm, formData);
+    if (!deliverySites) return;
+    if (!applyPOFormSchedules(editedItemsFromForm)) return;
+    if (!confirmPriceListDeviations(editedItemsFromForm, findPartyByName(formData.get('partyName') as string)?.id, getPOFormPriceDate())) return;
 
     // Validation for partially dispatched POs
     if (existingPO.status === 'Partially Dispatched' || existingPO.status === 'Completed') { // Also check completed in case it was over-dispatched
+        const dispatchedByLine = computeDispatchedQuantityByLine(existingPO);
         for (const editedItem of editedItemsFromForm) {
-            const originalItem = existingPO.items.find(i => i.material === editedItem.material);
-            const dispatchedQty = existingPO.dispatchedQuantityByMaterial[editedItem.material] || 0;
+            const originalItem = existingPO.items.find(i => i.id === editedItem.id);
+            const dispatchedQty = dispatchedByLine[editedItem.id] || 0;
 
             if (originalItem && dispatchedQty > 0) {
                 if (editedItem.quantity < dispatchedQty) {
                     alert(`Error for ${editedItem.material}: Ordered quantity (${editedItem.quantity}) cannot be less than already dispatched quantity (${dispatchedQty}).`);
                     return;
                 }
+                if (editedItem.siteId !== originalItem.siteId) {
+                    alert(`Error for ${editedItem.material}: the line has been dispatched, so its delivery site can't change.`);
+                    return;
+                }
             }
         }
         for (const originalItem of existingPO.items) {
-            const dispatchedQty = existingPO.dispatchedQuantityByMaterial[originalItem.material] || 0;
-            if (dispatchedQty > 0 && !editedItemsFromForm.find(ei => ei.material === originalItem.material)) {
+            const dispatchedQty = dispatchedByLine[originalItem.id] || 0;
+            if (dispatchedQty > 0 && !editedItemsFromForm.find(ei => ei.id === originalItem.id)) {
                 alert(`Error: Cannot remove material ${originalItem.material} as it has been dispatched.`);
                 return;
             }
@@ -641,13 +2183,11 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
     }
 
 
-    let totalAmountWithGST = 0;
-    editedItemsFromForm.forEach(item => {
-        const taxable = item.quantity * item.rate;
-        const gst = (taxable * item.gstPercentage) / 100;
-        totalAmountWithGST += taxable + gst;
-    });
-
+    const cashDiscountPercentage = parseFloat(formData.get('cashDiscountPercentage') as string) || 0;
+    const placeOfSupplyStateCode = formData.get('placeOfSupply') as string;
+    // A PO raised before our state was set takes it now; otherwise it keeps the one it was raised with
+    const supplierStateCode = existingPO.supplierStateCode || companyProfile.stateCode;
+    const totals = computePOTotals(editedItemsFromForm, cashDiscountPercentage, charges, isInterStateSupply(placeOfSupplyStateCode, supplierStateCode));
 
     const updatedPO: PurchaseOrder = {
         ...existingPO,
@@ -655,24 +2195,45 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
         partyName: (formData.get('partyName') as string).toUpperCase(),
         gstin: (formData.get('gstin')as string).toUpperCase(),
         salesmanName: (formData.get('salesmanName')as string).toUpperCase(),
-        siteAddress: formData.get('siteAddress') as string,
-        destination: (formData.get('destination') as string).toUpperCase(),
+        ...readPOFormParties(formData),
+        deliverySites,
+        placeOfSupplyStateCode,
+        supplierStateCode,
         items: editedItemsFromForm,
-        totalAmount: totalAmountWithGST,
+        cashDiscountPercentage,
+        charges,
+        roundOff: totals.roundOff,
+        totalAmount: totals.total,
+        updatedAt: new Date().toISOString(),
     };
 
-     updatedPO.items.forEach(item => {
-        if (!PREDEFINED_MATERIALS.includes(item.material)) {
-            PREDEFINED_MATERIALS.push(item.material);
-        }
-    });
+    offerToAddUnknownMaterials(updatedPO.items);
+    offerToAddUnknownParty(updatedPO);
+    updatedPO.partyId = findPartyByName(updatedPO.partyName)?.id;
 
     purchaseOrders[poIndex] = updatedPO;
+    updatedPO.dispatchedQuantityByLine = computeDispatchedQuantityByLine(updatedPO);
     updatePOStatus(poId); // Re-evaluate status after edit, esp. if quantities changed
-    saveData();
-    alert(`Purchase Order ${poId} Updated Successfully!`);
+    // Raising the value of a released order is checked against the credit limit like a new PO
+    let creditHold: string | null = null;
+    if (isPOReleased(updatedPO) && updatedPO.status !== 'Completed' && computeUndispatchedValue(updatedPO) > computeUndispatchedValue(existingPO) + 0.005) {
+        creditHold = checkCreditLimit(updatedPO);
+        if (creditHold) {
+            updatedPO.approvalHistory = [...updatedPO.approvalHistory, { action: 'hold', by: getActingUser(), at: new Date().toISOString(), remark: creditHold }];
+            updatedPO.status = 'Awaiting Approval';
+        }
+    }
+    recordAuditEntry('po', updatedPO, 'update', diffRecordsForAudit(existingPO, updatedPO), creditHold || undefined);
+    if (!(await saveData())) return;
+    queueSyncOperation('po', 'update', updatedPO);
+    alert(creditHold
+        ? `Purchase Order ${poId} was updated and is now awaiting approval.\n\n${creditHold}`
+        : `Purchase Order ${poId} Updated Successfully!`);
     form.reset();
     poFormMaterialItems = [];
+    poFormCharges = [];
+    poFormScheduleText = {};
+    poFormSites = [];
     currentEditingPOId = null;
     _formModeForCreatePage = 'create'; // Reset form mode
     _formDataForCreatePage = undefined;
@@ -691,6 +2252,10 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
         alert(`Cannot edit a PO that is ${po.status}. Use 'Revise' to create a new PO from this one.`);
         return;
     }
+    if (po.status === 'Short Closed') {
+        alert('Cannot edit a PO that has been short closed.');
+        return;
+    }
     closeModal('po-details-modal');
 
     _formModeForCreatePage = 'edit';
@@ -710,6 +2275,10 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
         alert(`PO is not Cancelled. Cannot revise. Current status: ${sourcePO.status}`);
         return;
     }
+    if (sourcePO.revisedInto && purchaseOrders.some(p => p.id === sourcePO.revisedInto)) {
+        alert(`PO ${sourcePO.id} has already been revised into PO ${sourcePO.revisedInto}. Revise the latest version instead.`);
+        return;
+    }
     closeModal('po-details-modal'); // Close if open
 
     // Create a deep copy for the form, reset/modify fields for a new PO
@@ -718,8 +2287,11 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
     // Reset fields that should be new for a revised PO
     // poDataForForm.id will be generated by handleCreatePOSubmit
     // poDataForForm.createdAt will be set by handleCreatePOSubmit
-    poDataForForm.status = 'Pending'; // Initial status for the new PO
-    poDataForForm.dispatchedQuantityByMaterial = {}; // Reset dispatches
+    poDataForForm.status = 'Draft'; // Set properly when the new PO is saved
+    poDataForForm.dispatchedQuantityByLine = {}; // Reset dispatches
+    poDataForForm.approvalHistory = [];
+    delete poDataForForm.revisedFrom; // Links are set on both POs when the revision is saved
+    delete poDataForForm.revisedInto;
 
     _formModeForCreatePage = 'revise';
     _formDataForCreatePage = poDataForForm; // This is the COPIED and MODIFIED data
@@ -730,6 +2302,56 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
 };
 
 
+// Starts a new PO from any existing one, e.g. a repeat order from the same site. Party and
+// tax details always carry over; lines, rates and addresses only if the user wants them.
+(window as any).promptDuplicatePO = (poId: string): void => {
+    const sourcePO = purchaseOrders.find(p => p.id === poId);
+    if (!sourcePO) {
+        alert('PO not found.');
+        return;
+    }
+    const openLines = sourcePO.items.filter(item => !item.cancelled);
+    const copyItems = openLines.length > 0 && confirm(`Duplicate PO ${sourcePO.id} for ${sourcePO.partyName}.\n\nCopy its ${openLines.length} material line(s) and quantities?\n(Cancel starts with an empty line.)`);
+    const keepRates = copyItems && confirm(`Keep the rates from PO ${sourcePO.id}?\n(Cancel uses today's price list or the material's default rate.)`);
+    const copyAddresses = confirm(`Copy the site address and destination from PO ${sourcePO.id}?`);
+    closeModal('po-details-modal');
+
+    const poDataForForm: PurchaseOrder = JSON.parse(JSON.stringify(sourcePO));
+    poDataForForm.status = 'Draft'; // Set properly when the new PO is saved
+    poDataForForm.dispatchedQuantityByLine = {};
+    poDataForForm.approvalHistory = [];
+    poDataForForm.externalPoNumber = undefined; // A repeat order comes with the customer's new PO number
+    delete poDataForForm.revisedFrom;
+    delete poDataForForm.revisedInto;
+    delete poDataForForm.shortClose;
+    const newLineIds: string[] = [];
+    poDataForForm.items = copyItems
+        ? poDataForForm.items.filter(item => !item.cancelled).map(item => {
+            const id = generateId('item', newLineIds);
+            newLineIds.push(id);
+            return {
+                ...item,
+                id,
+                rate: keepRates ? item.rate : (findMaterialByName(item.material)?.defaultRate || 0),
+                schedule: [] // The old delivery dates don't apply to the new order
+            };
+        })
+        : [{ id: generateId('item'), material: '', quantity: 0, unit: DEFAULT_MATERIAL_UNIT, rate: 0, gstPercentage: DEFAULT_GST_RATE, discountPercentage: 0, schedule: [], siteId: sourcePO.deliverySites[0].id }];
+    if (!keepRates) poDataForForm.charges = [];
+    if (!copyAddresses) {
+        poDataForForm.deliverySites = [{ id: FIRST_DELIVERY_SITE_ID, name: '', address: '', destination: '' }];
+        poDataForForm.items.forEach(item => { item.siteId = FIRST_DELIVERY_SITE_ID; });
+    }
+
+    _formModeForCreatePage = 'duplicate';
+    _formDataForCreatePage = poDataForForm;
+    _originalIdForRevisionOnCreatePage = sourcePO.id; // For heading and the audit note
+    currentEditingPOId = null;
+    currentView = 'create-po';
+    renderApp();
+    if (copyItems && !keepRates) applyListPricesToPOForm();
+};
+
 (window as any).promptCancelPO = (poId: string): void => {
     const po = purchaseOrders.find(p => p.id === poId);
     if (!po) {
@@ -740,33 +2362,377 @@ function handleUpdatePOSubmit(poId: string, event: Event): void {
         alert(`PO is already ${po.status} and cannot be cancelled again.`);
         return;
     }
+    if (po.status === 'Short Closed') {
+        alert(`PO ${po.id} has been short closed, so its undispatched balance is already closed and it cannot be cancelled.`);
+        return;
+    }
     // Removed: if (po.status === 'Completed') ... to allow cancelling completed POs
     handleCancelPO(poId);
 };
 
-function handleCancelPO(poId: string): void {
+async function handleCancelPO(poId: string): Promise<void> {
     const poIndex = purchaseOrders.findIndex(p => p.id === poId);
     if (poIndex > -1) {
+        recordAuditEntry('po', purchaseOrders[poIndex], 'cancel', [{ field: 'status', before: purchaseOrders[poIndex].status, after: 'Cancelled' }]);
         purchaseOrders[poIndex].status = 'Cancelled';
-        saveData();
+        purchaseOrders[poIndex].updatedAt = new Date().toISOString();
+        if (!(await saveData())) return;
+        queueSyncOperation('po', 'cancel', purchaseOrders[poIndex]);
         alert(`Purchase Order ${poId} has been cancelled.`);
         closeModal('po-details-modal');
         renderApp();
     }
 }
 
+// Completed, short closed and cancelled POs take no more dispatches.
+function isPOClosed(po: PurchaseOrder): boolean {
+    return po.status === 'Completed' || po.status === 'Short Closed' || po.status === 'Cancelled';
+}
+
+// Quantity written off on the line when the PO was short closed, in the line's unit.
+function getShortClosedQuantity(po: PurchaseOrder, lineId: string): number {
+    return po.shortClose ? po.shortClose.quantityByLine[lineId] || 0 : 0;
+}
+
+(window as any).promptShortClosePO = async (poId: string): Promise<void> => {
+    const po = purchaseOrders.find(p => p.id === poId);
+    if (!po) {
+        alert('PO not found.');
+        return;
+    }
+    if (po.status !== 'Partially Dispatched') {
+        alert(`Only partially dispatched POs can be short closed; cancel a PO that has no dispatches. Current status: ${po.status}`);
+        return;
+    }
+    const dispatchedByLine = computeDispatchedQuantityByLine(po);
+    const quantityByLine: { [lineId: string]: number } = {};
+    po.items.filter(item => !item.cancelled).forEach(item => {
+        quantityByLine[item.id] = Math.max(0, item.quantity - (dispatchedByLine[item.id] || 0));
+    });
+    const pendingLines = po.items
+        .filter(item => quantityByLine[item.id] > 0)
+        .map(item => `${describePOLine(po, item.id, item.material)}: ${quantityByLine[item.id].toFixed(2)} ${item.unit}`);
+    const reason = prompt(`Short close PO ${po.id}? These pending quantities will be written off:\n${pendingLines.join('\n')}\n\nReason for short closing:`, '');
+    if (reason === null) return;
+    if (!reason.trim()) {
+        alert('A reason is required to short close a PO.');
+        return;
+    }
+    const before = JSON.parse(JSON.stringify(po));
+    po.shortClose = { at: new Date().toISOString(), by: getActingUser(), reason: reason.trim(), quantityByLine };
+    po.status = 'Short Closed';
+    po.updatedAt = po.shortClose.at;
+    recordAuditEntry('po', po, 'short-close', diffRecordsForAudit(before, po), reason.trim());
+    if (!(await saveData())) return;
+    queueSyncOperation('po', 'update', po);
+    alert(`Purchase Order ${po.id} has been short closed.`);
+    closeModal('po-details-modal');
+    renderApp();
+};
+
+// Withdraws one line from a live PO. The line stays on the order for the record, but what was
+// still pending on it is written off and it no longer counts towards the PO's status.
+(window as any).promptCancelPOLine = async (poId: string, lineId: string): Promise<void> => {
+    const po = purchaseOrders.find(p => p.id === poId);
+    const item = po?.items.find(i => i.id === lineId);
+    if (!po || !item) {
+        alert('PO line not found.');
+        return;
+    }
+    if (!isPOReleased(po) || isPOClosed(po)) {
+        alert(`Lines can only be cancelled on a released, open PO; edit a draft instead. Current status: ${po.status}`);
+        return;
+    }
+    if (item.cancelled) {
+        alert('This line is already cancelled.');
+        return;
+    }
+    const pendingQty = Math.max(0, item.quantity - (computeDispatchedQuantityByLine(po)[item.id] || 0));
+    if (pendingQty <= 0) {
+        alert('Nothing is pending on this line, so there is nothing to cancel.');
+        return;
+    }
+    if (po.items.every(i => i.id === item.id || i.cancelled)) {
+        alert('This is the only line left on the PO. Cancel or short close the whole PO instead.');
+        return;
+    }
+    const lineLabel = describePOLine(po, item.id, item.material);
+    const reason = prompt(`Cancel ${lineLabel} on PO ${po.id}? ${pendingQty.toFixed(2)} ${item.unit} pending will be written off.\n\nReason for cancelling the line:`, '');
+    if (reason === null) return;
+    if (!reason.trim()) {
+        alert('A reason is required to cancel a line.');
+        return;
+    }
+    const before = JSON.parse(JSON.stringify(po));
+    item.cancelled = { at: new Date().toISOString(), by: getActingUser(), reason: reason.trim(), quantity: pendingQty };
+    po.updatedAt = item.cancelled.at;
+    updatePOStatus(po.id);
+    recordAuditEntry('po', po, 'cancel-line', diffRecordsForAudit(before, po), `${lineLabel}: ${reason.trim()}`);
+    if (!(await saveData())) return;
+    queueSyncOperation('po', 'update', po);
+    alert(`${lineLabel} on PO ${po.id} has been cancelled.`);
+    closeModal('po-details-modal');
+    renderApp();
+    (window as any).showPODetailsModal(po.id);
+};
+
+
+// --- Duplicate PO Check ---
+// The same customer order is sometimes keyed in twice (once from the email, once from the
+// salesman's copy). A new PO is compared with the existing ones before it is saved; a likely
+// duplicate is only saved after the user confirms it is a separate order and says why.
+const DUPLICATE_PO_WINDOW_DAYS = 30;
+
+type DuplicatePOCandidate = Pick<PurchaseOrder, 'partyName' | 'partyId' | 'externalPoNumber' | 'items' | 'deliverySites' | 'totalAmount' | 'createdAt'>;
+
+interface DuplicatePOMatch {
+    po: PurchaseOrder;
+    reasons: string[];
+}
+
+// Open lines as MATERIAL|quantity|unit, sorted so the same items entered in another order still match.
+function getPOItemsSignature(items: MaterialItem[]): string {
+    return items
+        .filter(item => !item.cancelled)
+        .map(item => `${item.material.trim().toUpperCase()}|${item.quantity.toFixed(2)}|${item.unit}`)
+        .sort()
+        .join('#');
+}
+
+export function findLikelyDuplicatePOs(candidate: DuplicatePOCandidate, excludePoId?: string): DuplicatePOMatch[] {
+    const partyName = candidate.partyName.trim().toUpperCase();
+    const externalRef = (candidate.externalPoNumber || '').trim().toUpperCase();
+    const itemsSignature = getPOItemsSignature(candidate.items);
+    const windowStart = new Date(candidate.createdAt).getTime() - DUPLICATE_PO_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const matches: DuplicatePOMatch[] = [];
+    purchaseOrders.forEach(po => {
+        // A cancelled PO takes no dispatches, so entering the order again can't double-ship it
+        if (po.id === excludePoId || po.status === 'Cancelled') return;
+        const sameParty = po.partyName.trim().toUpperCase() === partyName || (!!candidate.partyId && po.partyId === candidate.partyId);
+        if (!sameParty) return;
+        const reasons: string[] = [];
+        if (externalRef && (po.externalPoNumber || '').trim().toUpperCase() === externalRef) {
+            reasons.push(`Same external PO ref (${externalRef})`);
+        }
+        if (new Date(po.createdAt).getTime() >= windowStart && getPOItemsSignature(po.items) === itemsSignature) {
+            reasons.push(`Same items and quantities within ${DUPLICATE_PO_WINDOW_DAYS} days`);
+        }
+        if (reasons.length > 0) matches.push({ po, reasons });
+    });
+    return matches;
+}
+
+function renderDuplicatePOComparisonHTML(candidate: DuplicatePOCandidate, matches: DuplicatePOMatch[]): string {
+    const describeItems = (items: MaterialItem[]): string => items
+        .filter(item => !item.cancelled)
+        .map(item => `${escapeHTML(item.material)}: ${item.quantity.toFixed(2)} ${escapeHTML(item.unit)}`)
+        .join('<br>');
+    const row = (label: string, entry: string, matchCell: (match: DuplicatePOMatch) => string): string =>
+        `<tr><th>${label}</th><td>${entry}</td>${matches.map(match => `<td>${matchCell(match)}</td>`).join('')}</tr>`;
+    return `
+        <h3>Possible Duplicate PO</h3>
+        <p>This order looks like ${matches.length === 1 ? 'a PO that is' : 'POs that are'} already entered. Compare them before saving.</p>
+        <div class="table-responsive-wrapper">
+        <table class="po-details-table duplicate-po-comparison">
+            <thead><tr><th></th><th>This Entry</th>${matches.map(match => `<th>PO ${escapeHTML(match.po.id)}</th>`).join('')}</tr></thead>
+            <tbody>
+                ${row('Matched On', '', match => match.reasons.map(reason => `<span class="duplicate-reason">${escapeHTML(reason)}</span>`).join('<br>'))}
+                ${row('Status', 'New', match => `<span class="badge ${getBadgeClass(match.po.status)}">${escapeHTML(match.po.status)}</span>`)}
+                ${row('Created', 'Now', match => formatToDDMMYY_HHMM(match.po.createdAt))}
+                ${row('Party', escapeHTML(candidate.partyName), match => escapeHTML(match.po.partyName))}
+                ${row('External PO Ref', escapeHTML(candidate.externalPoNumber || 'N/A'), match => escapeHTML(match.po.externalPoNumber || 'N/A'))}
+                ${row('Destination', escapeHTML(candidate.deliverySites.map(site => site.destination).join(', ')), match => escapeHTML(getPODestinations(match.po)))}
+                ${row('Items', describeItems(candidate.items), match => describeItems(match.po.items))}
+                ${row('Grand Total', `₹${candidate.totalAmount.toFixed(2)}`, match => `₹${match.po.totalAmount.toFixed(2)}`)}
+            </tbody>
+        </table>
+        </div>
+        <button type="button" id="create-po-anyway" class="danger">Create Anyway</button>
+        <button type="button" id="dismiss-duplicate-po-warning" class="secondary">Back to Form</button>
+    `;
+}
+
+// Shows the comparison on the create form. "Create Anyway" asks for a reason and submits the
+// form again with the same button, so a draft stays a draft.
+function showDuplicatePOWarning(form: HTMLFormElement, candidate: DuplicatePOCandidate, matches: DuplicatePOMatch[], submitter: HTMLElement | null): void {
+    const container = document.getElementById('duplicate-po-warning');
+    if (!container) return;
+    container.innerHTML = renderDuplicatePOComparisonHTML(candidate, matches);
+    container.style.display = 'block';
+    container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    document.getElementById('dismiss-duplicate-po-warning')?.addEventListener('click', () => {
+        container.innerHTML = '';
+        container.style.display = 'none';
+    });
+    document.getElementById('create-po-anyway')?.addEventListener('click', () => {
+        const matchedIds = matches.map(match => match.po.id);
+        const reason = prompt(`Create this PO even though it may duplicate PO ${matchedIds.join(', ')}?\n\nReason it is a separate order:`, '');
+        if (reason === null) return;
+        if (!reason.trim()) {
+            alert('A reason is required to create a possible duplicate PO.');
+            return;
+        }
+        poFormDuplicateAcknowledgement = { poIds: matchedIds, reason: reason.trim() };
+        form.requestSubmit(submitter instanceof HTMLButtonElement ? submitter : null);
+    });
+}
+
+
+// --- PO Approval ---
+// A PO is released for dispatch once it reaches 'Pending'. Drafts are released by submitting
+// them; a PO is held in 'Awaiting Approval' when the company requires approval for every PO,
+// or when it would take the party past its credit limit.
+function isPOReleased(po: PurchaseOrder): boolean {
+    return po.status !== 'Draft' && po.status !== 'Awaiting Approval';
+}
+
+// Value of the quantities not yet dispatched, at the PO's net rates including GST.
+function computeUndispatchedValue(po: PurchaseOrder): number {
+    const dispatchedByLine = computeDispatchedQuantityByLine(po);
+    const interState = isPOInterState(po);
+    return po.items.filter(item => !item.cancelled).reduce((sum, item) => {
+        const pendingQty = Math.max(0, item.quantity - (dispatchedByLine[item.id] || 0));
+        return sum + computeLineTax(pendingQty, getNetRate(item, po.cashDiscountPercentage), item.gstPercentage, interState).total;
+    }, 0);
+}
+
+// Undispatched value of the party's released, open POs.
+function getPartyOutstandingValue(partyId: string, excludePoId?: string): number {
+    return purchaseOrders
+        .filter(po => po.partyId === partyId && po.id !== excludePoId && isPOReleased(po) && !isPOClosed(po))
+        .reduce((sum, po) => sum + computeUndispatchedValue(po), 0);
+}
+
+// Why the PO would breach its party's credit limit, or null when it is within it.
+export function checkCreditLimit(po: PurchaseOrder): string | null {
+    const party = po.partyId ? parties.find(p => p.id === po.partyId) : undefined;
+    if (!party || !(party.creditLimit > 0)) return null;
+    const outstanding = getPartyOutstandingValue(party.id, po.id);
+    const orderValue = computeUndispatchedValue(po);
+    if (outstanding + orderValue <= party.creditLimit + 0.005) return null;
+    return `Credit limit exceeded: ${party.name} has ₹${outstanding.toFixed(2)} outstanding; this PO adds ₹${orderValue.toFixed(2)} against a limit of ₹${party.creditLimit.toFixed(2)}.`;
+}
+
+// Moves a new or submitted PO to 'Pending', or holds it for approval. Returns the credit hold
+// reason, if that is why it was held. Does not save.
+export function releaseOrHoldPO(po: PurchaseOrder): string | null {
+    const creditHold = checkCreditLimit(po);
+    if (creditHold) po.approvalHistory.push({ action: 'hold', by: getActingUser(), at: new Date().toISOString(), remark: creditHold });
+    po.status = creditHold || companyProfile.requirePOApproval ? 'Awaiting Approval' : 'Pending';
+    return creditHold;
+}
+
+function renderApprovalHistoryHTML(po: PurchaseOrder): string {
+    if (po.approvalHistory.length === 0) return '';
+    const labels: { [action in ApprovalEvent['action']]: string } = { submit: 'Submitted', hold: 'Held', approve: 'Approved', reject: 'Rejected' };
+    return `
+        <h4>Approval History:</h4>
+        <ul class="approval-history">
+            ${po.approvalHistory.map(e => `
+                <li><strong>${labels[e.action]}</strong> ${escapeHTML(formatToDDMMYY_HHMM(e.at))} by ${escapeHTML(e.by)}${e.remark ? `: ${escapeHTML(e.remark)}` : ''}</li>`).join('')}
+        </ul>
+    `;
+}
+
+// Who put the PO up for approval: the last submitter, or whoever created it when it was
+// held straight away on creation. Empty when that was not recorded.
+export function getPOSubmitter(po: PurchaseOrder): string {
+    const submissions = po.approvalHistory.filter(e => e.action === 'submit');
+    if (submissions.length > 0) return submissions[submissions.length - 1].by;
+    return auditLog.find(entry => entry.entity === 'po' && entry.recordId === po.id && entry.action === 'create')?.user || '';
+}
+
+// Resolves to false if the change was not saved (see saveData).
+async function saveApprovalChange(po: PurchaseOrder, before: PurchaseOrder, action: AuditEntry['action'], note: string | undefined): Promise<boolean> {
+    po.updatedAt = new Date().toISOString();
+    recordAuditEntry('po', po, action, diffRecordsForAudit(before, po), note);
+    if (!(await saveData())) return false;
+    queueSyncOperation('po', 'update', po);
+    closeModal('po-details-modal');
+    renderApp();
+    return true;
+}
+
+(window as any).promptSubmitPO = async (poId: string): Promise<void> => {
+    const po = purchaseOrders.find(p => p.id === poId);
+    if (!po || po.status !== 'Draft') {
+        alert('Only draft POs can be submitted.');
+        return;
+    }
+    const before = JSON.parse(JSON.stringify(po));
+    po.approvalHistory.push({ action: 'submit', by: getActingUser(), at: new Date().toISOString(), remark: '' });
+    const creditHold = releaseOrHoldPO(po);
+    if (!(await saveApprovalChange(po, before, 'submit', creditHold || undefined))) return;
+    alert(isPOReleased(po)
+        ? `PO ${po.id} is released for dispatch.`
+        : `PO ${po.id} is awaiting approval.${creditHold ? `\n\n${creditHold}` : ''}`);
+};
+
+(window as any).promptApprovePO = async (poId: string): Promise<void> => {
+    const po = purchaseOrders.find(p => p.id === poId);
+    if (!po || po.status !== 'Awaiting Approval') {
+        alert('Only POs awaiting approval can be approved.');
+        return;
+    }
+    const approver = getActingUser();
+    if (approver === 'UNKNOWN') {
+        alert('Enter your name before approving a PO, so the approval can be checked against who submitted it.');
+        return;
+    }
+    const submitter = getPOSubmitter(po);
+    if (submitter && submitter !== 'UNKNOWN' && submitter === approver) {
+        alert(`PO ${po.id} was submitted by ${submitter}. It must be approved by someone else.`);
+        return;
+    }
+    const creditHold = checkCreditLimit(po);
+    if (creditHold && !confirm(`${creditHold}\n\nApprove PO ${po.id} anyway?`)) return;
+    const remark = prompt(`Approval remark for PO ${po.id} (optional):`, '');
+    if (remark === null) return;
+    const before = JSON.parse(JSON.stringify(po));
+    po.approvalHistory.push({ action: 'approve', by: approver, at: new Date().toISOString(), remark: remark.trim() });
+    po.status = 'Pending';
+    updatePOStatus(po.id);
+    await saveApprovalChange(po, before, 'approve', remark.trim() || undefined);
+};
+
+// A rejected PO goes back to Draft so it can be corrected and submitted again, or cancelled.
+(window as any).promptRejectPO = async (poId: string): Promise<void> => {
+    const po = purchaseOrders.find(p => p.id === poId);
+    if (!po || po.status !== 'Awaiting Approval') {
+        alert('Only POs awaiting approval can be rejected.');
+        return;
+    }
+    const remark = prompt(`Reason for rejecting PO ${po.id}:`, '');
+    if (remark === null) return;
+    if (!remark.trim()) {
+        alert('A reason is required to reject a PO.');
+        return;
+    }
+    const before = JSON.parse(JSON.stringify(po));
+    po.approvalHistory.push({ action: 'reject', by: getActingUser(), at: new Date().toISOString(), remark: remark.trim() });
+    po.status = 'Draft';
+    await saveApprovalChange(po, before, 'reject', remark.trim());
+};
 
 // --- Purchase Order Listing ---
-function renderPOList(type: 'all' | 'pending'): void {
+function renderPOList(type: 'all' | 'pending' | 'approvals'): void {
     let title = '';
     let posToList: PurchaseOrder[] = [];
 
     if (type === 'all') {
         title = 'All Purchase Orders';
         posToList = purchaseOrders;
-    } else { // 'pending'
+    } else if (type === 'pending') {
         title = 'Pending Orders (Awaiting Initial Dispatch)';
-        posToList = purchaseOrders.filter(po => po.status === 'Pending');
+        // Most urgent first: by the next scheduled delivery, unscheduled orders last
+        posToList = purchaseOrders
+            .filter(po => po.status === 'Pending')
+            .map(po => ({ po, due: getNextDueDate(po) || '9999-12-31' }))
+            .sort((a, b) => a.due.localeCompare(b.due))
+            .map(({ po }) => po);
+    } else { // 'approvals'
+        title = 'Drafts and POs Awaiting Approval';
+        posToList = purchaseOrders.filter(po => !isPOReleased(po) && po.status !== 'Cancelled');
     }
 
 
@@ -775,8 +2741,10 @@ function renderPOList(type: 'all' | 'pending'): void {
     if (posToList.length === 0) {
         if (type === 'all') {
              content += `<p>No purchase orders found. <button type="button" class="primary" id="go-create-po">Create one now?</button></p>`;
-        } else { // 'pending'
+        } else if (type === 'pending') {
              content += `<p>No orders awaiting initial dispatch. Check "All POs" for partially dispatched or completed orders.</p>`;
+        } else {
+             content += `<p>No drafts or POs awaiting approval.</p>`;
         }
     } else {
         content += `
@@ -790,6 +2758,7 @@ function renderPOList(type: 'all' | 'pending'): void {
                         <th>Party Name</th>
                         <th>Destination</th>
                         <th>Total (₹, incl. GST)</th>
+                        <th>Next Due</th>
                         <th>Status</th>
                         <th class="text-right">Actions</th>
                     </tr>
@@ -797,19 +2766,25 @@ function renderPOList(type: 'all' | 'pending'): void {
                 <tbody>
                     ${posToList.map(po => `
                         <tr>
-                            <td>${escapeHTML(po.id)}</td>
+                            <td>${escapeHTML(po.id)}${po.revisedFrom || po.revisedInto ? ` <span class="revision-tag" title="Revision ${getRevisionNumber(po)} of this order">Rev ${getRevisionNumber(po)}</span>` : ''}</td>
                             <td>${escapeHTML(po.externalPoNumber || 'N/A')}</td>
                             <td>${escapeHTML(formatToDDMMYY_HHMM(po.createdAt))}</td>
                             <td>${escapeHTML(po.partyName)}</td>
-                            <td>${escapeHTML(po.destination)}</td>
+                            <td>${escapeHTML(getPODestinations(po))}</td>
                             <td class="text-right">${po.totalAmount.toFixed(2)}</td>
-                            <td><span class="badge ${getBadgeClass(po.status)}">${escapeHTML(po.status)}</span></td>
+                            <td>${escapeHTML(formatToDDMMYY(getNextDueDate(po)))}</td>
+                            <td><span class="badge ${getBadgeClass(po.status)}">${escapeHTML(po.status)}</span>${isPOOverdue(po) ? ' <span class="badge badge-overdue" title="A scheduled delivery is past its date">Overdue</span>' : ''}</td>
                             <td class="actions-column text-right">
                                 <button class="info" onclick="window.showPODetailsModal('${escapeHTML(po.id)}')" aria-label="View details for PO ${escapeHTML(po.id)}">Details</button>
-                                ${(po.status !== 'Completed' && po.status !== 'Cancelled') ? `<button class="primary" onclick="window.showAddDispatchModal('${escapeHTML(po.id)}')" aria-label="Add dispatch for PO ${escapeHTML(po.id)}">Dispatch</button>` : ''}
-                                ${(po.status !== 'Cancelled') ? `<button class="secondary" onclick="window.promptEditPO('${escapeHTML(po.id)}')" aria-label="Edit PO ${escapeHTML(po.id)}">Edit</button>` : ''}
+                                ${po.status === 'Draft' ? `<button class="primary" onclick="window.promptSubmitPO('${escapeHTML(po.id)}')" aria-label="Submit PO ${escapeHTML(po.id)}">Submit</button>` : ''}
+                                ${po.status === 'Awaiting Approval' ? `<button class="primary" onclick="window.promptApprovePO('${escapeHTML(po.id)}')" aria-label="Approve PO ${escapeHTML(po.id)}">Approve</button>
+                                <button class="danger" onclick="window.promptRejectPO('${escapeHTML(po.id)}')" aria-label="Reject PO ${escapeHTML(po.id)}">Reject</button>` : ''}
+                                ${(isPOReleased(po) && !isPOClosed(po)) ? `<button class="primary" onclick="window.showAddDispatchModal('${escapeHTML(po.id)}')" aria-label="Add dispatch for PO ${escapeHTML(po.id)}">Dispatch</button>` : ''}
+                                ${(po.status !== 'Cancelled' && po.status !== 'Short Closed') ? `<button class="secondary" onclick="window.promptEditPO('${escapeHTML(po.id)}')" aria-label="Edit PO ${escapeHTML(po.id)}">Edit</button>` : ''}
                                 ${(po.status === 'Cancelled') ? `<button class="info" onclick="window.promptRevisePO('${escapeHTML(po.id)}')" aria-label="Revise PO ${escapeHTML(po.id)}">Revise</button>` : ''}
-                                ${(po.status !== 'Cancelled') ? `<button class="danger" onclick="window.promptCancelPO('${escapeHTML(po.id)}')" aria-label="Cancel PO ${escapeHTML(po.id)}">Cancel</button>` : ''}
+                                <button class="secondary" onclick="window.promptDuplicatePO('${escapeHTML(po.id)}')" aria-label="Duplicate PO ${escapeHTML(po.id)}">Duplicate</button>
+                                ${po.status === 'Partially Dispatched' ? `<button class="secondary" onclick="window.promptShortClosePO('${escapeHTML(po.id)}')" aria-label="Short close PO ${escapeHTML(po.id)}">Short Close</button>` : ''}
+                                ${(po.status !== 'Cancelled' && po.status !== 'Short Closed') ? `<button class="danger" onclick="window.promptCancelPO('${escapeHTML(po.id)}')" aria-label="Cancel PO ${escapeHTML(po.id)}">Cancel</button>` : ''}
                             </td>
                         </tr>
                     `).join('')}
@@ -819,7 +2794,7 @@ function renderPOList(type: 'all' | 'pending'): void {
         `;
     }
     content += `</div>`;
-    content += getPODetailsModalHTML() + getAddDispatchModalHTML() + getEditDispatchModalHTML();
+    content += getPODetailsModalHTML() + getAddDispatchModalHTML() + getEditDispatchModalHTML() + getPrintDispatchModalHTML();
     mainContent.innerHTML = content;
 
     document.getElementById('go-create-po')?.addEventListener('click', () => {
@@ -832,11 +2807,61 @@ function renderPOList(type: 'all' | 'pending'): void {
     });
 }
 
+// All versions of an order, oldest first: the original, then each revision made after cancelling.
+export function getRevisionChain(po: PurchaseOrder): PurchaseOrder[] {
+    const seen = new Set<string>([po.id]);
+    let first = po;
+    while (first.revisedFrom) {
+        const previous = purchaseOrders.find(p => p.id === first.revisedFrom);
+        if (!previous || seen.has(previous.id)) break;
+        seen.add(previous.id);
+        first = previous;
+    }
+    const chain = [first];
+    seen.clear();
+    seen.add(first.id);
+    let last = first;
+    while (last.revisedInto) {
+        const next = purchaseOrders.find(p => p.id === last.revisedInto);
+        if (!next || seen.has(next.id)) break;
+        seen.add(next.id);
+        chain.push(next);
+        last = next;
+    }
+    return chain;
+}
+
+// 0 for the original order, 1 for its first revision, and so on.
+export function getRevisionNumber(po: PurchaseOrder): number {
+    return getRevisionChain(po).findIndex(p => p.id === po.id);
+}
+
+function renderRevisionChainHTML(po: PurchaseOrder): string {
+    const chain = getRevisionChain(po);
+    if (chain.length < 2) return '';
+    return `
+        <h4>Revision History:</h4>
+        <ol class="revision-chain">
+            ${chain.map((version, index) => `
+                <li class="${version.id === po.id ? 'current' : ''}">
+                    ${version.id === po.id
+                        ? `<strong>PO ${escapeHTML(version.id)}</strong>`
+                        : `<a href="#" onclick="window.showPODetailsModal('${escapeHTML(version.id)}'); return false;" aria-label="View details for PO ${escapeHTML(version.id)}">PO ${escapeHTML(version.id)}</a>`}
+                    <span>Rev ${index} &middot; ${escapeHTML(formatToDDMMYY_HHMM(version.createdAt))}</span>
+                    <span class="badge ${getBadgeClass(version.status)}">${escapeHTML(version.status)}</span>
+                </li>`).join('')}
+        </ol>
+    `;
+}
+
 function getBadgeClass(status: PurchaseOrder['status']): string {
     switch (status) {
+        case 'Draft': return 'badge-draft';
+        case 'Awaiting Approval': return 'badge-awaiting';
         case 'Pending': return 'badge-pending';
         case 'Partially Dispatched': return 'badge-partial';
         case 'Completed': return 'badge-completed';
+        case 'Short Closed': return 'badge-short-closed';
         case 'Cancelled': return 'badge-cancelled';
         default: return '';
     }
@@ -854,17 +2879,33 @@ function closeModal(modalId: string): void {
         } else if (modalId === 'add-dispatch-modal') {
             const formContainerEl = document.getElementById('add-dispatch-form-container');
             if(formContainerEl) formContainerEl.innerHTML = '';
-             currentEditingDispatchId = null;
         } else if (modalId === 'edit-dispatch-modal') {
             const formContainerEl = document.getElementById('edit-dispatch-form-container');
             if(formContainerEl) formContainerEl.innerHTML = '';
-            currentEditingDispatchId = null;
+        } else if (modalId === 'print-dispatch-modal') {
+            const formContainerEl = document.getElementById('print-dispatch-form-container');
+            if(formContainerEl) formContainerEl.innerHTML = '';
         }
     }
 }
 (window as any).closeModal = closeModal;
 
 
+// Switches between the .modal-tab buttons and their matching .modal-tab-pane sections.
+function attachModalTabListeners(container: HTMLElement): void {
+    container.querySelectorAll<HTMLButtonElement>('.modal-tab').forEach(tab => {
+        tab.addEventListener('click', () => {
+            container.querySelectorAll<HTMLButtonElement>('.modal-tab').forEach(t => {
+                t.classList.toggle('active', t === tab);
+                t.setAttribute('aria-selected', String(t === tab));
+            });
+            container.querySelectorAll<HTMLElement>('.modal-tab-pane').forEach(pane => {
+                pane.style.display = pane.dataset.tabPane === tab.dataset.tab ? '' : 'none';
+            });
+        });
+    });
+}
+
 // --- PO Details Modal ---
 function getPODetailsModalHTML(): string {
     return `
@@ -901,13 +2942,17 @@ function getPODetailsModalHTML(): string {
                 <thead><tr><th>Dispatch ID</th><th>Date</th><th>Vehicle</th><th>Items</th><th>Actions</th></tr></thead>
                 <tbody>
                 ${relatedDispatches.map(d => `
-                    <tr>
-                        <td>${escapeHTML(d.id)}</td>
+                    <tr class="${d.voided ? 'voided-row' : ''}">
+                        <td>${escapeHTML(d.id)}${d.voided ? ` <span class="badge badge-cancelled">Voided</span>` : ''}${describePOSite(po, d.siteId) ? `<br><small class="site-tag">${escapeHTML(describePOSite(po, d.siteId))}</small>` : ''}</td>
                         <td>${escapeHTML(formatToDDMMYY(d.dispatchedAt))}</td>
                         <td>${escapeHTML(d.vehicleNumber)}</td>
-                        <td><ul>${d.dispatchedItems.map(i => `<li>${escapeHTML(i.material)}: ${i.quantity.toFixed(2)}</li>`).join('')}</ul></td>
+                        <td><ul>${d.dispatchedItems.map(i => `<li>${escapeHTML(describePOLine(po, i.lineId, i.material))}: ${i.quantity.toFixed(2)} ${escapeHTML(i.unit)}</li>`).join('')}</ul>
+                            ${d.voided ? `<small>Voided ${escapeHTML(formatToDDMMYY_HHMM(d.voided.at))} by ${escapeHTML(d.voided.by)}: ${escapeHTML(d.voided.reason)}</small>` : ''}
+                            ${d.overDispatchOverride ? `<small class="override-note">${escapeHTML(describeOverDispatchOverride(d.overDispatchOverride))} (entered by ${escapeHTML(d.overDispatchOverride.enteredBy)})</small>` : ''}</td>
                         <td>
-                            ${po.status !== 'Cancelled' ? `<button class="info small" onclick="window.showEditDispatchModal('${escapeHTML(d.id)}')" aria-label="Edit dispatch ${escapeHTML(d.id)}">Edit</button>` : 'N/A'}
+                            ${!d.voided ? `<button class="secondary small" onclick="window.showPrintDispatchModal('${escapeHTML(d.id)}')" aria-label="Print dispatch ${escapeHTML(d.id)}">Print</button>` : ''}
+                            ${po.status !== 'Cancelled' && po.status !== 'Short Closed' && !d.voided ? `<button class="info small" onclick="window.showEditDispatchModal('${escapeHTML(d.id)}')" aria-label="Edit dispatch ${escapeHTML(d.id)}">Edit</button>
+                            <button class="danger small" onclick="window.promptVoidDispatch('${escapeHTML(d.id)}')" aria-label="Void dispatch ${escapeHTML(d.id)}">Void</button>` : d.voided ? 'N/A' : ''}
                         </td>
                     </tr>
                 `).join('')}
@@ -918,17 +2963,41 @@ function getPODetailsModalHTML(): string {
         dispatchesHtml += '<p>No dispatches recorded for this PO yet.</p>';
     }
 
+    const timelineCount = auditLog.filter(entry => entry.poId === po.id).length;
+    const dispatchedByLine = computeDispatchedQuantityByLine(po);
+    const interState = isPOInterState(po);
+    const totals = computeStoredPOTotals(po);
+    const canCancelLines = isPOReleased(po) && !isPOClosed(po);
     contentEl.innerHTML = `
+        <div class="modal-tabs" role="tablist">
+            <button type="button" class="modal-tab active" role="tab" data-tab="details" aria-selected="true">Details</button>
+            <button type="button" class="modal-tab" role="tab" data-tab="timeline" aria-selected="false">Timeline (${timelineCount})</button>
+        </div>
+        <div class="modal-tab-pane" data-tab-pane="timeline" role="tabpanel" style="display: none;">
+            ${renderPOTimelineHTML(po.id)}
+        </div>
+        <div class="modal-tab-pane" data-tab-pane="details" role="tabpanel">
         <p><strong>System PO ID:</strong> ${escapeHTML(po.id)}</p>
         ${po.externalPoNumber ? `<p><strong>External PO Ref:</strong> ${escapeHTML(po.externalPoNumber)}</p>` : ''}
-        <p><strong>Party Name:</strong> ${escapeHTML(po.partyName)}</p>
+        <p><strong>Bill-to Party:</strong> ${escapeHTML(po.partyName)}</p>
         <p><strong>GSTIN:</strong> ${escapeHTML(po.gstin || 'N/A')}</p>
+        ${po.billToAddress ? `<p><strong>Bill-to Address:</strong> ${escapeHTML(po.billToAddress)}</p>` : ''}
+        ${po.shipToPartyName !== po.partyName || po.shipToGstin !== po.gstin ? `<p><strong>Ship-to Party:</strong> ${escapeHTML(po.shipToPartyName)} (GSTIN: ${escapeHTML(po.shipToGstin || 'N/A')})</p>` : ''}
         <p><strong>Salesman:</strong> ${escapeHTML(po.salesmanName || 'N/A')}</p>
-        <p><strong>Site Address:</strong> ${escapeHTML(po.siteAddress)}</p>
-        <p><strong>Destination:</strong> ${escapeHTML(po.destination)}</p>
+        ${po.deliverySites.length === 1 ? `
+        <p><strong>Site Address:</strong> ${escapeHTML(po.deliverySites[0].address)}</p>
+        <p><strong>Destination:</strong> ${escapeHTML(po.deliverySites[0].destination)}</p>` : `
+        <p><strong>Delivery Sites:</strong></p>
+        <ul class="delivery-site-list">
+            ${po.deliverySites.map((site, index) => `<li><strong>${escapeHTML(describeDeliverySite(site, index))}</strong>: ${escapeHTML(site.address)} (${escapeHTML(site.destination)})</li>`).join('')}
+        </ul>`}
+        <p><strong>Place of Supply:</strong> ${escapeHTML(describeStateCode(po.placeOfSupplyStateCode))} (${interState ? 'Inter-state, IGST' : 'Intra-state, CGST + SGST'})</p>
         <p><strong>Created At:</strong> ${escapeHTML(formatToDDMMYY_HHMM(po.createdAt))}</p>
-        <p><strong>Status:</strong> <span class="badge ${getBadgeClass(po.status)}">${escapeHTML(po.status)}</span></p>
+        <p><strong>Status:</strong> <span class="badge ${getBadgeClass(po.status)}">${escapeHTML(po.status)}</span>${isPOOverdue(po) ? ' <span class="badge badge-overdue">Overdue</span>' : ''}</p>
+        ${po.shortClose ? `<p><strong>Short Closed:</strong> ${escapeHTML(formatToDDMMYY_HHMM(po.shortClose.at))} by ${escapeHTML(po.shortClose.by)}: ${escapeHTML(po.shortClose.reason)}</p>` : ''}
         <p><strong>Grand Total (incl. GST):</strong> ₹${po.totalAmount.toFixed(2)}</p>
+        ${renderRevisionChainHTML(po)}
+        ${renderApprovalHistoryHTML(po)}
         <h4>Material Items:</h4>
         <div class="table-responsive-wrapper">
         <table class="po-details-table">
@@ -936,44 +3005,109 @@ function getPODetailsModalHTML(): string {
                 <tr>
                     <th>Material</th>
                     <th>Qty Ordered</th>
-                    <th>Rate (₹)</th>
+                    <th>Rate (₹/unit)</th>
+                    <th>Disc %</th>
                     <th>Taxable (₹)</th>
                     <th>GST %</th>
-                    <th>GST Amt (₹)</th>
+                    ${interState ? '<th>IGST (₹)</th>' : '<th>CGST (₹)</th><th>SGST (₹)</th>'}
                     <th>Line Total (₹)</th>
                     <th>Dispatched Qty</th>
+                    ${po.shortClose ? '<th>Short Closed Qty</th>' : ''}
                     <th>Pending Qty</th>
+                    ${canCancelLines ? '<th></th>' : ''}
                 </tr>
             </thead>
             <tbody>
                 ${po.items.map(item => {
-                    const taxableAmount = item.quantity * item.rate;
-                    const gstAmount = (taxableAmount * item.gstPercentage) / 100;
-                    const lineTotal = taxableAmount + gstAmount;
-                    const dispatchedQty = po.dispatchedQuantityByMaterial[item.material.toUpperCase()] || 0;
-                    const pendingQty = item.quantity - dispatchedQty;
+                    const tax = computeLineTax(item.quantity, getNetRate(item, po.cashDiscountPercentage), item.gstPercentage, interState);
+                    const dispatchedQty = dispatchedByLine[item.id] || 0;
+                    const shortClosedQty = getShortClosedQuantity(po, item.id);
+                    const pendingQty = item.quantity - dispatchedQty - shortClosedQty - (item.cancelled ? item.cancelled.quantity : 0);
                     return `
-                    <tr>
-                        <td>${escapeHTML(item.material)}</td>
-                        <td class="text-right">${item.quantity.toFixed(2)}</td>
+                    <tr class="${item.cancelled ? 'line-cancelled' : ''}">
+                        <td>${escapeHTML(item.material)}${describePOSite(po, item.siteId) ? ` <small class="site-tag">${escapeHTML(describePOSite(po, item.siteId))}</small>` : ''}${item.cancelled ? ` <span class="badge badge-cancelled">Line Cancelled</span>
+                            <small class="line-cancel-note">${escapeHTML(formatToDDMMYY_HHMM(item.cancelled.at))} by ${escapeHTML(item.cancelled.by)}: ${escapeHTML(item.cancelled.reason)} (${item.cancelled.quantity.toFixed(2)} ${escapeHTML(item.unit)} written off)</small>` : ''}${renderLineScheduleHTML(po, item)}</td>
+                        <td class="text-right">${item.quantity.toFixed(2)} ${escapeHTML(item.unit)}</td>
                         <td class="text-right">${item.rate.toFixed(2)}</td>
-                        <td class="text-right">${taxableAmount.toFixed(2)}</td>
+                        <td class="text-right">${item.discountPercentage ? `${item.discountPercentage}%` : '-'}</td>
+                        <td class="text-right">${tax.taxable.toFixed(2)}</td>
                         <td class="text-right">${item.gstPercentage}%</td>
-                        <td class="text-right">${gstAmount.toFixed(2)}</td>
-                        <td class="text-right">${lineTotal.toFixed(2)}</td>
-                        <td class="text-right">${dispatchedQty.toFixed(2)}</td>
-                        <td class="text-right ${pendingQty < 0 ? 'text-danger' : ''}">${pendingQty.toFixed(2)}${pendingQty < 0 ? ' (Over)' : ''}</td>
+                        ${interState
+                            ? `<td class="text-right">${tax.igst.toFixed(2)}</td>`
+                            : `<td class="text-right">${tax.cgst.toFixed(2)}</td><td class="text-right">${tax.sgst.toFixed(2)}</td>`}
+                        <td class="text-right">${tax.total.toFixed(2)}</td>
+                        <td class="text-right">${dispatchedQty.toFixed(2)} ${escapeHTML(item.unit)}</td>
+                        ${po.shortClose ? `<td class="text-right">${shortClosedQty.toFixed(2)} ${escapeHTML(item.unit)}</td>` : ''}
+                        <td class="text-right ${pendingQty < 0 ? 'text-danger' : ''}">${pendingQty.toFixed(2)} ${escapeHTML(item.unit)}${pendingQty < 0 ? ' (Over)' : ''}</td>
+                        ${canCancelLines ? `<td>${!item.cancelled && pendingQty > 0 ? `<button class="danger small" onclick="window.promptCancelPOLine('${escapeHTML(po.id)}', '${escapeHTML(item.id)}')" aria-label="Cancel line ${escapeHTML(item.material)}">Cancel Line</button>` : ''}</td>` : ''}
                     </tr>
                 `}).join('')}
             </tbody>
         </table>
         </div>
+        ${renderSiteWisePendingHTML(po, dispatchedByLine)}
+        ${po.charges.length > 0 ? `
+        <h4>Charges:</h4>
+        <div class="table-responsive-wrapper">
+        <table class="po-details-table">
+            <thead>
+                <tr><th>Charge</th><th>Amount (₹)</th><th>GST %</th><th>GST (₹)</th><th>Total (₹)</th></tr>
+            </thead>
+            <tbody>
+                ${po.charges.map(charge => {
+                    const tax = computeLineTax(1, charge.amount, charge.gstPercentage, interState);
+                    return `
+                    <tr>
+                        <td>${escapeHTML(charge.label)}</td>
+                        <td class="text-right">${charge.amount.toFixed(2)}</td>
+                        <td class="text-right">${charge.gstPercentage}%</td>
+                        <td class="text-right">${escapeHTML(describeLineTax(tax, charge.gstPercentage, interState))}</td>
+                        <td class="text-right">${tax.total.toFixed(2)}</td>
+                    </tr>`;
+                }).join('')}
+            </tbody>
+        </table>
+        </div>` : ''}
+        <div class="po-totals-summary">
+            <p>Gross Amount: ₹${totals.grossAmount.toFixed(2)}</p>
+            ${totals.lineDiscount > 0 ? `<p>Less Trade Discount: ₹${totals.lineDiscount.toFixed(2)}</p>` : ''}
+            ${totals.cashDiscount > 0 ? `<p>Less Cash Discount (${po.cashDiscountPercentage}%): ₹${totals.cashDiscount.toFixed(2)}</p>` : ''}
+            ${totals.chargesAmount > 0 ? `<p>Add Charges: ₹${totals.chargesAmount.toFixed(2)}</p>` : ''}
+            <p>Taxable Value: ₹${totals.taxable.toFixed(2)}</p>
+            <p>${interState ? `IGST: ₹${totals.igst.toFixed(2)}` : `CGST: ₹${totals.cgst.toFixed(2)} | SGST: ₹${totals.sgst.toFixed(2)}`}</p>
+            <p>Round Off: ₹${po.roundOff.toFixed(2)}</p>
+            <p><strong>Grand Total: ₹${po.totalAmount.toFixed(2)}</strong></p>
+        </div>
         <hr style="margin: 20px 0;">
         ${dispatchesHtml}
+        </div>
     `;
+    attachModalTabListeners(contentEl);
 
     footerEl.innerHTML = ''; // Clear previous buttons
-    if (po.status !== 'Completed' && po.status !== 'Cancelled') {
+    if (po.status === 'Draft') {
+        const submitButton = document.createElement('button');
+        submitButton.className = 'primary';
+        submitButton.textContent = 'Submit PO';
+        submitButton.setAttribute('aria-label', `Submit PO ${po.id}`);
+        submitButton.onclick = () => (window as any).promptSubmitPO(po.id);
+        footerEl.appendChild(submitButton);
+    }
+    if (po.status === 'Awaiting Approval') {
+        const approveButton = document.createElement('button');
+        approveButton.className = 'primary';
+        approveButton.textContent = 'Approve';
+        approveButton.setAttribute('aria-label', `Approve PO ${po.id}`);
+        approveButton.onclick = () => (window as any).promptApprovePO(po.id);
+        footerEl.appendChild(approveButton);
+        const rejectButton = document.createElement('button');
+        rejectButton.className = 'danger';
+        rejectButton.textContent = 'Reject';
+        rejectButton.setAttribute('aria-label', `Reject PO ${po.id}`);
+        rejectButton.onclick = () => (window as any).promptRejectPO(po.id);
+        footerEl.appendChild(rejectButton);
+    }
+    if (isPOReleased(po) && !isPOClosed(po)) {
         const dispatchButton = document.createElement('button');
         dispatchButton.className = 'primary';
         dispatchButton.textContent = 'Add Dispatch';
@@ -981,7 +3115,7 @@ function getPODetailsModalHTML(): string {
         dispatchButton.onclick = () => (window as any).showAddDispatchModal(po.id);
         footerEl.appendChild(dispatchButton);
     }
-     if (po.status !== 'Cancelled') {
+    if (po.status !== 'Cancelled' && po.status !== 'Short Closed') {
         const editButton = document.createElement('button');
         editButton.className = 'secondary';
         editButton.textContent = 'Edit PO';
@@ -990,6 +3124,22 @@ function getPODetailsModalHTML(): string {
         footerEl.appendChild(editButton);
     }
 
+    const duplicateButton = document.createElement('button');
+    duplicateButton.className = 'secondary';
+    duplicateButton.textContent = 'Duplicate PO';
+    duplicateButton.setAttribute('aria-label', `Duplicate PO ${po.id}`);
+    duplicateButton.onclick = () => (window as any).promptDuplicatePO(po.id);
+    footerEl.appendChild(duplicateButton);
+
+    if (po.status === 'Partially Dispatched') {
+        const shortCloseButton = document.createElement('button');
+        shortCloseButton.className = 'secondary';
+        shortCloseButton.textContent = 'Short Close';
+        shortCloseButton.setAttribute('aria-label', `Short close PO ${po.id}`);
+        shortCloseButton.onclick = () => (window as any).promptShortClosePO(po.id);
+        footerEl.appendChild(shortCloseButton);
+    }
+
     if (po.status === 'Cancelled') {
         const reviseButton = document.createElement('button');
         reviseButton.className = 'info';
@@ -997,7 +3147,7 @@ function getPODetailsModalHTML(): string {
         reviseButton.setAttribute('aria-label', `Revise PO ${po.id}`);
         reviseButton.onclick = () => (window as any).promptRevisePO(po.id);
         footerEl.appendChild(reviseButton);
-    } else { // Only show Cancel PO if not already Cancelled
+    } else if (po.status !== 'Short Closed') { // A short-closed PO is already closed
         const cancelButton = document.createElement('button');
         cancelButton.className = 'danger';
         cancelButton.textContent = 'Cancel PO';
@@ -1028,16 +3178,30 @@ function getAddDispatchModalHTML(): string {
     `;
 }
 
+// Units a PO line can be dispatched in; quantities are converted to the line's unit on save.
+function renderDispatchUnitSelectHTML(poItem: MaterialItem, selectedUnit: string): string {
+    const units = getConvertibleUnits(poItem.material, poItem.unit);
+    if (!units.includes(selectedUnit)) units.unshift(selectedUnit);
+    return `
+        <select class="dispatch-unit" name="dispatch_unit_${escapeHTML(poItem.id)}" aria-label="Dispatch unit for ${escapeHTML(poItem.material)}">
+            ${units.map(unit => `<option value="${escapeHTML(unit)}" ${unit === selectedUnit ? 'selected' : ''}>${escapeHTML(unit)}</option>`).join('')}
+        </select>`;
+}
+
 (window as any).showAddDispatchModal = (poId: string): void => {
     const po = purchaseOrders.find(p => p.id === poId);
     if (!po) {
         alert('Error: Purchase Order not found.');
         return;
     }
-    if (po.status === 'Completed' || po.status === 'Cancelled') {
+    if (isPOClosed(po)) {
          alert(`Cannot add dispatch to a PO that is ${po.status}.`);
         return;
     }
+    if (!isPOReleased(po)) {
+        alert(`Cannot add dispatch: PO ${po.id} is ${po.status} and has not been approved for dispatch.`);
+        return;
+    }
 
 
     const modal = document.getElementById('add-dispatch-modal')!;
@@ -1045,24 +3209,32 @@ function getAddDispatchModalHTML(): string {
     (document.getElementById('add-dispatch-modal-title')!).textContent = `Add Dispatch for PO: ${escapeHTML(po.id)}`;
 
     let itemsHtml = '';
+    const dispatchedByLine = computeDispatchedQuantityByLine(po);
     po.items.forEach(item => {
-        const materialKey = item.material.toUpperCase();
-        const totalDispatchedForMaterial = po.dispatchedQuantityByMaterial[materialKey] || 0;
+        const totalDispatchedForLine = dispatchedByLine[item.id] || 0;
         const orderedQty = item.quantity;
-        // const remainingOnPO = orderedQty - totalDispatchedForMaterial; // Can be negative if over-dispatched
+        const lineLabel = describePOLine(po, item.id, item.material);
+        if (item.cancelled) {
+            itemsHtml += `<p class="field-hint" data-site-id="${escapeHTML(item.siteId)}">${escapeHTML(lineLabel)}: line cancelled, nothing more is dispatched against it.</p>`;
+            return;
+        }
 
-        // Show all items from PO, regardless if fully dispatched or over-dispatched, user can still add more.
+        // Show all lines from PO, regardless if fully dispatched or over-dispatched, user can still add more.
+        // Only the chosen site's lines are shown at a time
         itemsHtml += `
-            <div class="form-group material-dispatch-item">
-                <label for="dispatch-qty-${materialKey.replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-]/g, '')}">
-                    ${escapeHTML(item.material)}
-                    (Ordered: ${orderedQty.toFixed(2)}, Total Dispatched: ${totalDispatchedForMaterial.toFixed(2)})
+            <div class="form-group material-dispatch-item" data-site-id="${escapeHTML(item.siteId)}">
+                <label for="dispatch-qty-${escapeHTML(item.id)}">
+                    ${escapeHTML(lineLabel)}
+                    (Ordered: ${orderedQty.toFixed(2)} ${escapeHTML(item.unit)}, Total Dispatched: ${totalDispatchedForLine.toFixed(2)} ${escapeHTML(item.unit)})
                 </label>
-                <input type="number" id="dispatch-qty-${materialKey.replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-]/g, '')}"
-                       name="dispatch_qty_${escapeHTML(materialKey)}"
-                       min="0" step="0.01" value="0" required
-                       aria-label="Dispatch quantity for ${escapeHTML(item.material)}">
-                <input type="hidden" name="material_name" value="${escapeHTML(materialKey)}">
+                <div class="quantity-with-unit">
+                    <input type="number" id="dispatch-qty-${escapeHTML(item.id)}"
+                           name="dispatch_qty_${escapeHTML(item.id)}"
+                           min="0" step="0.01" value="0" required
+                           aria-label="Dispatch quantity for ${escapeHTML(lineLabel)}">
+                    ${renderDispatchUnitSelectHTML(item, item.unit)}
+                </div>
+                <input type="hidden" name="line_id" value="${escapeHTML(item.id)}">
             </div>
         `;
     });
@@ -1071,12 +3243,19 @@ function getAddDispatchModalHTML(): string {
         itemsHtml = '<p>No materials listed in this PO to dispatch against.</p>';
     }
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayDateOnly();
 
     formContainer.innerHTML = `
         <form id="add-dispatch-form" data-poid="${escapeHTML(poId)}">
             <p><strong>Party:</strong> ${escapeHTML(po.partyName)}</p>
-            <p><strong>Destination:</strong> ${escapeHTML(po.destination)}</p>
+            ${po.deliverySites.length > 1 ? `
+            <div class="form-group">
+                <label for="dispatchSite">Delivery Site:</label>
+                <select id="dispatchSite" name="siteId" required>
+                    ${po.deliverySites.map((site, index) => `<option value="${escapeHTML(site.id)}">${escapeHTML(describeDeliverySite(site, index))}</option>`).join('')}
+                </select>
+            </div>` : `<input type="hidden" name="siteId" value="${escapeHTML(po.deliverySites[0].id)}">`}
+            <p><strong>Destination:</strong> <span id="dispatch-site-destination">${escapeHTML(po.deliverySites[0].destination)}</span></p>
              <div class="form-group">
                 <label for="dispatchDate">Dispatch Date:</label>
                 <input type="date" id="dispatchDate" name="dispatchDate" value="${today}" required>
@@ -1091,7 +3270,9 @@ function getAddDispatchModalHTML(): string {
             </div>
             <div class="form-group">
                 <label for="invoiceNumber">Invoice Number (Optional):</label>
-                <input type="text" id="invoiceNumber" name="invoiceNumber">
+                <input type="text" id="invoiceNumber" name="invoiceNumber" ${isInvoiceSeriesEnabled() ? 'disabled' : ''}>
+                ${isInvoiceSeriesEnabled() ? `
+                <label><input type="checkbox" id="autoInvoiceNumber" name="autoInvoiceNumber" checked> Assign the next invoice number <span id="next-invoice-number"></span></label>` : ''}
             </div>
             <div class="form-group">
                 <label for="transporterName">Transporter Name (Optional):</label>
@@ -1109,6 +3290,39 @@ function getAddDispatchModalHTML(): string {
     document.getElementById('invoiceNumber')?.addEventListener('input', toUpperCaseListener);
     document.getElementById('transporterName')?.addEventListener('input', toUpperCaseListener);
 
+    const siteSelect = document.getElementById('dispatchSite') as HTMLSelectElement | null;
+    if (siteSelect) {
+        const showSiteLines = () => {
+            const site = getDeliverySite(po, siteSelect.value);
+            document.getElementById('dispatch-site-destination')!.textContent = site ? site.destination : '';
+            formContainer.querySelectorAll<HTMLElement>('[data-site-id]').forEach(el => {
+                const onSite = el.dataset.siteId === siteSelect.value;
+                el.style.display = onSite ? '' : 'none';
+                const quantityInput = el.querySelector('input[type="number"]') as HTMLInputElement | null;
+                if (quantityInput && !onSite) quantityInput.value = '0';
+            });
+        };
+        siteSelect.addEventListener('change', showSiteLines);
+        showSiteLines();
+    }
+
+    const autoInvoiceCheckbox = document.getElementById('autoInvoiceNumber') as HTMLInputElement | null;
+    if (autoInvoiceCheckbox) {
+        const invoiceInput = document.getElementById('invoiceNumber') as HTMLInputElement;
+        const dateInput = document.getElementById('dispatchDate') as HTMLInputElement;
+        const updateNextInvoiceNumber = () => {
+            document.getElementById('next-invoice-number')!.textContent = isValidDateOnly(dateInput.value) && autoInvoiceCheckbox.checked
+                ? `(${peekDocumentNumber('invoice', dateInput.value).documentNumber})`
+                : '';
+        };
+        autoInvoiceCheckbox.addEventListener('change', () => {
+            invoiceInput.disabled = autoInvoiceCheckbox.checked;
+            updateNextInvoiceNumber();
+        });
+        dateInput.addEventListener('change', updateNextInvoiceNumber);
+        updateNextInvoiceNumber();
+    }
+
     document.getElementById('add-dispatch-form')?.addEventListener('submit', handleAddDispatchSubmit);
 
     modal.style.display = 'block';
@@ -1116,7 +3330,7 @@ function getAddDispatchModalHTML(): string {
     (modal.querySelector('.close-button, input:not([disabled]):not([readonly]), button:not([disabled])') as HTMLElement)?.focus();
 };
 
-function handleAddDispatchSubmit(event: Event): void {
+async function handleAddDispatchSubmit(event: Event): Promise<void> {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
     const poId = form.dataset.poid;
@@ -1126,26 +3340,32 @@ function handleAddDispatchSubmit(event: Event): void {
         alert('Critical Error: PO not found during dispatch submission.');
         return;
     }
-     if (po.status === 'Completed' || po.status === 'Cancelled') {
+     if (isPOClosed(po) || !isPOReleased(po)) {
          alert(`Cannot add dispatch: PO is ${po.status}.`);
         return;
     }
 
 
-    const dispatchedItemsFromForm: { material: string; quantity: number }[] = [];
+    const dispatchedItemsFromForm: DispatchedItem[] = [];
     let totalDispatchedThisTime = 0;
     let validationError = false;
+    const siteId = (form.elements.namedItem('siteId') as HTMLInputElement | HTMLSelectElement).value;
 
     form.querySelectorAll('.material-dispatch-item').forEach(itemDiv => {
-        const materialNameInput = itemDiv.querySelector('input[name="material_name"]') as HTMLInputElement;
+        const lineIdInput = itemDiv.querySelector('input[name="line_id"]') as HTMLInputElement;
         const quantityInput = itemDiv.querySelector('input[type="number"]') as HTMLInputElement;
         const label = itemDiv.querySelector('label');
+        const poItem = lineIdInput ? po.items.find(i => i.id === lineIdInput.value) : undefined;
 
 
-        if (materialNameInput && quantityInput) {
-            const materialName = materialNameInput.value;
+        if (poItem && quantityInput && poItem.siteId === siteId) {
+            const materialName = describePOLine(po, poItem.id, poItem.material);
             const quantity = parseFloat(quantityInput.value);
-            // const maxQuantity = parseFloat(quantityInput.max); // Max attribute removed
+            if (poItem.cancelled && quantity > 0) {
+                alert(`Error for ${materialName}: the line has been cancelled.`);
+                validationError = true;
+                return;
+            }
 
             if (label) label.classList.remove('error-text');
 
@@ -1157,11 +3377,17 @@ function handleAddDispatchSubmit(event: Event): void {
                  validationError = true;
                  return; // Exit forEach callback for this item
             }
-            // Removed max quantity validation:
-            // if (quantity > maxQuantity) { ... }
+            // Quantities past the order are checked against the tolerance once every line is read
 
             if (quantity > 0) {
-                dispatchedItemsFromForm.push({ material: materialName, quantity: quantity });
+                const unit = (itemDiv.querySelector('select.dispatch-unit') as HTMLSelectElement).value;
+                const lineQuantity = convertQuantity(poItem.material, quantity, unit, poItem.unit);
+                if (lineQuantity === null) {
+                    alert(`Error for ${materialName}: ${unit} can't be converted to ${poItem.unit}. Check the material's units in the material master.`);
+                    validationError = true;
+                    return;
+                }
+                dispatchedItemsFromForm.push({ lineId: poItem.id, material: poItem.material, quantity, unit, lineQuantity });
                 totalDispatchedThisTime += quantity;
             }
         }
@@ -1188,38 +3414,47 @@ function handleAddDispatchSubmit(event: Event): void {
     const dispatchedAtISO = dispatchDateTimeUTC.toISOString();
 
 
+    if (dispatchedItemsFromForm.length === 0 && totalDispatchedThisTime === 0) {
+        alert('No items were dispatched. Please enter quantities greater than 0.');
+        return;
+    }
+    const override = confirmOverDispatch(findOverDispatchedLines(po, dispatchedItemsFromForm));
+    if (override === null) return;
+
+    // Numbers are drawn only once nothing can stop the save, so a cancelled form leaves no gap
+    const autoInvoiceNumber = (form.elements.namedItem('autoInvoiceNumber') as HTMLInputElement | null)?.checked;
     const newDispatch: Dispatch = {
-        id: generateId('D'),
+        id: allocateDocumentNumber('dispatch', dispatchDateValue),
         poId: poId!,
         vehicleNumber: ((form.elements.namedItem('vehicleNumber') as HTMLInputElement).value).toUpperCase(),
         driverContact: (form.elements.namedItem('driverContact') as HTMLInputElement).value,
-        invoiceNumber: ((form.elements.namedItem('invoiceNumber') as HTMLInputElement).value.trim() || undefined)?.toUpperCase(),
+        invoiceNumber: autoInvoiceNumber
+            ? allocateDocumentNumber('invoice', dispatchDateValue)
+            : ((form.elements.namedItem('invoiceNumber') as HTMLInputElement).value.trim() || undefined)?.toUpperCase(),
         transporterName: ((form.elements.namedItem('transporterName') as HTMLInputElement).value.trim() || undefined)?.toUpperCase(),
         dispatchedItems: dispatchedItemsFromForm,
-        dispatchedAt: dispatchedAtISO
+        siteId,
+        dispatchedAt: dispatchedAtISO,
+        updatedAt: new Date().toISOString()
     };
-
-    if (newDispatch.dispatchedItems.length === 0 && totalDispatchedThisTime === 0) {
-        alert('No items were dispatched. Please enter quantities greater than 0.');
-        return;
-    }
+    if (override) newDispatch.overDispatchOverride = override;
 
 
     dispatches.unshift(newDispatch);
     dispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
 
 
-    dispatchedItemsFromForm.forEach(dispItem => {
-        const materialKey = dispItem.material.toUpperCase();
-        po.dispatchedQuantityByMaterial[materialKey] = (po.dispatchedQuantityByMaterial[materialKey] || 0) + dispItem.quantity;
-    });
-
+    po.dispatchedQuantityByLine = computeDispatchedQuantityByLine(po);
     updatePOStatus(po.id);
+    recordAuditEntry('dispatch', newDispatch, 'create', [], `Dispatched ${newDispatch.dispatchedItems.map(i => `${i.material}: ${i.quantity.toFixed(2)} ${i.unit}`).join(', ')} on vehicle ${newDispatch.vehicleNumber}.`
+        + (override ? ` ${describeOverDispatchOverride(override)}.` : ''));
 
-    saveData();
-    alert('Dispatch added successfully!');
+    if (!(await saveData())) return;
+    queueSyncOperation('dispatch', 'create', newDispatch);
+    const printNow = confirm(`Dispatch ${newDispatch.id} added successfully!\n\nPrint the delivery challan now?`);
     closeModal('add-dispatch-modal');
     renderApp();
+    if (printNow) (window as any).showPrintDispatchModal(newDispatch.id);
 }
 
 
@@ -1239,22 +3474,22 @@ function getEditDispatchModalHTML(): string {
 }
 
 (window as any).showEditDispatchModal = (dispatchId: string): void => {
-    currentEditingDispatchId = dispatchId;
     const dispatch = dispatches.find(d => d.id === dispatchId);
     if (!dispatch) {
         alert('Error: Dispatch not found.');
-        currentEditingDispatchId = null;
         return;
     }
     const po = purchaseOrders.find(p => p.id === dispatch.poId);
     if (!po) {
         alert('Error: Associated Purchase Order not found.');
-        currentEditingDispatchId = null;
         return;
     }
-    if (po.status === 'Cancelled') {
-        alert('Cannot edit dispatches for a Cancelled PO.');
-        currentEditingDispatchId = null;
+    if (po.status === 'Cancelled' || po.status === 'Short Closed') {
+        alert(`Cannot edit dispatches for a ${po.status} PO.`);
+        return;
+    }
+    if (dispatch.voided) {
+        alert('Cannot edit a voided dispatch.');
         return;
     }
 
@@ -1265,27 +3500,27 @@ function getEditDispatchModalHTML(): string {
 
     let itemsHtml = '';
     po.items.forEach(poItem => {
-        const materialKey = poItem.material.toUpperCase();
-        const dispatchItem = dispatch.dispatchedItems.find(di => di.material.toUpperCase() === materialKey);
+        const dispatchItem = dispatch.dispatchedItems.find(di => di.lineId === poItem.id);
         const currentDispatchQtyForItem = dispatchItem ? dispatchItem.quantity : 0;
         const orderedQty = poItem.quantity;
-        const totalDispatchedForMaterialInPO = po.dispatchedQuantityByMaterial[materialKey] || 0;
-        // const dispatchedByOtherDispatches = totalDispatchedForMaterialInPO - currentDispatchQtyForItem;
-        // const maxEditableConsideringPOOrder = orderedQty - dispatchedByOtherDispatches; // This logic is removed as we allow over-dispatch
+        const lineLabel = describePOLine(po, poItem.id, poItem.material);
 
-        if (dispatchItem) { // Only allow editing items that were part of this original dispatch
+        if (dispatchItem) { // Only allow editing lines that were part of this original dispatch
              itemsHtml += `
                 <div class="form-group material-dispatch-item">
-                    <label for="edit-dispatch-qty-${materialKey.replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-]/g, '')}">
-                        ${escapeHTML(poItem.material)}
-                        (Ordered: ${orderedQty.toFixed(2)}, This Dispatch Had: ${currentDispatchQtyForItem.toFixed(2)})
+                    <label for="edit-dispatch-qty-${escapeHTML(poItem.id)}">
+                        ${escapeHTML(lineLabel)}
+                        (Ordered: ${orderedQty.toFixed(2)} ${escapeHTML(poItem.unit)}, This Dispatch Had: ${currentDispatchQtyForItem.toFixed(2)} ${escapeHTML(dispatchItem.unit)})
                     </label>
-                    <input type="number" id="edit-dispatch-qty-${materialKey.replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-]/g, '')}"
-                           name="dispatch_qty_${escapeHTML(materialKey)}"
-                           min="0" step="0.01" value="${currentDispatchQtyForItem.toFixed(2)}" required
-                           aria-label="New dispatch quantity for ${escapeHTML(poItem.material)}">
-                    <input type="hidden" name="material_name" value="${escapeHTML(materialKey)}">
-                    <input type="hidden" name="original_dispatch_qty_${escapeHTML(materialKey)}" value="${currentDispatchQtyForItem.toFixed(2)}">
+                    <div class="quantity-with-unit">
+                        <input type="number" id="edit-dispatch-qty-${escapeHTML(poItem.id)}"
+                               name="dispatch_qty_${escapeHTML(poItem.id)}"
+                               min="0" step="0.01" value="${currentDispatchQtyForItem.toFixed(2)}" required
+                               aria-label="New dispatch quantity for ${escapeHTML(lineLabel)}">
+                        ${renderDispatchUnitSelectHTML(poItem, dispatchItem.unit)}
+                    </div>
+                    <input type="hidden" name="line_id" value="${escapeHTML(poItem.id)}">
+                    <input type="hidden" name="original_dispatch_qty_${escapeHTML(poItem.id)}" value="${currentDispatchQtyForItem.toFixed(2)}">
                 </div>
             `;
         }
@@ -1300,7 +3535,8 @@ function getEditDispatchModalHTML(): string {
     formContainer.innerHTML = `
         <form id="edit-dispatch-form" data-dispatchid="${escapeHTML(dispatchId)}">
             <p><strong>Party:</strong> ${escapeHTML(po.partyName)}</p>
-            <p><strong>Destination:</strong> ${escapeHTML(po.destination)}</p>
+            ${describePOSite(po, dispatch.siteId) ? `<p><strong>Site:</strong> ${escapeHTML(describePOSite(po, dispatch.siteId))}</p>` : ''}
+            <p><strong>Destination:</strong> ${escapeHTML(getDeliverySite(po, dispatch.siteId)?.destination || getPODestinations(po))}</p>
              <div class="form-group">
                 <label for="editDispatchDate">Dispatch Date:</label>
                 <input type="date" id="editDispatchDate" name="dispatchDate" value="${dispatchDate}" required>
@@ -1340,7 +3576,7 @@ function getEditDispatchModalHTML(): string {
     (modal.querySelector('.close-button, input:not([disabled]):not([readonly]), button:not([disabled])') as HTMLElement)?.focus();
 };
 
-function handleUpdateDispatchSubmit(event: Event): void {
+async function handleUpdateDispatchSubmit(event: Event): Promise<void> {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
     const dispatchId = form.dataset.dispatchid;
@@ -1356,26 +3592,28 @@ function handleUpdateDispatchSubmit(event: Event): void {
         alert('Critical Error: Associated PO not found.');
         return;
     }
-     if (po.status === 'Cancelled') {
-        alert('Cannot update dispatch: PO is Cancelled.');
+     if (po.status === 'Cancelled' || po.status === 'Short Closed') {
+        alert(`Cannot update dispatch: PO is ${po.status}.`);
+        return;
+    }
+    if (originalDispatch.voided) {
+        alert('Cannot update dispatch: it has been voided.');
         return;
     }
 
-    const updatedDispatchedItems: { material: string; quantity: number }[] = [];
+    const updatedDispatchedItems: DispatchedItem[] = [];
     let validationError = false;
-    const quantityChanges: { material: string; delta: number }[] = []; // To update PO's total dispatched
 
     form.querySelectorAll('.material-dispatch-item').forEach(itemDiv => {
-        const materialNameInput = itemDiv.querySelector('input[name="material_name"]') as HTMLInputElement;
+        const lineIdInput = itemDiv.querySelector('input[name="line_id"]') as HTMLInputElement;
         const quantityInput = itemDiv.querySelector('input[type="number"]') as HTMLInputElement;
         const originalQtyInput = itemDiv.querySelector(`input[name^="original_dispatch_qty_"]`) as HTMLInputElement;
         const label = itemDiv.querySelector('label');
+        const poItem = lineIdInput ? po.items.find(i => i.id === lineIdInput.value) : undefined;
 
-        if (materialNameInput && quantityInput && originalQtyInput) {
-            const materialName = materialNameInput.value;
+        if (poItem && quantityInput && originalQtyInput) {
+            const materialName = describePOLine(po, poItem.id, poItem.material);
             const newQuantity = parseFloat(quantityInput.value);
-            const originalQuantityInThisDispatch = parseFloat(originalQtyInput.value);
-            // const maxQuantity = parseFloat(quantityInput.max); // Max attribute removed
 
             if(label) label.classList.remove('error-text');
 
@@ -1386,13 +3624,27 @@ function handleUpdateDispatchSubmit(event: Event): void {
                 validationError = true;
                 return;
             }
-            // Removed max quantity validation:
-            // if (newQuantity > maxQuantity) { ... }
+            // Quantities past the order are checked against the tolerance once every line is read
 
             if (newQuantity > 0) {
-                updatedDispatchedItems.push({ material: materialName, quantity: newQuantity });
+                const unit = (itemDiv.querySelector('select.dispatch-unit') as HTMLSelectElement).value;
+                const originalItem = originalDispatch.dispatchedItems.find(i => i.lineId === poItem.id);
+                // An unchanged quantity keeps the conversion it was saved with
+                const lineQuantity = originalItem && originalItem.unit === unit && originalItem.quantity === newQuantity
+                    ? originalItem.lineQuantity
+                    : convertQuantity(poItem.material, newQuantity, unit, poItem.unit);
+                if (lineQuantity === null) {
+                    alert(`Error for ${materialName}: ${unit} can't be converted to ${poItem.unit}. Check the material's units in the material master.`);
+                    validationError = true;
+                    return;
+                }
+                if (poItem.cancelled && lineQuantity > (originalItem ? originalItem.lineQuantity : 0) + 0.005) {
+                    alert(`Error for ${materialName}: the line has been cancelled, so its dispatched quantity can't be increased.`);
+                    validationError = true;
+                    return;
+                }
+                updatedDispatchedItems.push({ lineId: poItem.id, material: poItem.material, quantity: newQuantity, unit, lineQuantity });
             }
-            quantityChanges.push({ material: materialName, delta: newQuantity - originalQuantityInThisDispatch });
         }
     });
 
@@ -1416,25 +3668,26 @@ function handleUpdateDispatchSubmit(event: Event): void {
         invoiceNumber: ((form.elements.namedItem('invoiceNumber') as HTMLInputElement).value.trim() || undefined)?.toUpperCase(),
         transporterName: ((form.elements.namedItem('transporterName') as HTMLInputElement).value.trim() || undefined)?.toUpperCase(),
         dispatchedItems: updatedDispatchedItems,
-        dispatchedAt: dispatchDateTimeUTC.toISOString()
+        dispatchedAt: dispatchDateTimeUTC.toISOString(),
+        updatedAt: new Date().toISOString()
     };
+    const override = confirmOverDispatch(findOverDispatchedLines(po, updatedDispatchedItems, originalDispatch));
+    if (override === null) return;
+    // An override only covers the quantities it was given for
+    if (override) updatedDispatch.overDispatchOverride = override;
+    else delete updatedDispatch.overDispatchOverride;
 
     dispatches[dispatchIndex] = updatedDispatch;
     dispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
 
-    // Update PO's dispatchedQuantityByMaterial
-    quantityChanges.forEach(change => {
-        const materialKey = change.material.toUpperCase();
-        po.dispatchedQuantityByMaterial[materialKey] = (po.dispatchedQuantityByMaterial[materialKey] || 0) + change.delta;
-        if (po.dispatchedQuantityByMaterial[materialKey] < 0) po.dispatchedQuantityByMaterial[materialKey] = 0;
-    });
-
+    po.dispatchedQuantityByLine = computeDispatchedQuantityByLine(po);
     updatePOStatus(po.id);
+    recordAuditEntry('dispatch', updatedDispatch, 'update', diffRecordsForAudit(originalDispatch, updatedDispatch), override ? `${describeOverDispatchOverride(override)}.` : undefined);
 
-    saveData();
+    if (!(await saveData())) return;
+    queueSyncOperation('dispatch', 'update', updatedDispatch);
     alert(`Dispatch ${dispatchId} updated successfully!`);
     closeModal('edit-dispatch-modal');
-    currentEditingDispatchId = null;
 
     const poDetailsModal = document.getElementById('po-details-modal');
     if (poDetailsModal && poDetailsModal.style.display === 'block') {
@@ -1453,21 +3706,92 @@ function handleUpdateDispatchSubmit(event: Event): void {
 }
 
 
+// --- Void Dispatch ---
+(window as any).promptVoidDispatch = (dispatchId: string): void => {
+    const dispatch = dispatches.find(d => d.id === dispatchId);
+    if (!dispatch) {
+        alert('Error: Dispatch not found.');
+        return;
+    }
+    if (dispatch.voided) {
+        alert(`Dispatch ${dispatchId} is already voided.`);
+        return;
+    }
+    const po = purchaseOrders.find(p => p.id === dispatch.poId);
+    if (po && (po.status === 'Cancelled' || po.status === 'Short Closed')) {
+        alert(`Cannot void dispatches of a ${po.status} PO.`);
+        return;
+    }
+
+    let reason: string | null = '';
+    while (reason !== null && reason.trim() === '') {
+        reason = prompt(`Void dispatch ${dispatchId}? Its quantities will be removed from PO ${dispatch.poId}.\n\nReason (required):`);
+    }
+    if (reason === null) return;
+    handleVoidDispatch(dispatchId, reason.trim());
+};
+
+export async function handleVoidDispatch(dispatchId: string, reason: string): Promise<void> {
+    const dispatch = dispatches.find(d => d.id === dispatchId);
+    if (!dispatch) return;
+    const po = purchaseOrders.find(p => p.id === dispatch.poId);
+
+    dispatch.voided = { at: new Date().toISOString(), by: getActingUser(), reason };
+    dispatch.updatedAt = dispatch.voided.at;
+    if (po) {
+        po.dispatchedQuantityByLine = computeDispatchedQuantityByLine(po);
+        updatePOStatus(po.id);
+    }
+    recordAuditEntry('dispatch', dispatch, 'void', [], `Reason: ${reason}`);
+
+    if (!(await saveData())) return;
+    queueSyncOperation('dispatch', 'void', dispatch);
+    alert(`Dispatch ${dispatchId} has been voided.`);
+
+    const poDetailsModal = document.getElementById('po-details-modal');
+    if (po && poDetailsModal && poDetailsModal.style.display === 'block') {
+        (window as any).showPODetailsModal(po.id);
+    } else {
+        renderApp();
+    }
+}
+
+// Sums the dispatch ledger (voided dispatches excluded) for one PO, keyed by PO line ID.
+// This is the authoritative dispatched quantity everywhere in the app.
+export function computeDispatchedQuantityByLine(po: PurchaseOrder): { [lineId: string]: number } {
+    const totals: { [lineId: string]: number } = {};
+    po.items.forEach(item => { totals[item.id] = 0; });
+    dispatches.filter(d => d.poId === po.id && !d.voided).forEach(d => {
+        d.dispatchedItems.forEach(item => {
+            totals[item.lineId] = (totals[item.lineId] || 0) + item.lineQuantity;
+        });
+    });
+    return totals;
+}
+
+// Material name of a PO line, with its line number and rate when the PO has the same
+// material on more than one line.
+export function describePOLine(po: PurchaseOrder | undefined, lineId: string, fallbackMaterial: string): string {
+    const index = po ? po.items.findIndex(item => item.id === lineId) : -1;
+    if (!po || index === -1) return fallbackMaterial;
+    const line = po.items[index];
+    const sharesMaterial = po.items.filter(item => item.material.toUpperCase() === line.material.toUpperCase()).length > 1;
+    return sharesMaterial ? `${line.material} (Line ${index + 1} @ ₹${line.rate.toFixed(2)})` : line.material;
+}
+
 function updatePOStatus(poId: string): void {
     const poIndex = purchaseOrders.findIndex(p => p.id === poId);
     if (poIndex === -1) return;
     const po = purchaseOrders[poIndex];
 
-    if (po.status === 'Cancelled') return;
+    if (po.status === 'Cancelled' || po.status === 'Short Closed' || !isPOReleased(po)) return;
 
+    const dispatchedByLine = computeDispatchedQuantityByLine(po);
     let allItemsMeetOrExceedOrder = true;
     if (po.items.length > 0) {
-        for (const item of po.items) {
-            const materialKey = item.material.toUpperCase();
-            if (typeof po.dispatchedQuantityByMaterial[materialKey] === 'undefined') {
-                 po.dispatchedQuantityByMaterial[materialKey] = 0;
-            }
-            if ((po.dispatchedQuantityByMaterial[materialKey] || 0) < item.quantity) {
+        // Cancelled lines are left out; nothing more is expected on them
+        for (const item of po.items.filter(i => !i.cancelled)) {
+            if ((dispatchedByLine[item.id] || 0) < item.quantity) {
                 allItemsMeetOrExceedOrder = false;
                 break;
             }
@@ -1477,8 +3801,8 @@ function updatePOStatus(poId: string): void {
     }
 
     let totalDispatchedEver = 0;
-    for (const materialKey in po.dispatchedQuantityByMaterial) {
-        totalDispatchedEver += po.dispatchedQuantityByMaterial[materialKey];
+    for (const lineId in dispatchedByLine) {
+        totalDispatchedEver += dispatchedByLine[lineId];
     }
 
     if (allItemsMeetOrExceedOrder) {
@@ -1491,140 +3815,734 @@ function updatePOStatus(poId: string): void {
 }
 
 
-// --- Dispatch Log ---
-interface DisplayDispatchLine {
-    dispatchId: string;
-    poId: string;
-    partyName: string;
-    salesmanName: string;
-    dispatchedAt: string;
-    originalDispatchedAtISO: string;
-    invoiceNumber?: string;
-    vehicleNumber: string;
-    driverContact?: string;
-    materialName: string;
-    quantityDispatched: number;
-    transporterName?: string;
-    itemTotalAmount: number;
-    destination: string;
-}
-
-function downloadDispatchLogAsCSV(linesToDownload: DisplayDispatchLine[]): void {
-    if (linesToDownload.length === 0) {
-        alert('No dispatch data to download.');
-        return;
-    }
+// --- Dispatch Printing ---
+// A delivery challan or tax invoice for one dispatch, printed (or saved as PDF) through the
+// browser's print dialog. The document is rendered into #print-area, which is the only thing
+// shown while printing. Only the dispatched material lines are billed; the PO's order-level
+// charges are not split across dispatches.
+type DispatchDocumentKind = 'challan' | 'invoice';
+type PrintPaperSize = 'A4' | 'A5';
+let dispatchPrintPaperSize: PrintPaperSize = 'A4'; // Last paper size used, offered again next time
 
-    const headers = [
-        "Dispatch ID", "PO ID", "Party Name", "Salesman", "Date", "Invoice No.",
-        "Vehicle No.", "Driver Contact", "Item Name", "Quantity",
-        "Transporter", "Destination", "Item Line Amt. (₹)"
-    ];
+const WORDS_BELOW_TWENTY = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+    'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const WORDS_TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
 
-    const csvRows = [
-        headers.map(header => escapeCSVField(header)).join(',')
-    ];
+function twoDigitsInWords(n: number): string {
+    return n < 20 ? WORDS_BELOW_TWENTY[n] : `${WORDS_TENS[Math.floor(n / 10)]}${n % 10 ? ` ${WORDS_BELOW_TWENTY[n % 10]}` : ''}`;
+}
 
-    const sortedLinesToDownload = [...linesToDownload].sort((a,b) =>
-        new Date(b.originalDispatchedAtISO).getTime() - new Date(a.originalDispatchedAtISO).getTime()
-    );
+// Whole number in words with Indian grouping: crore, lakh, thousand, hundred.
+function numberInWordsIndian(n: number): string {
+    if (n === 0) return 'Zero';
+    const parts: string[] = [];
+    const crore = Math.floor(n / 10000000);
+    const lakh = Math.floor((n % 10000000) / 100000);
+    const thousand = Math.floor((n % 100000) / 1000);
+    const hundred = Math.floor((n % 1000) / 100);
+    const rest = n % 100;
+    if (crore) parts.push(`${numberInWordsIndian(crore)} Crore`);
+    if (lakh) parts.push(`${twoDigitsInWords(lakh)} Lakh`);
+    if (thousand) parts.push(`${twoDigitsInWords(thousand)} Thousand`);
+    if (hundred) parts.push(`${WORDS_BELOW_TWENTY[hundred]} Hundred`);
+    if (rest) parts.push(twoDigitsInWords(rest));
+    return parts.join(' ');
+}
 
+// e.g. 123456.5 -> "Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Fifty Paise Only"
+export function amountInWordsIndian(amount: number): string {
+    const totalPaise = Math.round(Math.abs(amount) * 100);
+    const rupees = Math.floor(totalPaise / 100);
+    const paise = totalPaise % 100;
+    return `Rupees ${numberInWordsIndian(rupees)}${paise ? ` and ${twoDigitsInWords(paise)} Paise` : ''} Only`;
+}
 
-    sortedLinesToDownload.forEach(line => {
-        const row = [
-            escapeCSVField(line.dispatchId),
-            escapeCSVField(line.poId),
-            escapeCSVField(line.partyName),
-            escapeCSVField(line.salesmanName),
-            escapeCSVField(line.dispatchedAt),
-            escapeCSVField(line.invoiceNumber),
-            escapeCSVField(line.vehicleNumber),
-            escapeCSVField(line.driverContact),
-            escapeCSVField(line.materialName),
-            escapeCSVField(line.quantityDispatched.toFixed(2)),
-            escapeCSVField(line.transporterName),
-            escapeCSVField(line.destination),
-            escapeCSVField(line.itemTotalAmount.toFixed(2))
-        ];
-        csvRows.push(row.join(','));
-    });
+function formatAddressHTML(address: string): string {
+    return escapeHTML(address).replace(/\n/g, '<br>');
+}
 
-    const csvString = csvRows.join('\n');
-    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
+interface DispatchDocumentLine {
+    material: string;
+    hsnCode: string;
+    quantity: number; // In the PO line's unit, which the rate is per
+    unit: string;
+    dispatchedAs: string; // The quantity as dispatched when it was in another unit, else ''
+    rate: number;
+    discountPercentage: number; // Line and cash discount together
+    gstPercentage: number;
+    tax: LineTax;
+}
 
-    if (link.download !== undefined) {
-        const url = URL.createObjectURL(blob);
-        link.setAttribute('href', url);
-        const today = new Date().toISOString().split('T')[0].replace(/-/g,'');
-        const filterStart = dispatchFilterStartDate ? dispatchFilterStartDate.replace(/-/g,'') : 'all';
-        const filterEnd = dispatchFilterEndDate ? dispatchFilterEndDate.replace(/-/g,'') : 'all';
+function buildDispatchDocumentLines(dispatch: Dispatch, po: PurchaseOrder): DispatchDocumentLine[] {
+    const interState = isPOInterState(po);
+    return dispatch.dispatchedItems.map(dispItem => {
+        const poItem = po.items.find(i => i.id === dispItem.lineId);
+        const netRate = poItem ? getNetRate(poItem, po.cashDiscountPercentage) : 0;
+        const unit = poItem ? poItem.unit : dispItem.unit;
+        return {
+            material: dispItem.material,
+            hsnCode: findMaterialByName(dispItem.material)?.hsnCode || '',
+            quantity: dispItem.lineQuantity,
+            unit,
+            dispatchedAs: dispItem.unit !== unit ? `${dispItem.quantity.toFixed(2)} ${dispItem.unit}` : '',
+            rate: poItem ? poItem.rate : 0,
+            discountPercentage: poItem && poItem.rate > 0 ? (1 - netRate / poItem.rate) * 100 : 0,
+            gstPercentage: poItem ? poItem.gstPercentage : 0,
+            tax: computeLineTax(dispItem.lineQuantity, netRate, poItem ? poItem.gstPercentage : 0, interState)
+        };
+    });
+}
 
-        link.setAttribute('download', `dispatch_log_${filterStart}_to_${filterEnd}_${today}.csv`);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-    } else {
-        alert('CSV download is not supported by your browser.');
-    }
+function renderDispatchDocumentHTML(dispatch: Dispatch, po: PurchaseOrder, kind: DispatchDocumentKind, paperSize: PrintPaperSize): string {
+    const interState = isPOInterState(po);
+    const lines = buildDispatchDocumentLines(dispatch, po);
+    const sum = (pick: (tax: LineTax) => number) => lines.reduce((total, line) => total + pick(line.tax), 0);
+    const beforeRoundOff = sum(tax => tax.total);
+    const grandTotal = Math.round(beforeRoundOff);
+    const site = getDeliverySite(po, dispatch.siteId);
+    const siteIndex = po.deliverySites.findIndex(s => s.id === dispatch.siteId);
+    const taxColumns = interState ? 2 : 4;
+    const meta: [string, string][] = [
+        [kind === 'invoice' ? 'Invoice No.' : 'Challan No.', kind === 'invoice' ? dispatch.invoiceNumber || '' : dispatch.id],
+        ['Date', formatToDDMMYY(dispatch.dispatchedAt)],
+        ...(kind === 'invoice' ? [['Challan No.', dispatch.id] as [string, string]] : dispatch.invoiceNumber ? [['Invoice No.', dispatch.invoiceNumber] as [string, string]] : []),
+        ['Our PO No.', po.id],
+        ...(po.externalPoNumber ? [['Party PO Ref.', po.externalPoNumber] as [string, string]] : []),
+        ['Place of Supply', describeStateCode(po.placeOfSupplyStateCode)],
+        ['Vehicle No.', dispatch.vehicleNumber],
+        ['Driver', dispatch.driverContact],
+        ...(dispatch.transporterName ? [['Transporter', dispatch.transporterName] as [string, string]] : [])
+    ];
+    return `
+        <div class="print-document paper-${paperSize.toLowerCase()}">
+            <header class="print-company">
+                <h1>${escapeHTML(companyProfile.name)}</h1>
+                ${companyProfile.address ? `<p>${formatAddressHTML(companyProfile.address)}</p>` : ''}
+                <p>${companyProfile.gstin ? `GSTIN: ${escapeHTML(companyProfile.gstin)}` : ''}${companyProfile.gstin && companyProfile.stateCode ? ' | ' : ''}${companyProfile.stateCode ? `State: ${escapeHTML(describeStateCode(companyProfile.stateCode))}` : ''}</p>
+            </header>
+            <h2 class="print-title">${kind === 'invoice' ? 'TAX INVOICE' : 'DELIVERY CHALLAN'}</h2>
+            <table class="print-meta">
+                <tbody>
+                    ${meta.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHTML(value)}</td></tr>`).join('')}
+                </tbody>
+            </table>
+            <div class="print-parties">
+                <div>
+                    <h3>Bill To</h3>
+                    <p><strong>${escapeHTML(po.partyName)}</strong></p>
+                    ${po.billToAddress ? `<p>${formatAddressHTML(po.billToAddress)}</p>` : ''}
+                    ${po.gstin ? `<p>GSTIN: ${escapeHTML(po.gstin)}</p>` : ''}
+                </div>
+                <div>
+                    <h3>Ship To</h3>
+                    <p><strong>${escapeHTML(po.shipToPartyName)}</strong>${site && describePOSite(po, dispatch.siteId) ? ` (${escapeHTML(describeDeliverySite(site, siteIndex))})` : ''}</p>
+                    ${site && site.address ? `<p>${formatAddressHTML(site.address)}</p>` : ''}
+                    ${site && site.destination ? `<p>Destination: ${escapeHTML(site.destination)}</p>` : ''}
+                    ${po.shipToGstin ? `<p>GSTIN: ${escapeHTML(po.shipToGstin)}</p>` : ''}
+                </div>
+            </div>
+            <table class="print-lines">
+                <thead>
+                    <tr>
+                        <th rowspan="2">#</th><th rowspan="2">Description</th><th rowspan="2">HSN</th><th rowspan="2">Qty</th>
+                        <th rowspan="2">Rate</th><th rowspan="2">Disc. %</th><th rowspan="2">Taxable</th>
+                        ${interState ? '<th colspan="2">IGST</th>' : '<th colspan="2">CGST</th><th colspan="2">SGST</th>'}
+                        <th rowspan="2">Amount</th>
+                    </tr>
+                    <tr>${'<th>%</th><th>₹</th>'.repeat(taxColumns / 2)}</tr>
+                </thead>
+                <tbody>
+                    ${lines.map((line, index) => `
+                        <tr>
+                            <td>${index + 1}</td>
+                            <td>${escapeHTML(line.material)}${line.dispatchedAs ? `<br><small>(${escapeHTML(line.dispatchedAs)})</small>` : ''}</td>
+                            <td>${escapeHTML(line.hsnCode)}</td>
+                            <td class="text-right">${line.quantity.toFixed(2)} ${escapeHTML(line.unit)}</td>
+                            <td class="text-right">${line.rate.toFixed(2)}</td>
+                            <td class="text-right">${line.discountPercentage ? line.discountPercentage.toFixed(2) : ''}</td>
+                            <td class="text-right">${line.tax.taxable.toFixed(2)}</td>
+                            ${interState
+                                ? `<td class="text-right">${line.gstPercentage}</td><td class="text-right">${line.tax.igst.toFixed(2)}</td>`
+                                : `<td class="text-right">${line.gstPercentage / 2}</td><td class="text-right">${line.tax.cgst.toFixed(2)}</td>
+                                   <td class="text-right">${line.gstPercentage / 2}</td><td class="text-right">${line.tax.sgst.toFixed(2)}</td>`}
+                            <td class="text-right">${line.tax.total.toFixed(2)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+                <tfoot>
+                    <tr>
+                        <th colspan="6" class="text-right">Total</th>
+                        <th class="text-right">${sum(tax => tax.taxable).toFixed(2)}</th>
+                        ${interState
+                            ? `<th></th><th class="text-right">${sum(tax => tax.igst).toFixed(2)}</th>`
+                            : `<th></th><th class="text-right">${sum(tax => tax.cgst).toFixed(2)}</th><th></th><th class="text-right">${sum(tax => tax.sgst).toFixed(2)}</th>`}
+                        <th class="text-right">${beforeRoundOff.toFixed(2)}</th>
+                    </tr>
+                    <tr><th colspan="${7 + taxColumns}" class="text-right">Round Off</th><th class="text-right">${(grandTotal - beforeRoundOff).toFixed(2)}</th></tr>
+                    <tr><th colspan="${7 + taxColumns}" class="text-right">Grand Total</th><th class="text-right">₹${grandTotal.toFixed(2)}</th></tr>
+                </tfoot>
+            </table>
+            <p class="print-amount-words"><strong>Amount in words:</strong> ${escapeHTML(amountInWordsIndian(grandTotal))}</p>
+            <div class="print-signatures">
+                <div>${kind === 'challan' ? 'Received the above goods in good condition.<br><br><br>Receiver\'s Signature' : ''}</div>
+                <div>For ${escapeHTML(companyProfile.name)}<br><br><br>Authorised Signatory</div>
+            </div>
+        </div>
+    `;
 }
 
-function downloadItemSummaryCSV(summaryData: { [materialName: string]: number }): void {
-    const sortedEntries = Object.entries(summaryData).sort((a, b) => b[1] - a[1]);
-    if (sortedEntries.length === 0) {
-        alert('No item summary data to download.');
-        return;
+// Renders the document into #print-area and opens the print dialog. @page can't be switched
+// with a class, so the paper size goes in its own style element.
+function printHTMLDocument(html: string, paperSize: PrintPaperSize): void {
+    let printArea = document.getElementById('print-area');
+    if (!printArea) {
+        printArea = document.createElement('div');
+        printArea.id = 'print-area';
+        document.body.appendChild(printArea);
     }
+    let pageStyle = document.getElementById('print-page-style');
+    if (!pageStyle) {
+        pageStyle = document.createElement('style');
+        pageStyle.id = 'print-page-style';
+        document.head.appendChild(pageStyle);
+    }
+    pageStyle.textContent = `@page { size: ${paperSize} portrait; margin: ${paperSize === 'A5' ? 8 : 12}mm; }`;
+    printArea.innerHTML = html;
+    document.body.classList.add('printing');
+    window.addEventListener('afterprint', () => {
+        document.body.classList.remove('printing');
+        printArea!.innerHTML = '';
+    }, { once: true });
+    window.print();
+}
 
-    const headers = ["Material Name", "Total Quantity Dispatched"];
-    const csvRows = [headers.map(header => escapeCSVField(header)).join(',')];
-
-    sortedEntries.forEach(([material, quantity]) => {
-        const row = [
-            escapeCSVField(material),
-            escapeCSVField(quantity.toFixed(2))
-        ];
-        csvRows.push(row.join(','));
-    });
-
-    const csvString = csvRows.join('\n');
-    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
-    link.setAttribute('download', `item_dispatch_summary_${today}.csv`);
-    link.href = URL.createObjectURL(blob);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(link.href);
+function getPrintDispatchModalHTML(): string {
+    return `
+        <div id="print-dispatch-modal" class="modal" aria-labelledby="print-dispatch-modal-title" aria-hidden="true">
+            <div class="modal-content">
+                <div class="modal-header">
+                    <h2 id="print-dispatch-modal-title">Print Dispatch</h2>
+                    <span class="close-button" onclick="window.closeModal('print-dispatch-modal')" aria-label="Close Print Dispatch">&times;</span>
+                </div>
+                <div id="print-dispatch-form-container"></div>
+            </div>
+        </div>
+    `;
 }
 
-function downloadSalesmanSummaryCSV(summaryData: { [salesmanName: string]: number }): void {
-    const sortedEntries = Object.entries(summaryData).sort((a, b) => b[1] - a[1]);
-    if (sortedEntries.length === 0) {
-        alert('No salesman summary data to download.');
+(window as any).showPrintDispatchModal = (dispatchId: string): void => {
+    const dispatch = dispatches.find(d => d.id === dispatchId);
+    if (!dispatch) {
+        alert('Error: Dispatch not found.');
         return;
     }
+    const po = purchaseOrders.find(p => p.id === dispatch.poId);
+    if (!po) {
+        alert('Error: Associated Purchase Order not found.');
+        return;
+    }
+    if (dispatch.voided) {
+        alert('A voided dispatch cannot be printed.');
+        return;
+    }
+    const modal = document.getElementById('print-dispatch-modal');
+    const formContainer = document.getElementById('print-dispatch-form-container');
+    if (!modal || !formContainer) return;
+    (document.getElementById('print-dispatch-modal-title')!).textContent = `Print Dispatch: ${dispatch.id}`;
+    formContainer.innerHTML = `
+        <form id="print-dispatch-form">
+            <div class="form-group">
+                <label><input type="radio" name="documentKind" value="challan" checked> Delivery Challan</label>
+                <label><input type="radio" name="documentKind" value="invoice" ${dispatch.invoiceNumber ? '' : 'disabled'}> Tax Invoice${dispatch.invoiceNumber ? ` (${escapeHTML(dispatch.invoiceNumber)})` : ''}</label>
+                ${dispatch.invoiceNumber ? '' : '<small>Enter an invoice number on the dispatch to print a tax invoice.</small>'}
+            </div>
+            <div class="form-group">
+                <label for="printPaperSize">Paper Size:</label>
+                <select id="printPaperSize" name="paperSize">
+                    ${(['A4', 'A5'] as PrintPaperSize[]).map(size => `<option value="${size}" ${size === dispatchPrintPaperSize ? 'selected' : ''}>${size}</option>`).join('')}
+                </select>
+            </div>
+            <button type="submit" class="primary">Print</button>
+            <button type="button" class="secondary" onclick="window.closeModal('print-dispatch-modal')">Cancel</button>
+        </form>
+    `;
+    document.getElementById('print-dispatch-form')?.addEventListener('submit', (e) => {
+        e.preventDefault();
+        const formData = new FormData(e.target as HTMLFormElement);
+        const kind = formData.get('documentKind') as DispatchDocumentKind;
+        dispatchPrintPaperSize = formData.get('paperSize') as PrintPaperSize;
+        if (kind === 'invoice' && !companyProfile.gstin && !confirm('Our GSTIN is not set in the Company profile, so it will be missing from the invoice. Print anyway?')) return;
+        closeModal('print-dispatch-modal');
+        printHTMLDocument(renderDispatchDocumentHTML(dispatch, po, kind, dispatchPrintPaperSize), dispatchPrintPaperSize);
+    });
+    modal.style.display = 'block';
+    modal.setAttribute('aria-hidden', 'false');
+    (modal.querySelector('.close-button') as HTMLElement)?.focus();
+};
 
-    const headers = ["Salesman Name", "Total Quantity Dispatched"];
-    const csvRows = [headers.map(header => escapeCSVField(header)).join(',')];
-
-    sortedEntries.forEach(([salesman, quantity]) => {
-        const row = [
-            escapeCSVField(salesman),
-            escapeCSVField(quantity.toFixed(2))
-        ];
-        csvRows.push(row.join(','));
+
+// --- Over-Dispatch Tolerance ---
+// How far past its ordered quantity a line may be dispatched. The party's own tolerance wins,
+// then the material's, then the company default. Past the ordered quantity the user is warned;
+// past the tolerance a supervisor has to override with a reason, which is kept on the dispatch.
+interface OverDispatchLine {
+    label: string; // PO line as shown to the user
+    unit: string;
+    orderedQuantity: number;
+    newTotal: number; // Dispatched on the line once this dispatch is saved
+    allowedQuantity: number;
+    tolerancePercentage: number;
+}
+
+function getOverDispatchTolerance(po: PurchaseOrder, item: MaterialItem): number {
+    const party = po.partyId ? parties.find(p => p.id === po.partyId) : undefined;
+    if (party && party.overDispatchTolerancePercentage !== undefined) return party.overDispatchTolerancePercentage;
+    const material = findMaterialByName(item.material);
+    if (material && material.overDispatchTolerancePercentage !== undefined) return material.overDispatchTolerancePercentage;
+    return companyProfile.overDispatchTolerancePercentage;
+}
+
+// Blank means "not set". Anything else must be a percentage between 0 and 100; NaN otherwise.
+function parseOptionalTolerance(value: string): number | undefined {
+    if (!value.trim()) return undefined;
+    const tolerance = parseFloat(value);
+    return tolerance >= 0 && tolerance <= 100 ? tolerance : NaN;
+}
+
+// Lines that this dispatch takes past their ordered quantity. When editing, pass the dispatch
+// being replaced: it no longer counts, and lines it already had at the same or a higher quantity
+// are not checked again.
+export function findOverDispatchedLines(po: PurchaseOrder, items: DispatchedItem[], replacing?: Dispatch): OverDispatchLine[] {
+    const dispatchedByLine = computeDispatchedQuantityByLine(po);
+    return po.items.flatMap(item => {
+        const previous = replacing && !replacing.voided
+            ? replacing.dispatchedItems.filter(i => i.lineId === item.id).reduce((sum, i) => sum + i.lineQuantity, 0)
+            : 0;
+        const current = items.filter(i => i.lineId === item.id).reduce((sum, i) => sum + i.lineQuantity, 0);
+        const newTotal = (dispatchedByLine[item.id] || 0) - previous + current;
+        if (current <= previous + 0.005 || newTotal <= item.quantity + 0.005) return [];
+        const tolerancePercentage = getOverDispatchTolerance(po, item);
+        return [{
+            label: describePOLine(po, item.id, item.material),
+            unit: item.unit,
+            orderedQuantity: item.quantity,
+            newTotal,
+            allowedQuantity: item.quantity * (1 + tolerancePercentage / 100),
+            tolerancePercentage
+        }];
     });
+}
 
-    const csvString = csvRows.join('\n');
-    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
+// Warns about lines over their ordered quantity and asks for a supervisor override for lines past
+// their tolerance. Returns the override (undefined when none was needed), or null if the user
+// backed out.
+function confirmOverDispatch(lines: OverDispatchLine[]): Dispatch['overDispatchOverride'] | null {
+    if (lines.length === 0) return undefined;
+    const describe = (line: OverDispatchLine) =>
+        `- ${line.label}: ${line.newTotal.toFixed(2)} of ${line.orderedQuantity.toFixed(2)} ${line.unit} ordered, up to ${line.allowedQuantity.toFixed(2)} allowed (${line.tolerancePercentage}% tolerance)`;
+    const blocked = lines.filter(line => line.newTotal > line.allowedQuantity + 0.005);
+    if (blocked.length === 0) {
+        return confirm(`This dispatch takes these lines past the quantity ordered:\n${lines.map(describe).join('\n')}\n\nDispatch anyway?`) ? undefined : null;
+    }
+    if (!confirm(`This dispatch takes these lines past their over-dispatch tolerance:\n${blocked.map(describe).join('\n')}\n\nIt can only be saved with a supervisor's override. Continue?`)) return null;
+    const supervisor = prompt('Name of the supervisor allowing this over-dispatch:', '');
+    if (supervisor === null) return null;
+    const reason = prompt('Reason for the over-dispatch:', '');
+    if (reason === null) return null;
+    if (!supervisor.trim() || !reason.trim()) {
+        alert('An override needs both the supervisor\'s name and a reason. The dispatch was not saved.');
+        return null;
+    }
+    return { at: new Date().toISOString(), supervisor: supervisor.trim().toUpperCase(), enteredBy: getActingUser(), reason: reason.trim() };
+}
+
+function describeOverDispatchOverride(override: NonNullable<Dispatch['overDispatchOverride']>): string {
+    return `Over-dispatch allowed by ${override.supervisor}: ${override.reason}`;
+}
+
+// --- Audit Trail ---
+// Append-only history of user edits. Entries are never changed or removed; every PO and
+// dispatch change records field-level before/after values and who made it.
+interface AuditFieldChange {
+    field: string;
+    before: any;
+    after: any;
+}
+
+interface AuditEntry {
+    id: string;
+    entity: 'po' | 'dispatch';
+    recordId: string;
+    poId: string; // The PO whose timeline shows this entry (a dispatch's own PO)
+    action: 'create' | 'update' | 'cancel' | 'cancel-line' | 'short-close' | 'revise' | 'void' | 'repair' | 'submit' | 'approve' | 'reject';
+    changes: AuditFieldChange[];
+    note?: string;
+    at: string;
+    user: string;
+}
+
+// Bookkeeping fields that change as a side effect and would only add noise to the history.
+const AUDIT_IGNORED_FIELDS = ['updatedAt', 'dispatchedQuantityByLine', 'approvalHistory'];
+
+let currentUserName = '';
+
+// Asks for a name the first time a change is recorded on this device.
+function getActingUser(): string {
+    if (!currentUserName) {
+        const entered = prompt('Enter your name. It is recorded in the change history of every PO you edit.');
+        if (entered && entered.trim()) {
+            currentUserName = entered.trim().toUpperCase();
+            writeSetting('currentUserName', currentUserName).catch(e => console.error('Error saving user name:', e));
+            renderNavbar();
+            updateNavActiveState();
+        }
+    }
+    return currentUserName || 'UNKNOWN';
+}
+
+function diffListForAudit(label: string, before: any[], after: any[], keyOf: (item: any) => string, nameOf: (item: any) => string): AuditFieldChange[] {
+    const changes: AuditFieldChange[] = [];
+    const beforeByKey = new Map(before.map(item => [keyOf(item), item] as [string, any]));
+    const afterByKey = new Map(after.map(item => [keyOf(item), item] as [string, any]));
+
+    beforeByKey.forEach((oldItem, key) => {
+        const newItem = afterByKey.get(key);
+        if (!newItem) {
+            changes.push({ field: `${label} ${nameOf(oldItem)}`, before: oldItem, after: undefined });
+            return;
+        }
+        new Set([...Object.keys(oldItem), ...Object.keys(newItem)]).forEach(field => {
+            if (field === 'id') return;
+            if (stableStringify(oldItem[field]) !== stableStringify(newItem[field])) {
+                changes.push({ field: `${label} ${nameOf(newItem)}: ${field}`, before: oldItem[field], after: newItem[field] });
+            }
+        });
+    });
+    afterByKey.forEach((newItem, key) => {
+        if (!beforeByKey.has(key)) changes.push({ field: `${label} ${nameOf(newItem)}`, before: undefined, after: newItem });
+    });
+    return changes;
+}
+
+export function diffRecordsForAudit(before: any, after: any): AuditFieldChange[] {
+    const changes: AuditFieldChange[] = [];
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(field => {
+        if (AUDIT_IGNORED_FIELDS.includes(field)) return;
+        if (field === 'items') {
+            changes.push(...diffListForAudit('Item', before.items || [], after.items || [], item => item.id || item.material, item => item.material));
+        } else if (field === 'dispatchedItems') {
+            changes.push(...diffListForAudit('Dispatched', before.dispatchedItems || [], after.dispatchedItems || [], item => item.lineId || item.material, item => item.material));
+        } else if (stableStringify(before[field]) !== stableStringify(after[field])) {
+            changes.push({ field, before: before[field], after: after[field] });
+        }
+    });
+    return changes;
+}
+
+function recordAuditEntry(
+    entity: AuditEntry['entity'],
+    record: PurchaseOrder | Dispatch,
+    action: AuditEntry['action'],
+    changes: AuditFieldChange[] = [],
+    note?: string
+): void {
+    auditLog.push({
+        id: `audit-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        entity,
+        recordId: record.id,
+        poId: entity === 'po' ? record.id : (record as Dispatch).poId,
+        action,
+        changes,
+        note,
+        at: new Date().toISOString(),
+        user: getActingUser()
+    });
+}
+
+// Until schema v3 these two notes were the only record of a revision, so migration v3 and
+// Data Health compare them word for word against the PO IDs rather than parsing them.
+function revisedFromNote(originalId: string): string {
+    return `Revised from cancelled PO ${originalId}.`;
+}
+
+function revisedIntoNote(revisedId: string): string {
+    return `Revised into new PO ${revisedId}.`;
+}
+
+// Whether the log says `revisedId` was created as a revision of `originalId`. A create note
+// can carry further sentences after the revision one.
+function auditLogNamesRevision(entries: AuditEntry[], revisedId: string, originalId: string): boolean {
+    const note = revisedFromNote(originalId);
+    return entries.some(entry => entry.entity === 'po' && entry.recordId === revisedId && entry.action === 'create'
+        && !!entry.note && (entry.note === note || entry.note.startsWith(`${note} `)));
+}
+
+function auditLogNamesRevisionOnOriginal(entries: AuditEntry[], originalId: string, revisedId: string): boolean {
+    return entries.some(entry => entry.entity === 'po' && entry.recordId === originalId && entry.action === 'revise'
+        && entry.note === revisedIntoNote(revisedId));
+}
+
+function describeAuditAction(entry: AuditEntry): string {
+    const subject = entry.entity === 'po' ? 'PO' : `Dispatch ${entry.recordId}`;
+    switch (entry.action) {
+        case 'create': return `${subject} created`;
+        case 'update': return `${subject} edited`;
+        case 'cancel': return `${subject} cancelled`;
+        case 'cancel-line': return `${subject} line cancelled`;
+        case 'short-close': return `${subject} short closed`;
+        case 'revise': return `${subject} revised`;
+        case 'void': return `${subject} voided`;
+        case 'repair': return `${subject} repaired`;
+        case 'submit': return `${subject} submitted for release`;
+        case 'approve': return `${subject} approved`;
+        case 'reject': return `${subject} rejected`;
+        default: return subject;
+    }
+}
+
+function renderPOTimelineHTML(poId: string): string {
+    const entries = auditLog
+        .filter(entry => entry.poId === poId)
+        .sort((a, b) => b.at.localeCompare(a.at));
+    if (entries.length === 0) {
+        return '<p>No recorded changes for this PO. Changes made before the history was introduced are not available.</p>';
+    }
+    return `
+        <ul class="audit-timeline">
+            ${entries.map(entry => `
+                <li>
+                    <div class="audit-timeline-heading">
+                        <strong>${escapeHTML(describeAuditAction(entry))}</strong>
+                        <span>${escapeHTML(formatToDDMMYY_HHMM(entry.at))} by ${escapeHTML(entry.user)}</span>
+                    </div>
+                    ${entry.note ? `<p>${escapeHTML(entry.note)}</p>` : ''}
+                    ${entry.changes.length > 0 ? `
+                        <table class="po-details-table">
+                            <thead><tr><th>Field</th><th>Before</th><th>After</th></tr></thead>
+                            <tbody>
+                                ${entry.changes.map(change => `
+                                    <tr>
+                                        <td>${escapeHTML(change.field)}</td>
+                                        <td>${escapeHTML(formatFieldValue(change.before))}</td>
+                                        <td>${escapeHTML(formatFieldValue(change.after))}</td>
+                                    </tr>`).join('')}
+                            </tbody>
+                        </table>` : ''}
+                </li>`).join('')}
+        </ul>
+    `;
+}
+
+// --- Delivery Sites ---
+// A PO is billed to one party but may be delivered to several sites, e.g. the towers of a
+// project. Each line is for one site, and each dispatch goes to one site.
+function describeDeliverySite(site: DeliverySite, index: number): string {
+    return site.name || site.destination || `Site ${index + 1}`;
+}
+
+export function nextDeliverySiteId(sites: DeliverySite[]): string {
+    const maxNumber = sites.reduce((max, site) => Math.max(max, parseInt(site.id.replace('site-', ''), 10) || 0), 0);
+    return `site-${maxNumber + 1}`;
+}
+
+function getDeliverySite(po: PurchaseOrder, siteId: string): DeliverySite | undefined {
+    return po.deliverySites.find(site => site.id === siteId);
+}
+
+// Site name for display, e.g. on a dispatch; empty when the PO has a single site.
+export function describePOSite(po: PurchaseOrder | undefined, siteId: string): string {
+    if (!po || po.deliverySites.length < 2) return '';
+    const index = po.deliverySites.findIndex(site => site.id === siteId);
+    return index > -1 ? describeDeliverySite(po.deliverySites[index], index) : siteId;
+}
+
+function getPODestinations(po: PurchaseOrder): string {
+    return Array.from(new Set(po.deliverySites.map(site => site.destination))).join(', ');
+}
+
+// Ordered, dispatched and pending quantity of each line, grouped by site. Only shown for multi-site POs.
+function renderSiteWisePendingHTML(po: PurchaseOrder, dispatchedByLine: { [lineId: string]: number }): string {
+    if (po.deliverySites.length < 2) return '';
+    return `
+        <h4>Site-wise Pending:</h4>
+        <div class="table-responsive-wrapper">
+        <table class="po-details-table">
+            <thead><tr><th>Site</th><th>Destination</th><th>Material</th><th>Ordered</th><th>Dispatched</th><th>Pending</th></tr></thead>
+            <tbody>
+            ${po.deliverySites.map((site, index) => {
+                const lines = po.items.filter(item => item.siteId === site.id);
+                if (lines.length === 0) {
+                    return `<tr><td>${escapeHTML(describeDeliverySite(site, index))}</td><td>${escapeHTML(site.destination)}</td><td colspan="4">No lines for this site.</td></tr>`;
+                }
+                return lines.map((item, i) => {
+                    const dispatchedQty = dispatchedByLine[item.id] || 0;
+                    const pendingQty = item.cancelled ? 0 : Math.max(0, item.quantity - dispatchedQty - getShortClosedQuantity(po, item.id));
+                    return `
+                    <tr>
+                        ${i === 0 ? `<td rowspan="${lines.length}">${escapeHTML(describeDeliverySite(site, index))}</td><td rowspan="${lines.length}">${escapeHTML(site.destination)}</td>` : ''}
+                        <td>${escapeHTML(describePOLine(po, item.id, item.material))}${item.cancelled ? ' <span class="badge badge-cancelled">Line Cancelled</span>' : ''}</td>
+                        <td class="text-right">${item.quantity.toFixed(2)} ${escapeHTML(item.unit)}</td>
+                        <td class="text-right">${dispatchedQty.toFixed(2)} ${escapeHTML(item.unit)}</td>
+                        <td class="text-right">${pendingQty.toFixed(2)} ${escapeHTML(item.unit)}</td>
+                    </tr>`;
+                }).join('');
+            }).join('')}
+            </tbody>
+        </table>
+        </div>`;
+}
+
+// --- Delivery Schedules ---
+// A line may promise its whole quantity on one date, or staged quantities on several dates.
+// Progress is read from the dispatch ledger: a slot is met on the day the line's running
+// dispatched total first reaches everything scheduled up to and including that slot.
+let scheduleReportFrom = '';
+let scheduleReportTo = '';
+
+interface ScheduleSlotStatus {
+    po: PurchaseOrder;
+    item: MaterialItem;
+    slot: DeliverySlot;
+    metOn: string | null; // YYYY-MM-DD the slot was met, or null while it is still open
+    daysLate: number; // Days past the slot date it was met, or is still open as of today
+    overdue: boolean; // Past its date and still open
+}
+
+function getTodayDateOnly(): string {
+    return toLocalDateOnly(new Date());
+}
+
+function daysBetweenDates(fromDate: string, toDate: string): number {
+    return Math.round((Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / 86400000);
+}
+
+// "2025-07-15" schedules the whole line on one date; "2025-07-01 = 40, 2025-07-15 = 60" stages it.
+// The last date may leave out its quantity to take whatever is left of the line.
+export function parseScheduleText(text: string, lineQuantity: number): DeliverySlot[] {
+    const slots: DeliverySlot[] = [];
+    const parts = text.split(/[,\n]/).map(part => part.trim()).filter(Boolean);
+    parts.forEach((part, index) => {
+        const match = /^(\d{4}-\d{2}-\d{2})\s*(?:=\s*([0-9]*\.?[0-9]+))?$/.exec(part);
+        if (!match || !isValidDateOnly(match[1])) throw new Error(`"${part}" is not in the form YYYY-MM-DD or YYYY-MM-DD = quantity.`);
+        const date = match[1];
+        const previous = slots[slots.length - 1];
+        if (previous && date <= previous.date) throw new Error(`${date} must come after ${previous.date}.`);
+        const scheduledSoFar = slots.reduce((sum, s) => sum + s.quantity, 0);
+        let quantity: number;
+        if (match[2] !== undefined) {
+            quantity = parseFloat(match[2]);
+        } else if (index === parts.length - 1) {
+            quantity = Math.round((lineQuantity - scheduledSoFar) * 100) / 100;
+            if (!(quantity > 0)) throw new Error(`Nothing is left of the line to deliver on ${date}.`);
+        } else {
+            throw new Error(`${date} needs a quantity; only the last date may take the rest of the line.`);
+        }
+        if (!(quantity > 0)) throw new Error(`The quantity for ${date} must be more than zero.`);
+        slots.push({ date, quantity });
+    });
+    const total = slots.reduce((sum, s) => sum + s.quantity, 0);
+    if (total > lineQuantity + 0.005) throw new Error(`The schedule adds up to ${total.toFixed(2)} but the line is for ${lineQuantity.toFixed(2)}.`);
+    return slots;
+}
+
+function formatScheduleText(schedule: DeliverySlot[], lineQuantity: number): string {
+    if (schedule.length === 1 && Math.abs(schedule[0].quantity - lineQuantity) < 0.005) return schedule[0].date;
+    return schedule.map(s => `${s.date} = ${s.quantity}`).join(', ');
+}
+
+export function getScheduleSlotStatuses(po: PurchaseOrder, asOf: string = getTodayDateOnly()): ScheduleSlotStatus[] {
+    const ledger = dispatches
+        .filter(d => d.poId === po.id && !d.voided)
+        .sort((a, b) => new Date(a.dispatchedAt).getTime() - new Date(b.dispatchedAt).getTime());
+    // Closed orders are never overdue, whatever their schedule said
+    const open = !isPOClosed(po);
+    const statuses: ScheduleSlotStatus[] = [];
+    po.items.forEach(item => {
+        const progress: { date: string; total: number }[] = [];
+        let dispatchedTotal = 0;
+        ledger.forEach(d => d.dispatchedItems.filter(di => di.lineId === item.id).forEach(di => {
+            dispatchedTotal += di.lineQuantity;
+            progress.push({ date: d.dispatchedAt.substring(0, 10), total: dispatchedTotal });
+        }));
+        let scheduledTotal = 0;
+        item.schedule.forEach(slot => {
+            scheduledTotal += slot.quantity;
+            const met = progress.find(p => p.total >= scheduledTotal - 0.005);
+            const metOn = met ? met.date : null;
+            statuses.push({
+                po,
+                item,
+                slot,
+                metOn,
+                daysLate: metOn || (open && !item.cancelled) ? Math.max(0, daysBetweenDates(slot.date, metOn || asOf)) : 0,
+                overdue: open && !item.cancelled && !metOn && slot.date < asOf
+            });
+        });
+    });
+    return statuses;
+}
+
+function isPOOverdue(po: PurchaseOrder): boolean {
+    return getScheduleSlotStatuses(po).some(s => s.overdue);
+}
+
+// Earliest date among the slots still open, if any.
+function getNextDueDate(po: PurchaseOrder): string | undefined {
+    if (isPOClosed(po)) return undefined;
+    return getScheduleSlotStatuses(po)
+        .filter(s => !s.metOn)
+        .map(s => s.slot.date)
+        .sort()[0];
+}
+
+function describeScheduleSlotStatus(status: ScheduleSlotStatus): string {
+    if (status.metOn) return status.daysLate > 0 ? 'Late' : 'On Time';
+    if (isPOClosed(status.po)) return 'Closed';
+    return status.overdue ? 'Overdue' : 'Open';
+}
+
+function renderLineScheduleHTML(po: PurchaseOrder, item: MaterialItem): string {
+    const statuses = getScheduleSlotStatuses(po).filter(s => s.item.id === item.id);
+    if (statuses.length === 0) return '';
+    return `<br><small>Due: ${statuses.map(s => {
+        const label = `${escapeHTML(formatToDDMMYY(s.slot.date))} (${s.slot.quantity.toFixed(2)})`;
+        return s.overdue ? `<span class="text-danger">${label}, ${s.daysLate}d overdue</span>` : label;
+    }).join(', ')}</small>`;
+}
+
+function findScheduleSlotsInPeriod(fromDate: string, toDate: string): ScheduleSlotStatus[] {
+    const asOf = getTodayDateOnly();
+    return purchaseOrders
+        .filter(po => po.status !== 'Cancelled')
+        .flatMap(po => getScheduleSlotStatuses(po, asOf))
+        .filter(s => (!fromDate || s.slot.date >= fromDate) && (!toDate || s.slot.date <= toDate))
+        .sort((a, b) => a.slot.date.localeCompare(b.slot.date) || a.po.id.localeCompare(b.po.id));
+}
+
+function downloadScheduleReportCSV(rows: ScheduleSlotStatus[]): void {
+    if (rows.length === 0) {
+        alert('No scheduled deliveries to download.');
+        return;
+    }
+    const headers = ["PO ID", "Party Name", "Material", "Scheduled Date", "Scheduled Quantity", "Unit", "Delivered On", "Days Late", "Status"];
+    const csvRows = [headers.map(header => escapeCSVField(header)).join(',')];
+    rows.forEach(row => {
+        csvRows.push([
+            escapeCSVField(row.po.id),
+            escapeCSVField(row.po.partyName),
+            escapeCSVField(row.item.material),
+            escapeCSVField(formatToDDMMYY(row.slot.date)),
+            escapeCSVField(row.slot.quantity.toFixed(2)),
+            escapeCSVField(row.item.unit),
+            escapeCSVField(row.metOn ? formatToDDMMYY(row.metOn) : ''),
+            escapeCSVField(row.daysLate.toString()),
+            escapeCSVField(describeScheduleSlotStatus(row))
+        ].join(','));
+    });
+
+    const blob = new Blob([csvRows.join('\n')], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
-    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
-    link.setAttribute('download', `salesman_dispatch_summary_${today}.csv`);
+    link.setAttribute('download', `delivery_schedule_${(scheduleReportFrom || 'all').replace(/-/g, '')}_to_${(scheduleReportTo || 'all').replace(/-/g, '')}.csv`);
     link.href = URL.createObjectURL(blob);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
@@ -1633,19 +4551,187 @@ function downloadSalesmanSummaryCSV(summaryData: { [salesmanName: string]: numbe
     URL.revokeObjectURL(link.href);
 }
 
-function downloadPartySummaryCSV(summaryData: { [partyName: string]: number }): void {
-    const sortedEntries = Object.entries(summaryData).sort((a, b) => b[1] - a[1]);
+function renderDeliveryScheduleView(): void {
+    if (!scheduleReportFrom && !scheduleReportTo) {
+        const today = getTodayDateOnly();
+        scheduleReportFrom = `${today.substring(0, 8)}01`;
+        scheduleReportTo = today;
+    }
+    const rows = findScheduleSlotsInPeriod(scheduleReportFrom, scheduleReportTo);
+    const countOf = (status: string) => rows.filter(r => describeScheduleSlotStatus(r) === status).length;
+    const lateRows = rows.filter(r => r.metOn && r.daysLate > 0);
+    const averageDelay = lateRows.length > 0 ? lateRows.reduce((sum, r) => sum + r.daysLate, 0) / lateRows.length : 0;
+
+    mainContent.innerHTML = `
+        <div class="list-container">
+            <h2>Delivery Schedule vs Actual</h2>
+            <div class="dispatch-filter-controls" style="display: flex; flex-wrap: wrap; align-items: flex-end; gap: 15px; margin-bottom: 20px;">
+                <div class="form-group" style="margin-bottom: 0;">
+                    <label for="scheduleFrom">Scheduled From:</label>
+                    <input type="date" id="scheduleFrom" value="${escapeHTML(scheduleReportFrom)}">
+                </div>
+                <div class="form-group" style="margin-bottom: 0;">
+                    <label for="scheduleTo">Scheduled To:</label>
+                    <input type="date" id="scheduleTo" value="${escapeHTML(scheduleReportTo)}">
+                </div>
+                <button type="button" id="schedule-filter" class="primary">Show</button>
+            </div>
+            ${rows.length === 0 ? '<p>No deliveries scheduled in this period.</p>' : `
+            <p>${rows.length} scheduled deliveries: ${countOf('On Time')} on time, ${countOf('Late')} late, ${countOf('Overdue')} overdue, ${countOf('Open')} not yet due.
+                ${lateRows.length > 0 ? `Late deliveries arrived ${averageDelay.toFixed(1)} days late on average.` : ''}</p>
+            <div class="table-responsive-wrapper">
+            <table aria-label="Delivery schedule vs actual">
+                <thead>
+                    <tr><th>PO ID</th><th>Party</th><th>Material</th><th>Scheduled</th><th class="text-right">Qty</th><th>Delivered On</th><th class="text-right">Days Late</th><th>Status</th></tr>
+                </thead>
+                <tbody>
+                    ${rows.map(row => `
+                        <tr>
+                            <td><a href="#" onclick="window.showPODetailsModalWrapper('${escapeHTML(row.po.id)}'); return false;">${escapeHTML(row.po.id)}</a></td>
+                            <td>${escapeHTML(row.po.partyName)}</td>
+                            <td>${escapeHTML(row.item.material)}</td>
+                            <td>${escapeHTML(formatToDDMMYY(row.slot.date))}</td>
+                            <td class="text-right">${row.slot.quantity.toFixed(2)} ${escapeHTML(row.item.unit)}</td>
+                            <td>${row.metOn ? escapeHTML(formatToDDMMYY(row.metOn)) : '—'}</td>
+                            <td class="text-right ${row.daysLate > 0 ? 'text-danger' : ''}">${row.daysLate}</td>
+                            <td>${row.overdue ? '<span class="badge badge-overdue">Overdue</span>' : escapeHTML(describeScheduleSlotStatus(row))}</td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>
+            </div>
+            <div style="text-align: right; margin-top: 10px;">
+                <button type="button" id="download-schedule-csv" class="secondary small">Download Report (CSV)</button>
+            </div>`}
+        </div>
+    ` + getPODetailsModalHTML() + getEditDispatchModalHTML() + getPrintDispatchModalHTML();
+
+    document.getElementById('schedule-filter')?.addEventListener('click', () => {
+        scheduleReportFrom = (document.getElementById('scheduleFrom') as HTMLInputElement).value;
+        scheduleReportTo = (document.getElementById('scheduleTo') as HTMLInputElement).value;
+        renderDeliveryScheduleView();
+    });
+    document.getElementById('download-schedule-csv')?.addEventListener('click', () => downloadScheduleReportCSV(rows));
+}
+
+// --- Dispatch Log ---
+interface DisplayDispatchLine {
+    dispatchId: string;
+    poId: string;
+    partyName: string;
+    salesmanName: string;
+    dispatchedAt: string;
+    originalDispatchedAtISO: string;
+    invoiceNumber?: string;
+    vehicleNumber: string;
+    driverContact?: string;
+    materialName: string;
+    quantityDispatched: number;
+    unit: string;
+    transporterName?: string;
+    placeOfSupply: string;
+    taxableAmount: number;
+    cgstAmount: number;
+    sgstAmount: number;
+    igstAmount: number;
+    itemTotalAmount: number;
+    destination: string;
+    voided: boolean;
+}
+
+function downloadDispatchLogAsCSV(linesToDownload: DisplayDispatchLine[]): void {
+    if (linesToDownload.length === 0) {
+        alert('No dispatch data to download.');
+        return;
+    }
+
+    const headers = [
+        "Dispatch ID", "PO ID", "Party Name", "Salesman", "Date", "Invoice No.",
+        "Vehicle No.", "Driver Contact", "Item Name", "Quantity", "Unit",
+        "Transporter", "Destination", "Place of Supply", "Taxable Amt. (₹)",
+        "CGST (₹)", "SGST (₹)", "IGST (₹)", "Item Line Amt. (₹)"
+    ];
+
+    const csvRows = [
+        headers.map(header => escapeCSVField(header)).join(',')
+    ];
+
+    const sortedLinesToDownload = [...linesToDownload].sort((a,b) =>
+        new Date(b.originalDispatchedAtISO).getTime() - new Date(a.originalDispatchedAtISO).getTime()
+    );
+
+
+    sortedLinesToDownload.forEach(line => {
+        const row = [
+            escapeCSVField(line.dispatchId),
+            escapeCSVField(line.poId),
+            escapeCSVField(line.partyName),
+            escapeCSVField(line.salesmanName),
+            escapeCSVField(line.dispatchedAt),
+            escapeCSVField(line.invoiceNumber),
+            escapeCSVField(line.vehicleNumber),
+            escapeCSVField(line.driverContact),
+            escapeCSVField(line.materialName),
+            escapeCSVField(line.quantityDispatched.toFixed(2)),
+            escapeCSVField(line.unit),
+            escapeCSVField(line.transporterName),
+            escapeCSVField(line.destination),
+            escapeCSVField(line.placeOfSupply),
+            escapeCSVField(line.taxableAmount.toFixed(2)),
+            escapeCSVField(line.cgstAmount.toFixed(2)),
+            escapeCSVField(line.sgstAmount.toFixed(2)),
+            escapeCSVField(line.igstAmount.toFixed(2)),
+            escapeCSVField(line.itemTotalAmount.toFixed(2))
+        ];
+        csvRows.push(row.join(','));
+    });
+
+    const csvString = csvRows.join('\n');
+    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+
+    if (link.download !== undefined) {
+        const url = URL.createObjectURL(blob);
+        link.setAttribute('href', url);
+        const today = new Date().toISOString().split('T')[0].replace(/-/g,'');
+        const filterStart = dispatchFilterStartDate ? dispatchFilterStartDate.replace(/-/g,'') : 'all';
+        const filterEnd = dispatchFilterEndDate ? dispatchFilterEndDate.replace(/-/g,'') : 'all';
+
+        link.setAttribute('download', `dispatch_log_${filterStart}_to_${filterEnd}_${today}.csv`);
+        link.style.visibility = 'hidden';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    } else {
+        alert('CSV download is not supported by your browser.');
+    }
+}
+
+// Dispatched quantity per name (material, salesman or party), kept apart per unit.
+type DispatchQuantitySummary = { [name: string]: UnitTotals };
+
+function flattenDispatchQuantitySummary(summary: DispatchQuantitySummary): [string, string, number][] {
+    const rows: [string, string, number][] = [];
+    Object.keys(summary).sort().forEach(name => {
+        Object.keys(summary[name]).sort().forEach(unit => rows.push([name, unit, summary[name][unit]]));
+    });
+    return rows;
+}
+
+function downloadItemSummaryCSV(summaryData: DispatchQuantitySummary): void {
+    const sortedEntries = flattenDispatchQuantitySummary(summaryData);
     if (sortedEntries.length === 0) {
-        alert('No party summary data to download.');
+        alert('No item summary data to download.');
         return;
     }
 
-    const headers = ["Party Name", "Total Quantity Dispatched"];
+    const headers = ["Material Name", "Unit", "Total Quantity Dispatched"];
     const csvRows = [headers.map(header => escapeCSVField(header)).join(',')];
 
-    sortedEntries.forEach(([party, quantity]) => {
+    sortedEntries.forEach(([material, unit, quantity]) => {
         const row = [
-            escapeCSVField(party),
+            escapeCSVField(material),
+            escapeCSVField(unit),
             escapeCSVField(quantity.toFixed(2))
         ];
         csvRows.push(row.join(','));
@@ -1655,7 +4741,7 @@ function downloadPartySummaryCSV(summaryData: { [partyName: string]: number }):
     const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
-    link.setAttribute('download', `party_dispatch_summary_${today}.csv`);
+    link.setAttribute('download', `item_dispatch_summary_${today}.csv`);
     link.href = URL.createObjectURL(blob);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
@@ -1664,276 +4750,3152 @@ function downloadPartySummaryCSV(summaryData: { [partyName: string]: number }):
     URL.revokeObjectURL(link.href);
 }
 
+function downloadSalesmanSummaryCSV(summaryData: DispatchQuantitySummary): void {
+    const sortedEntries = flattenDispatchQuantitySummary(summaryData);
+    if (sortedEntries.length === 0) {
+        alert('No salesman summary data to download.');
+        return;
+    }
 
-function renderDispatchList(): void {
+    const headers = ["Salesman Name", "Unit", "Total Quantity Dispatched"];
+    const csvRows = [headers.map(header => escapeCSVField(header)).join(',')];
+
+    sortedEntries.forEach(([salesman, unit, quantity]) => {
+        const row = [
+            escapeCSVField(salesman),
+            escapeCSVField(unit),
+            escapeCSVField(quantity.toFixed(2))
+        ];
+        csvRows.push(row.join(','));
+    });
+
+    const csvString = csvRows.join('\n');
+    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    link.setAttribute('download', `salesman_dispatch_summary_${today}.csv`);
+    link.href = URL.createObjectURL(blob);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+}
+
+function downloadPartySummaryCSV(summaryData: DispatchQuantitySummary): void {
+    const sortedEntries = flattenDispatchQuantitySummary(summaryData);
+    if (sortedEntries.length === 0) {
+        alert('No party summary data to download.');
+        return;
+    }
+
+    const headers = ["Party Name", "Unit", "Total Quantity Dispatched"];
+    const csvRows = [headers.map(header => escapeCSVField(header)).join(',')];
+
+    sortedEntries.forEach(([party, unit, quantity]) => {
+        const row = [
+            escapeCSVField(party),
+            escapeCSVField(unit),
+            escapeCSVField(quantity.toFixed(2))
+        ];
+        csvRows.push(row.join(','));
+    });
+
+    const csvString = csvRows.join('\n');
+    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    link.setAttribute('download', `party_dispatch_summary_${today}.csv`);
+    link.href = URL.createObjectURL(blob);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+}
+
+
+function renderDispatchList(): void {
     let filteredDispatches = [...dispatches];
 
     if (dispatchFilterStartDate || dispatchFilterEndDate) {
         const filterStart = dispatchFilterStartDate ? new Date(dispatchFilterStartDate + "T00:00:00.000Z") : null;
         const filterEnd = dispatchFilterEndDate ? new Date(dispatchFilterEndDate + "T23:59:59.999Z") : null;
 
-        filteredDispatches = dispatches.filter(dispatch => {
-            const dispatchDate = new Date(dispatch.dispatchedAt);
-            let satisfiesStart = true;
-            if (filterStart) {
-                satisfiesStart = dispatchDate >= filterStart;
+        filteredDispatches = dispatches.filter(dispatch => {
+            const dispatchDate = new Date(dispatch.dispatchedAt);
+            let satisfiesStart = true;
+            if (filterStart) {
+                satisfiesStart = dispatchDate >= filterStart;
+            }
+            let satisfiesEnd = true;
+            if (filterEnd) {
+                satisfiesEnd = dispatchDate <= filterEnd;
+            }
+            return satisfiesStart && satisfiesEnd;
+        });
+    }
+
+    filteredDispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
+
+    const displayLines: DisplayDispatchLine[] = [];
+    const overallTotals: UnitTotals = {};
+    const itemDispatchSummary: DispatchQuantitySummary = {};
+    const salesmanDispatchSummary: DispatchQuantitySummary = {};
+    const partyDispatchSummary: DispatchQuantitySummary = {};
+
+
+    filteredDispatches.forEach(dispatch => {
+        const po = purchaseOrders.find(p => p.id === dispatch.poId);
+
+        // If PO is cancelled, skip its dispatches from the log and summaries
+        if (po && po.status === 'Cancelled') {
+            return; // Skip to the next dispatch
+        }
+
+        let partyName = 'N/A (PO Data Missing)';
+        let destination = 'N/A';
+        let salesmanName = 'N/A';
+
+        // Dispatches whose PO is missing are listed here and reported on the Data Health screen
+        if (po) {
+            partyName = po.partyName;
+            destination = getDeliverySite(po, dispatch.siteId)?.destination || getPODestinations(po);
+            salesmanName = po.salesmanName || 'N/A';
+        }
+
+
+        dispatch.dispatchedItems.forEach(dispItem => {
+            const materialKey = dispItem.material.toUpperCase();
+            // Voided dispatches are listed but count towards no total or summary
+            // Bags and tonnes of one material are added in its base unit; different units are never added together.
+            if (!dispatch.voided) {
+                const base = toBaseUnit(materialKey, dispItem.quantity, dispItem.unit);
+                addToUnitTotals(overallTotals, base.quantity, base.unit);
+                addToUnitTotals(itemDispatchSummary[materialKey] = itemDispatchSummary[materialKey] || {}, base.quantity, base.unit);
+
+                if (salesmanName !== 'N/A' && salesmanName !== 'N/A (PO Data Missing)') {
+                     addToUnitTotals(salesmanDispatchSummary[salesmanName] = salesmanDispatchSummary[salesmanName] || {}, base.quantity, base.unit);
+                }
+                if (partyName !== 'N/A' && partyName !== 'N/A (PO Data Missing)') {
+                     addToUnitTotals(partyDispatchSummary[partyName] = partyDispatchSummary[partyName] || {}, base.quantity, base.unit);
+                }
+            }
+
+
+            let lineTax: LineTax = { taxable: 0, cgst: 0, sgst: 0, igst: 0, gst: 0, total: 0 };
+            if (po) {
+                const poItem = po.items.find(i => i.id === dispItem.lineId);
+                if (poItem) {
+                    lineTax = computeLineTax(dispItem.lineQuantity, getNetRate(poItem, po.cashDiscountPercentage), poItem.gstPercentage, isPOInterState(po));
+                }
+            }
+
+            displayLines.push({
+                dispatchId: dispatch.id,
+                poId: dispatch.poId,
+                partyName: partyName,
+                salesmanName: salesmanName,
+                dispatchedAt: formatToDDMMYY(dispatch.dispatchedAt),
+                originalDispatchedAtISO: dispatch.dispatchedAt,
+                invoiceNumber: dispatch.invoiceNumber,
+                vehicleNumber: dispatch.vehicleNumber,
+                driverContact: dispatch.driverContact,
+                materialName: describePOLine(po, dispItem.lineId, dispItem.material),
+                quantityDispatched: dispItem.quantity,
+                unit: dispItem.unit,
+                transporterName: dispatch.transporterName,
+                placeOfSupply: po ? describeStateCode(po.placeOfSupplyStateCode) : 'N/A',
+                taxableAmount: lineTax.taxable,
+                cgstAmount: lineTax.cgst,
+                sgstAmount: lineTax.sgst,
+                igstAmount: lineTax.igst,
+                itemTotalAmount: lineTax.total,
+                destination: destination,
+                voided: !!dispatch.voided,
+            });
+        });
+    });
+
+    const activeLines = displayLines.filter(line => !line.voided);
+    const voidedLineCount = displayLines.length - activeLines.length;
+    let content = `<div class="list-container"><h2>Dispatch Log (${activeLines.length} item lines${voidedLineCount > 0 ? `, ${voidedLineCount} voided` : ''})</h2>`;
+
+    content += `
+        <div class="dispatch-filter-controls" style="display: flex; flex-wrap: wrap; align-items: flex-end; gap: 15px; margin-bottom: 20px; padding: 15px; background-color: #f8f9fa; border-radius: 5px; box-shadow: 0 2px 4px rgba(0,0,0,0.05);">
+            <div class="form-group" style="margin-bottom: 0;">
+                <label for="filterStartDate">From Date:</label>
+                <input type="date" id="filterStartDate" name="filterStartDate" value="${escapeHTML(dispatchFilterStartDate)}" aria-label="Filter start date">
+            </div>
+            <div class="form-group" style="margin-bottom: 0;">
+                <label for="filterEndDate">To Date:</label>
+                <input type="date" id="filterEndDate" name="filterEndDate" value="${escapeHTML(dispatchFilterEndDate)}" aria-label="Filter end date">
+            </div>
+            <button id="filterDispatchButton" class="primary" type="button">Filter</button>
+            <button id="clearDispatchFilterButton" class="secondary" type="button">Clear Filters</button>
+        </div>
+    `;
+
+    if (displayLines.length === 0) {
+        content += '<p>No dispatches recorded for the selected criteria, or all relevant dispatches belong to cancelled POs.</p>';
+    } else {
+        content += `
+            <div class="table-responsive-wrapper">
+            <table aria-label="Dispatch Log">
+                <thead>
+                    <tr>
+                        <th>Dispatch ID</th>
+                        <th>PO ID</th>
+                        <th>Date</th>
+                        <th>Item Name</th>
+                        <th class="text-right">Quantity</th>
+                        <th>Vehicle No.</th>
+                        <th>Actions</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${displayLines.map(line => `
+                        <tr class="${line.voided ? 'voided-row' : ''}">
+                            <td>${escapeHTML(line.dispatchId)}${line.voided ? ` <span class="badge badge-cancelled">Voided</span>` : ''}</td>
+                            <td><a href="#" onclick="window.showPODetailsModalWrapper('${escapeHTML(line.poId)}'); return false;" aria-label="View details for PO ${escapeHTML(line.poId)}">${escapeHTML(line.poId)}</a></td>
+                            <td>${escapeHTML(line.dispatchedAt)}</td>
+                            <td>${escapeHTML(line.materialName)}</td>
+                            <td class="text-right">${line.quantityDispatched.toFixed(2)} ${escapeHTML(line.unit)}</td>
+                            <td>${escapeHTML(line.vehicleNumber)}</td>
+                            <td>
+                                ${!line.voided ? `<button class="secondary small" onclick="window.showPrintDispatchModal('${escapeHTML(line.dispatchId)}')" aria-label="Print dispatch ${escapeHTML(line.dispatchId)}">Print</button>` : ''}
+                                ${purchaseOrders.find(p => p.id === line.poId)?.status !== 'Cancelled' && purchaseOrders.find(p => p.id === line.poId)?.status !== 'Short Closed' && !line.voided ? `<button class="info small" onclick="window.showEditDispatchModal('${escapeHTML(line.dispatchId)}')" aria-label="Edit dispatch ${escapeHTML(line.dispatchId)}">Edit</button>
+                                <button class="danger small" onclick="window.promptVoidDispatch('${escapeHTML(line.dispatchId)}')" aria-label="Void dispatch ${escapeHTML(line.dispatchId)}">Void</button>`: line.voided ? 'N/A' : ''}
+                            </td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+                <tfoot>
+                    <tr>
+                        <td colspan="4" style="text-align: right; font-weight: bold;">Total Dispatched Quantity:</td>
+                        <td style="font-weight: bold;" class="text-right">${escapeHTML(formatUnitTotals(overallTotals))}</td>
+                        <td colspan="2"></td>
+                    </tr>
+                </tfoot>
+            </table>
+            </div>
+             <p style="font-size: 0.9em; margin-top: 10px;">For full dispatch details (Party, Salesman, Invoice etc.), click PO ID then view dispatches, or use Excel download.</p>
+            <div style="text-align: right; margin-top: 20px;">
+                <button id="download-dispatch-csv" class="secondary" aria-label="Download Dispatch Log as CSV">Download Full Log as Excel (CSV)</button>
+            </div>
+        `;
+
+        content += `<div class="dispatch-summary-container">`;
+        content += `
+            <div class="summary-table-wrapper">
+                <h3>Item-wise Dispatch Summary</h3>
+        `;
+        if (Object.keys(itemDispatchSummary).length > 0) {
+            content += `
+                <div class="table-responsive-wrapper">
+                <table aria-label="Item-wise Dispatch Summary">
+                    <thead><tr><th>Material Name</th><th class="text-right">Total Quantity Dispatched</th><th>Unit</th></tr></thead>
+                    <tbody>
+                        ${flattenDispatchQuantitySummary(itemDispatchSummary).map(([material, unit, quantity]) => `
+                            <tr><td>${escapeHTML(material)}</td><td class="text-right">${quantity.toFixed(2)}</td><td>${escapeHTML(unit)}</td></tr>`).join('')}
+                    </tbody>
+                </table>
+                </div>
+                <div style="text-align: right; margin-top: 10px;">
+                    <button id="download-item-summary-csv" class="secondary small" aria-label="Download Item Summary as CSV">Download Item Summary (CSV)</button>
+                </div>`;
+        } else {
+            content += `<p>No item dispatch data to summarize for the selected criteria.</p>`;
+        }
+        content += `</div>`;
+
+        content += `
+            <div class="summary-table-wrapper">
+                <h3>Salesman-wise Dispatch Summary</h3>
+        `;
+        if (Object.keys(salesmanDispatchSummary).length > 0) {
+            content += `
+                <div class="table-responsive-wrapper">
+                <table aria-label="Salesman-wise Dispatch Summary">
+                    <thead><tr><th>Salesman Name</th><th class="text-right">Total Quantity Dispatched</th><th>Unit</th></tr></thead>
+                    <tbody>
+                        ${flattenDispatchQuantitySummary(salesmanDispatchSummary).map(([salesman, unit, quantity]) => `
+                            <tr><td>${escapeHTML(salesman)}</td><td class="text-right">${quantity.toFixed(2)}</td><td>${escapeHTML(unit)}</td></tr>`).join('')}
+                    </tbody>
+                </table>
+                </div>
+                <div style="text-align: right; margin-top: 10px;">
+                    <button id="download-salesman-summary-csv" class="secondary small" aria-label="Download Salesman Summary as CSV">Download Salesman Summary (CSV)</button>
+                </div>`;
+        } else {
+            content += `<p>No salesman dispatch data to summarize for the selected criteria.</p>`;
+        }
+        content += `</div>`;
+
+        content += `
+            <div class="summary-table-wrapper">
+                <h3>Party-wise Dispatch Summary</h3>
+        `;
+        if (Object.keys(partyDispatchSummary).length > 0) {
+            content += `
+                <div class="table-responsive-wrapper">
+                <table aria-label="Party-wise Dispatch Summary">
+                    <thead><tr><th>Party Name</th><th class="text-right">Total Quantity Dispatched</th><th>Unit</th></tr></thead>
+                    <tbody>
+                        ${flattenDispatchQuantitySummary(partyDispatchSummary).map(([party, unit, quantity]) => `
+                            <tr><td>${escapeHTML(party)}</td><td class="text-right">${quantity.toFixed(2)}</td><td>${escapeHTML(unit)}</td></tr>`).join('')}
+                    </tbody>
+                </table>
+                </div>
+                <div style="text-align: right; margin-top: 10px;">
+                    <button id="download-party-summary-csv" class="secondary small" aria-label="Download Party Summary as CSV">Download Party Summary (CSV)</button>
+                </div>`;
+        } else {
+            content += `<p>No party dispatch data to summarize for the selected criteria.</p>`;
+        }
+        content += `</div>`;
+
+        content += `</div>`;
+    }
+    content += `</div>`;
+    content += getPODetailsModalHTML() + getEditDispatchModalHTML() + getPrintDispatchModalHTML();
+    mainContent.innerHTML = content;
+
+    document.getElementById('filterDispatchButton')?.addEventListener('click', () => {
+        dispatchFilterStartDate = (document.getElementById('filterStartDate') as HTMLInputElement).value;
+        dispatchFilterEndDate = (document.getElementById('filterEndDate') as HTMLInputElement).value;
+        saveData();
+        renderDispatchList();
+    });
+
+    document.getElementById('clearDispatchFilterButton')?.addEventListener('click', () => {
+        dispatchFilterStartDate = '';
+        dispatchFilterEndDate = '';
+        (document.getElementById('filterStartDate') as HTMLInputElement).value = '';
+        (document.getElementById('filterEndDate') as HTMLInputElement).value = '';
+        saveData();
+        renderDispatchList();
+    });
+
+    if (displayLines.length > 0) {
+        document.getElementById('download-dispatch-csv')?.addEventListener('click', () => {
+            downloadDispatchLogAsCSV(activeLines);
+        });
+    }
+    if (Object.keys(itemDispatchSummary).length > 0) {
+        document.getElementById('download-item-summary-csv')?.addEventListener('click', () => {
+            downloadItemSummaryCSV(itemDispatchSummary);
+        });
+    }
+    if (Object.keys(salesmanDispatchSummary).length > 0) {
+        document.getElementById('download-salesman-summary-csv')?.addEventListener('click', () => {
+            downloadSalesmanSummaryCSV(salesmanDispatchSummary);
+        });
+    }
+    if (Object.keys(partyDispatchSummary).length > 0) {
+        document.getElementById('download-party-summary-csv')?.addEventListener('click', () => {
+            downloadPartySummaryCSV(partyDispatchSummary);
+        });
+    }
+}
+
+// --- Material Master ---
+// Every product offered on PO lines. PO lines keep the material name as text, so renaming
+// or merging a material rewrites the name on existing POs and dispatches too.
+const HSN_CODE_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+let editingMaterialCode: string | null = null;
+
+function findMaterialByName(name: string): Material | undefined {
+    const key = name.trim().toUpperCase();
+    return materialMaster.find(m => m.name === key);
+}
+
+export function nextMaterialCode(existing: Material[]): string {
+    const maxNumber = existing.reduce((max, m) => {
+        const match = /^M(\d+)$/.exec(m.code);
+        return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0);
+    return `M${(maxNumber + 1).toString().padStart(3, '0')}`;
+}
+
+// --- Units of Measure ---
+// Each material has a base unit and optional alternate units with a factor to the base unit.
+// Quantities are only ever added up within one unit, converting through the base unit where
+// the material master knows how.
+const COMMON_UNITS = ['NOS', 'BAG', 'KG', 'TONNE'];
+type UnitTotals = { [unit: string]: number };
+
+// Base units in one `unit` of the material, or null if the master can't convert it.
+function getUnitFactor(materialName: string, unit: string): number | null {
+    const material = findMaterialByName(materialName);
+    if (!material) return null;
+    if (material.unit === unit) return 1;
+    const alternate = material.alternateUnits.find(u => u.unit === unit);
+    return alternate ? alternate.factor : null;
+}
+
+export function convertQuantity(materialName: string, quantity: number, fromUnit: string, toUnit: string): number | null {
+    if (fromUnit === toUnit) return quantity;
+    const fromFactor = getUnitFactor(materialName, fromUnit);
+    const toFactor = getUnitFactor(materialName, toUnit);
+    return fromFactor === null || toFactor === null ? null : (quantity * fromFactor) / toFactor;
+}
+
+// Units a quantity of the material can be entered in when it has to end up in `unit`.
+export function getConvertibleUnits(materialName: string, unit: string): string[] {
+    const material = findMaterialByName(materialName);
+    const units = material ? [material.unit, ...material.alternateUnits.map(u => u.unit)] : [];
+    return units.includes(unit) ? units : [unit];
+}
+
+// For reports: the quantity in the material's base unit when it can be converted, else as recorded.
+export function toBaseUnit(materialName: string, quantity: number, unit: string): { quantity: number; unit: string } {
+    const material = findMaterialByName(materialName);
+    const converted = material ? convertQuantity(materialName, quantity, unit, material.unit) : null;
+    return converted === null ? { quantity, unit } : { quantity: converted, unit: material!.unit };
+}
+
+function addToUnitTotals(totals: UnitTotals, quantity: number, unit: string): void {
+    totals[unit] = (totals[unit] || 0) + quantity;
+}
+
+function formatUnitTotals(totals: UnitTotals): string {
+    const units = Object.keys(totals).sort();
+    return units.length === 0 ? '0.00' : units.map(unit => `${totals[unit].toFixed(2)} ${unit}`).join(', ');
+}
+
+// "TONNE = 25, KG = 0.025" <-> alternate units. Throws with a readable message on bad input.
+function parseAlternateUnitsText(text: string, baseUnit: string): UnitConversion[] {
+    const conversions: UnitConversion[] = [];
+    text.split(/[,\n]/).map(part => part.trim()).filter(Boolean).forEach(part => {
+        const match = /^([A-Z0-9 .]+?)\s*=\s*([0-9]*\.?[0-9]+)$/i.exec(part);
+        if (!match) throw new Error(`"${part}" is not in the form UNIT = factor.`);
+        const unit = match[1].trim().toUpperCase();
+        const factor = parseFloat(match[2]);
+        if (!(factor > 0)) throw new Error(`The factor for ${unit} must be more than zero.`);
+        if (unit === baseUnit || conversions.some(c => c.unit === unit)) throw new Error(`${unit} is listed more than once.`);
+        conversions.push({ unit, factor });
+    });
+    return conversions;
+}
+
+function formatAlternateUnitsText(conversions: UnitConversion[]): string {
+    return conversions.map(c => `${c.unit} = ${c.factor}`).join(', ');
+}
+
+// Names typed on a PO that aren't in the master are only added when the user agrees,
+// so a typo doesn't quietly become a permanent material.
+function offerToAddUnknownMaterials(items: MaterialItem[]): void {
+    const unknown = items.filter((item, index) =>
+        !findMaterialByName(item.material) && items.findIndex(i => i.material === item.material) === index);
+    if (unknown.length === 0) return;
+    if (!confirm(`These materials are not in the material master:\n${unknown.map(i => i.material).join('\n')}\n\nAdd them to the master? Choose Cancel to keep them on this PO only.`)) return;
+    unknown.forEach(item => {
+        materialMaster.push({
+            code: nextMaterialCode(materialMaster),
+            name: item.material.toUpperCase(),
+            unit: item.unit,
+            alternateUnits: [],
+            hsnCode: '',
+            defaultGstPercentage: item.gstPercentage,
+            defaultRate: item.rate,
+            active: true
+        });
+    });
+}
+
+function countMaterialUsage(name: string): { poCount: number; dispatchCount: number } {
+    const key = name.toUpperCase();
+    return {
+        poCount: purchaseOrders.filter(po => po.items.some(item => item.material.toUpperCase() === key)).length,
+        dispatchCount: dispatches.filter(d => d.dispatchedItems.some(item => item.material.toUpperCase() === key)).length
+    };
+}
+
+// Material names used on POs or dispatches, whether or not they are in the master.
+function getMaterialNamesInUse(): string[] {
+    const names = new Set<string>();
+    purchaseOrders.forEach(po => po.items.forEach(item => names.add(item.material.toUpperCase())));
+    dispatches.forEach(d => d.dispatchedItems.forEach(item => names.add(item.material.toUpperCase())));
+    return Array.from(names).sort();
+}
+
+// Rewrites a material name on every PO line, dispatch item and price list entry. Each changed
+// PO and dispatch gets a change history entry. Does not save; returns the changes to queue for
+// sync once saved.
+export function renameMaterialInRecords(fromName: string, toName: string): RecordSyncChange[] {
+    const fromKey = fromName.toUpperCase();
+    const syncChanges: RecordSyncChange[] = [];
+    const note = `Material ${fromKey} renamed to ${toName} in the material master.`;
+    const now = new Date().toISOString();
+    purchaseOrders.filter(po => po.items.some(item => item.material.toUpperCase() === fromKey)).forEach(po => {
+        const before = JSON.parse(JSON.stringify(po));
+        po.items.forEach(item => { if (item.material.toUpperCase() === fromKey) item.material = toName; });
+        po.updatedAt = now;
+        recordAuditEntry('po', po, 'update', diffRecordsForAudit(before, po), note);
+        syncChanges.push({ entity: 'po', action: 'update', record: po });
+    });
+    dispatches.filter(d => d.dispatchedItems.some(item => item.material.toUpperCase() === fromKey)).forEach(d => {
+        const before = JSON.parse(JSON.stringify(d));
+        d.dispatchedItems.forEach(item => { if (item.material.toUpperCase() === fromKey) item.material = toName; });
+        d.updatedAt = now;
+        recordAuditEntry('dispatch', d, 'update', diffRecordsForAudit(before, d), note);
+        syncChanges.push({ entity: 'dispatch', action: 'update', record: d });
+    });
+    // When merging into a material a list already prices, the list's own rates for it are kept
+    // and the merged entries that overlap them are dropped, so the list still saves.
+    priceLists.forEach(list => {
+        const kept = list.entries.filter(e => e.material === toName);
+        list.entries = list.entries.filter(e => e.material !== fromKey || !kept.some(k =>
+            k.effectiveFrom <= (e.effectiveTo || '9999-12-31') && e.effectiveFrom <= (k.effectiveTo || '9999-12-31')));
+        list.entries.forEach(e => { if (e.material === fromKey) e.material = toName; });
+    });
+    return syncChanges;
+}
+
+function renderMaterialMasterView(): void {
+    const editing = editingMaterialCode ? materialMaster.find(m => m.code === editingMaterialCode) : undefined;
+    const gstOptions = [0, 3, 5, 12, 18, 28];
+    const sortedMaterials = [...materialMaster].sort((a, b) => a.name.localeCompare(b.name));
+    const namesInUse = getMaterialNamesInUse();
+    const mergeSourceNames = Array.from(new Set([...materialMaster.map(m => m.name), ...namesInUse])).sort();
+
+    mainContent.innerHTML = `
+        <div class="list-container">
+            <h2>Material Master (${materialMaster.length})</h2>
+            <form id="material-form" class="form-container">
+                <h3>${editing ? `Edit Material ${escapeHTML(editing.code)}` : 'Add Material'}</h3>
+                <div class="form-group">
+                    <label for="materialCode">Code:</label>
+                    <input type="text" id="materialCode" name="code" value="${escapeHTML(editing ? editing.code : nextMaterialCode(materialMaster))}" required>
+                </div>
+                <div class="form-group">
+                    <label for="materialName">Name:</label>
+                    <input type="text" id="materialName" name="name" value="${escapeHTML(editing ? editing.name : '')}" required>
+                </div>
+                <div class="form-group">
+                    <label for="materialUnit">Base Unit of Measure:</label>
+                    <input type="text" id="materialUnit" name="unit" value="${escapeHTML(editing ? editing.unit : DEFAULT_MATERIAL_UNIT)}" required>
+                </div>
+                <div class="form-group">
+                    <label for="materialAltUnits">Alternate Units:</label>
+                    <input type="text" id="materialAltUnits" name="alternateUnits" value="${escapeHTML(editing ? formatAlternateUnitsText(editing.alternateUnits) : '')}" placeholder="TONNE = 25">
+                    <small class="field-hint">Base units in one of each alternate unit, e.g. TONNE = 25 for 40 kg bags. Separate several with commas.</small>
+                </div>
+                <div class="form-group">
+                    <label for="materialHsn">HSN Code:</label>
+                    <input type="text" id="materialHsn" name="hsnCode" value="${escapeHTML(editing ? editing.hsnCode : '')}" pattern="^([0-9]{4}|[0-9]{6}|[0-9]{8})$" title="4, 6 or 8 digits">
+                </div>
+                <div class="form-group">
+                    <label for="materialGst">Default GST Percentage:</label>
+                    <select id="materialGst" name="defaultGstPercentage">
+                        ${gstOptions.map(opt => `<option value="${opt}" ${(editing ? editing.defaultGstPercentage : DEFAULT_GST_RATE) === opt ? 'selected' : ''}>${opt}%</option>`).join('')}
+                    </select>
+                </div>
+                <div class="form-group">
+                    <label for="materialRate">Default Rate (₹ per base unit):</label>
+                    <input type="number" id="materialRate" name="defaultRate" value="${editing ? editing.defaultRate : 0}" min="0" step="0.01" required>
+                </div>
+                <div class="form-group">
+                    <label for="materialOverDispatchTolerance">Over-dispatch Tolerance (%, blank for company default):</label>
+                    <input type="number" id="materialOverDispatchTolerance" name="overDispatchTolerancePercentage" value="${editing && editing.overDispatchTolerancePercentage !== undefined ? editing.overDispatchTolerancePercentage : ''}" min="0" max="100" step="0.01">
+                </div>
+                <div class="form-group">
+                    <label><input type="checkbox" name="active" ${!editing || editing.active ? 'checked' : ''}> Active (offered on new PO lines)</label>
+                </div>
+                <button type="submit" class="primary">${editing ? 'Update Material' : 'Add Material'}</button>
+                ${editing ? '<button type="button" id="material-form-cancel" class="secondary">Cancel</button>' : ''}
+            </form>
+
+            <div class="table-responsive-wrapper">
+            <table aria-label="Material master">
+                <thead>
+                    <tr><th>Code</th><th>Name</th><th>Unit</th><th>HSN</th><th class="text-right">GST %</th><th class="text-right">Rate (₹)</th><th>Status</th><th class="text-right">Used On</th><th class="text-right">Actions</th></tr>
+                </thead>
+                <tbody>
+                    ${sortedMaterials.map(m => {
+                        const usage = countMaterialUsage(m.name);
+                        return `
+                        <tr>
+                            <td>${escapeHTML(m.code)}</td>
+                            <td>${escapeHTML(m.name)}</td>
+                            <td>${escapeHTML(m.unit)}${m.alternateUnits.length > 0 ? `<br><small>${escapeHTML(formatAlternateUnitsText(m.alternateUnits))}</small>` : ''}</td>
+                            <td>${escapeHTML(m.hsnCode || 'N/A')}</td>
+                            <td class="text-right">${m.defaultGstPercentage}%</td>
+                            <td class="text-right">${m.defaultRate.toFixed(2)}</td>
+                            <td><span class="badge ${m.active ? 'badge-completed' : 'badge-cancelled'}">${m.active ? 'Active' : 'Inactive'}</span></td>
+                            <td class="text-right">${usage.poCount} POs</td>
+                            <td class="actions-column text-right">
+                                <button type="button" class="secondary small" data-edit-material="${escapeHTML(m.code)}">Edit</button>
+                                <button type="button" class="info small" data-toggle-material="${escapeHTML(m.code)}">${m.active ? 'Deactivate' : 'Activate'}</button>
+                                ${usage.poCount === 0 && usage.dispatchCount === 0 ? `<button type="button" class="danger small" data-delete-material="${escapeHTML(m.code)}">Delete</button>` : ''}
+                            </td>
+                        </tr>`;
+                    }).join('')}
+                </tbody>
+            </table>
+            </div>
+
+            <h3>Merge Duplicate Names</h3>
+            <p>Replaces a name on every PO and dispatch with a master material, then removes the old name from the master.
+               Use it for typos and spelling variants.</p>
+            <form id="material-merge-form" class="dispatch-filter-controls" style="display: flex; flex-wrap: wrap; align-items: flex-end; gap: 15px;">
+                <div class="form-group" style="margin-bottom: 0; flex: 1 1 250px;">
+                    <label for="mergeFromName">Replace:</label>
+                    <select id="mergeFromName" name="fromName" required>
+                        ${mergeSourceNames.map(name => `<option value="${escapeHTML(name)}">${escapeHTML(name)}${findMaterialByName(name) ? '' : ' (not in master)'}</option>`).join('')}
+                    </select>
+                </div>
+                <div class="form-group" style="margin-bottom: 0; flex: 1 1 250px;">
+                    <label for="mergeIntoCode">With:</label>
+                    <select id="mergeIntoCode" name="intoCode" required>
+                        ${sortedMaterials.map(m => `<option value="${escapeHTML(m.code)}">${escapeHTML(m.name)} (${escapeHTML(m.code)})</option>`).join('')}
+                    </select>
+                </div>
+                <button type="submit" class="primary">Merge</button>
+            </form>
+        </div>
+    `;
+
+    document.getElementById('materialName')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('materialCode')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('materialUnit')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('materialAltUnits')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('material-form')?.addEventListener('submit', handleMaterialFormSubmit);
+    document.getElementById('material-form-cancel')?.addEventListener('click', () => {
+        editingMaterialCode = null;
+        renderMaterialMasterView();
+    });
+    document.getElementById('material-merge-form')?.addEventListener('submit', handleMaterialMergeSubmit);
+    mainContent.querySelectorAll<HTMLElement>('button[data-edit-material]').forEach(button => {
+        button.addEventListener('click', () => {
+            editingMaterialCode = button.dataset.editMaterial!;
+            renderMaterialMasterView();
+        });
+    });
+    mainContent.querySelectorAll<HTMLElement>('button[data-toggle-material]').forEach(button => {
+        button.addEventListener('click', () => {
+            const material = materialMaster.find(m => m.code === button.dataset.toggleMaterial);
+            if (!material) return;
+            material.active = !material.active;
+            saveData();
+            renderMaterialMasterView();
+        });
+    });
+    mainContent.querySelectorAll<HTMLElement>('button[data-delete-material]').forEach(button => {
+        button.addEventListener('click', () => {
+            const material = materialMaster.find(m => m.code === button.dataset.deleteMaterial);
+            if (!material || !confirm(`Delete material ${material.name}?`)) return;
+            materialMaster = materialMaster.filter(m => m !== material);
+            if (editingMaterialCode === material.code) editingMaterialCode = null;
+            saveData();
+            renderMaterialMasterView();
+        });
+    });
+}
+
+async function handleMaterialFormSubmit(event: Event): Promise<void> {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const existing = editingMaterialCode ? materialMaster.find(m => m.code === editingMaterialCode) : undefined;
+    const material: Material = {
+        code: (formData.get('code') as string).trim().toUpperCase(),
+        name: (formData.get('name') as string).trim().toUpperCase(),
+        unit: (formData.get('unit') as string).trim().toUpperCase(),
+        alternateUnits: [],
+        hsnCode: (formData.get('hsnCode') as string).trim(),
+        defaultGstPercentage: parseFloat(formData.get('defaultGstPercentage') as string) || 0,
+        defaultRate: parseFloat(formData.get('defaultRate') as string) || 0,
+        active: formData.get('active') === 'on',
+        overDispatchTolerancePercentage: parseOptionalTolerance(formData.get('overDispatchTolerancePercentage') as string)
+    };
+
+    if (!material.code || !material.name || !material.unit) {
+        alert('Code, name and unit of measure are required.');
+        return;
+    }
+    if (Number.isNaN(material.overDispatchTolerancePercentage)) {
+        alert('Over-dispatch tolerance must be between 0 and 100%, or blank for the company default.');
+        return;
+    }
+    try {
+        material.alternateUnits = parseAlternateUnitsText(formData.get('alternateUnits') as string, material.unit);
+    } catch (e) {
+        alert(`Alternate units: ${(e as Error).message}`);
+        return;
+    }
+    if (material.hsnCode && !HSN_CODE_PATTERN.test(material.hsnCode)) {
+        alert('HSN code must be 4, 6 or 8 digits.');
+        return;
+    }
+    const others = materialMaster.filter(m => m !== existing);
+    if (others.some(m => m.code === material.code)) {
+        alert(`Material code ${material.code} is already used.`);
+        return;
+    }
+    if (others.some(m => m.name === material.name)) {
+        alert(`A material named ${material.name} already exists. Use Merge to combine two names.`);
+        return;
+    }
+
+    let syncChanges: RecordSyncChange[] = [];
+    if (existing && existing.name !== material.name) {
+        const usage = countMaterialUsage(existing.name);
+        if ((usage.poCount > 0 || usage.dispatchCount > 0)
+            && !confirm(`${existing.name} is used on ${usage.poCount} POs and ${usage.dispatchCount} dispatches. Rename it on all of them?`)) {
+            return;
+        }
+        syncChanges = renameMaterialInRecords(existing.name, material.name);
+    }
+
+    if (existing) {
+        Object.assign(existing, material);
+    } else {
+        materialMaster.push(material);
+    }
+    editingMaterialCode = null;
+    if (!(await saveData())) return;
+    queueSyncChanges(syncChanges);
+    renderMaterialMasterView();
+}
+
+async function handleMaterialMergeSubmit(event: Event): Promise<void> {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const fromName = formData.get('fromName') as string;
+    const into = materialMaster.find(m => m.code === formData.get('intoCode'));
+    if (!fromName || !into) return;
+    if (fromName === into.name) {
+        alert('Choose two different materials to merge.');
+        return;
+    }
+    const usage = countMaterialUsage(fromName);
+    if (!confirm(`Replace ${fromName} with ${into.name} on ${usage.poCount} POs and ${usage.dispatchCount} dispatches, and remove ${fromName} from the master?`)) return;
+
+    const syncChanges = renameMaterialInRecords(fromName, into.name);
+    materialMaster = materialMaster.filter(m => m.name !== fromName);
+    if (!(await saveData())) return;
+    queueSyncChanges(syncChanges);
+    alert(`${fromName} has been merged into ${into.name}.`);
+    renderMaterialMasterView();
+}
+
+// --- Party Master ---
+// Customer directory used to fill in the PO form. POs keep their own copy of the party
+// fields; partyId links them back so renames and merges can find every PO of a party.
+const PARTY_NAME_NOISE_WORDS = ['M/S', 'MS', 'THE', 'PVT', 'PRIVATE', 'LTD', 'LIMITED', 'CO', 'COMPANY'];
+let editingPartyId: string | null = null;
+
+function generatePartyId(existing: Party[]): string {
+    let id: string;
+    do {
+        id = `P-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+    } while (existing.some(p => p.id === id));
+    return id;
+}
+
+function findPartyByName(name: string): Party | undefined {
+    const key = name.trim().toUpperCase();
+    return parties.find(p => p.name === key);
+}
+
+// Reduces a party name to a comparison key, so "M/S SHREE BUILDERS PVT. LTD." and
+// "SHREE BUILDERS" land in the same group.
+function normalizePartyName(name: string): string {
+    return name.toUpperCase()
+        .replace(/&/g, ' AND ')
+        .replace(/M\/S/g, ' ')
+        .replace(/[^A-Z0-9 ]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word && !PARTY_NAME_NOISE_WORDS.includes(word))
+        .join('');
+}
+
+// Groups of two or more spellings that look like the same customer: same normalized name
+// or same GSTIN, across both the party master and the names typed on POs.
+export function findPartyNameVariants(): string[][] {
+    const names = new Set<string>([...parties.map(p => p.name), ...purchaseOrders.map(po => po.partyName.trim().toUpperCase())].filter(Boolean));
+    const groupOf = new Map<string, Set<string>>();
+    const link = (a: string, b: string) => {
+        const groupA = groupOf.get(a) || new Set([a]);
+        const groupB = groupOf.get(b) || new Set([b]);
+        if (groupA === groupB) return;
+        groupB.forEach(name => groupA.add(name));
+        groupA.forEach(name => groupOf.set(name, groupA));
+    };
+    const firstByKey = new Map<string, string>();
+    const addKey = (key: string, name: string) => {
+        if (!key) return;
+        const first = firstByKey.get(key);
+        if (first) link(first, name); else firstByKey.set(key, name);
+    };
+    names.forEach(name => addKey(`name:${normalizePartyName(name)}`, name));
+    parties.forEach(p => addKey(p.gstin.trim() ? `gstin:${p.gstin.trim().toUpperCase()}` : '', p.name));
+    purchaseOrders.forEach(po => addKey(po.gstin.trim() ? `gstin:${po.gstin.trim().toUpperCase()}` : '', po.partyName.trim().toUpperCase()));
+    return Array.from(new Set(groupOf.values()))
+        .filter(group => group.size > 1)
+        .map(group => Array.from(group).sort());
+}
+
+function parseContactsText(text: string): PartyContact[] {
+    return text.split('\n')
+        .map(line => line.split('|').map(part => part.trim()))
+        .filter(parts => parts.some(Boolean))
+        .map(([name = '', phone = '', email = '']) => ({ name: name.toUpperCase(), phone, email }));
+}
+
+function formatContactsText(contacts: PartyContact[]): string {
+    return contacts.map(c => [c.name, c.phone, c.email].join(' | ')).join('\n');
+}
+
+// Creates a party from the PO's fields when the name is new, if the user agrees.
+function offerToAddUnknownParty(po: PurchaseOrder): void {
+    if (!po.partyName || findPartyByName(po.partyName)) return;
+    if (!confirm(`${po.partyName} is not in the party master. Add it with this PO's GSTIN, salesman and addresses?`)) return;
+    const siteAddresses = po.shipToPartyName === po.partyName ? po.deliverySites.map(site => site.address.trim()).filter(Boolean) : [];
+    parties.push({
+        id: generatePartyId(parties),
+        name: po.partyName.toUpperCase(),
+        gstin: po.gstin,
+        billingAddress: po.billToAddress,
+        siteAddresses: Array.from(new Set(siteAddresses)),
+        defaultSalesman: po.salesmanName,
+        contacts: [],
+        creditLimit: 0
+    });
+}
+
+// Fills the PO form from the party chosen in the party name field.
+function applyPartyToPOForm(party: Party): void {
+    const setValue = (id: string, value: string) => {
+        const el = document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | null;
+        if (el && value) el.value = value;
+    };
+    setValue('gstin', party.gstin);
+    if (party.gstin) handlePOFormGstinInput();
+    setValue('salesmanName', party.defaultSalesman);
+    setValue('billToAddress', party.billingAddress);
+    if ((document.getElementById('shipToSameAsBillTo') as HTMLInputElement | null)?.checked) applyShipToPartyToPOForm(party);
+}
+
+// Offers the consignee's saved site addresses and fills the site of a single-site PO.
+function applyShipToPartyToPOForm(party: Party): void {
+    const gstinInput = document.getElementById('shipToGstin') as HTMLInputElement | null;
+    if (gstinInput && party.gstin) gstinInput.value = party.gstin;
+    poFormSavedSiteAddresses = party.siteAddresses;
+    if (poFormSites.length === 1 && party.siteAddresses[0]) poFormSites[0].address = party.siteAddresses[0];
+    refreshPOFormSitesUI();
+}
+
+// Points every PO of the given names at the target party and folds the other party records
+// into it. Each changed PO gets a change history entry. Does not save; returns the changes to
+// queue for sync once saved.
+export function mergePartiesInto(names: string[], target: Party): RecordSyncChange[] {
+    const keys = new Set(names.map(n => n.trim().toUpperCase()));
+    const mergedParties = parties.filter(p => p !== target && keys.has(p.name));
+    const mergedIds = new Set(mergedParties.map(p => p.id));
+
+    mergedParties.forEach(p => {
+        if (!target.gstin && p.gstin) target.gstin = p.gstin;
+        if (!target.billingAddress && p.billingAddress) target.billingAddress = p.billingAddress;
+        if (!target.defaultSalesman && p.defaultSalesman) target.defaultSalesman = p.defaultSalesman;
+        if (!target.creditLimit && p.creditLimit) target.creditLimit = p.creditLimit;
+        p.siteAddresses.forEach(address => { if (!target.siteAddresses.includes(address)) target.siteAddresses.push(address); });
+        p.contacts.forEach(contact => {
+            if (!target.contacts.some(c => c.name === contact.name && c.phone === contact.phone)) target.contacts.push(contact);
+        });
+    });
+    parties = parties.filter(p => !mergedIds.has(p.id));
+    priceLists.forEach(list => {
+        if (!list.partyIds.some(id => mergedIds.has(id))) return;
+        list.partyIds = Array.from(new Set(list.partyIds.map(id => mergedIds.has(id) ? target.id : id)));
+    });
+
+    const now = new Date().toISOString();
+    const syncChanges: RecordSyncChange[] = [];
+    purchaseOrders.forEach(po => {
+        const billTo = keys.has(po.partyName.trim().toUpperCase()) || po.partyId === target.id || (!!po.partyId && mergedIds.has(po.partyId));
+        const shipTo = keys.has(po.shipToPartyName.trim().toUpperCase()) && po.shipToPartyName !== target.name;
+        if (!shipTo && (!billTo || (po.partyName === target.name && po.partyId === target.id))) return;
+        const before = JSON.parse(JSON.stringify(po));
+        if (billTo) {
+            po.partyName = target.name;
+            po.partyId = target.id;
+        }
+        if (shipTo) po.shipToPartyName = target.name;
+        po.updatedAt = now;
+        recordAuditEntry('po', po, 'update', diffRecordsForAudit(before, po), `Party merged into ${target.name} in the party master.`);
+        syncChanges.push({ entity: 'po', action: 'update', record: po });
+    });
+    return syncChanges;
+}
+
+function renderPartyMasterView(): void {
+    const editing = editingPartyId ? parties.find(p => p.id === editingPartyId) : undefined;
+    const sortedParties = [...parties].sort((a, b) => a.name.localeCompare(b.name));
+    const variantGroups = findPartyNameVariants();
+
+    mainContent.innerHTML = `
+        <div class="list-container">
+            <h2>Party Master (${parties.length})</h2>
+            <form id="party-form" class="form-container">
+                <h3>${editing ? `Edit Party ${escapeHTML(editing.name)}` : 'Add Party'}</h3>
+                <div class="form-group">
+                    <label for="partyMasterName">Party Name:</label>
+                    <input type="text" id="partyMasterName" name="name" value="${escapeHTML(editing ? editing.name : '')}" required>
+                </div>
+                <div class="form-group">
+                    <label for="partyMasterGstin">GSTIN:</label>
+                    <input type="text" id="partyMasterGstin" name="gstin" value="${escapeHTML(editing ? editing.gstin : '')}" pattern="^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$" title="Enter valid GSTIN (e.g., 27AAPFU0939F1ZV)">
+                </div>
+                <div class="form-group">
+                    <label for="partyMasterBilling">Billing Address:</label>
+                    <textarea id="partyMasterBilling" name="billingAddress" rows="3">${escapeHTML(editing ? editing.billingAddress : '')}</textarea>
+                </div>
+                <div class="form-group">
+                    <label for="partyMasterSites">Site Addresses (one per line):</label>
+                    <textarea id="partyMasterSites" name="siteAddresses" rows="4">${escapeHTML(editing ? editing.siteAddresses.join('\n') : '')}</textarea>
+                </div>
+                <div class="form-group">
+                    <label for="partyMasterSalesman">Default Salesman:</label>
+                    <input type="text" id="partyMasterSalesman" name="defaultSalesman" value="${escapeHTML(editing ? editing.defaultSalesman : '')}">
+                </div>
+                <div class="form-group">
+                    <label for="partyMasterContacts">Contacts (one per line: Name | Phone | Email):</label>
+                    <textarea id="partyMasterContacts" name="contacts" rows="3">${escapeHTML(editing ? formatContactsText(editing.contacts) : '')}</textarea>
+                </div>
+                <div class="form-group">
+                    <label for="partyMasterCreditLimit">Credit Limit (₹, 0 for none):</label>
+                    <input type="number" id="partyMasterCreditLimit" name="creditLimit" value="${editing ? editing.creditLimit : 0}" min="0" step="0.01">
+                    <small class="field-hint">New POs that would take the party's undispatched order value (incl. GST) past this are held for approval.</small>
+                </div>
+                <div class="form-group">
+                    <label for="partyMasterOverDispatchTolerance">Over-dispatch Tolerance (%, blank for material or company default):</label>
+                    <input type="number" id="partyMasterOverDispatchTolerance" name="overDispatchTolerancePercentage" value="${editing && editing.overDispatchTolerancePercentage !== undefined ? editing.overDispatchTolerancePercentage : ''}" min="0" max="100" step="0.01">
+                </div>
+                <button type="submit" class="primary">${editing ? 'Update Party' : 'Add Party'}</button>
+                ${editing ? '<button type="button" id="party-form-cancel" class="secondary">Cancel</button>' : ''}
+            </form>
+
+            ${sortedParties.length === 0 ? '<p>No parties yet.</p>' : `
+            <div class="table-responsive-wrapper">
+            <table aria-label="Party master">
+                <thead>
+                    <tr><th>Name</th><th>GSTIN</th><th>Sites</th><th>Default Salesman</th><th>Contacts</th><th class="text-right">POs</th><th class="text-right">Outstanding / Limit (₹)</th><th class="text-right">Actions</th></tr>
+                </thead>
+                <tbody>
+                    ${sortedParties.map(p => `
+                        <tr>
+                            <td>${escapeHTML(p.name)}</td>
+                            <td>${escapeHTML(p.gstin || 'N/A')}</td>
+                            <td>${p.siteAddresses.length}</td>
+                            <td>${escapeHTML(p.defaultSalesman || 'N/A')}</td>
+                            <td>${p.contacts.map(c => escapeHTML([c.name, c.phone].filter(Boolean).join(' '))).join('<br>') || 'N/A'}</td>
+                            <td class="text-right">${purchaseOrders.filter(po => po.partyId === p.id).length}</td>
+                            <td class="text-right">${getPartyOutstandingValue(p.id).toFixed(2)}${p.creditLimit > 0 ? ` / ${p.creditLimit.toFixed(2)}` : ''}</td>
+                            <td class="actions-column text-right">
+                                <button type="button" class="secondary small" data-edit-party="${escapeHTML(p.id)}">Edit</button>
+                            </td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>
+            </div>`}
+
+            <h3>Possible Duplicates (${variantGroups.length})</h3>
+            ${variantGroups.length === 0 ? '<p>No party name variants found.</p>' : `
+            <p>Names below look like the same customer (same name once punctuation and words like PVT LTD are ignored, or the same GSTIN).
+               Pick the name to keep; every PO under the other names is moved to it.</p>
+            ${variantGroups.map((group, groupIndex) => `
+                <form class="party-variant-group" data-variant-group="${groupIndex}">
+                    ${group.map((name, i) => `
+                        <label>
+                            <input type="radio" name="keepName" value="${escapeHTML(name)}" ${i === 0 ? 'checked' : ''}>
+                            ${escapeHTML(name)} <small>(${purchaseOrders.filter(po => po.partyName.trim().toUpperCase() === name).length} POs${findPartyByName(name) ? '' : ', not in master'})</small>
+                        </label>`).join('')}
+                    <input type="hidden" name="names" value="${escapeHTML(JSON.stringify(group))}">
+                    <button type="submit" class="primary small">Merge</button>
+                </form>`).join('')}`}
+        </div>
+    `;
+
+    ['partyMasterName', 'partyMasterGstin', 'partyMasterSalesman'].forEach(id => {
+        document.getElementById(id)?.addEventListener('input', toUpperCaseListener);
+    });
+    document.getElementById('party-form')?.addEventListener('submit', handlePartyFormSubmit);
+    document.getElementById('party-form-cancel')?.addEventListener('click', () => {
+        editingPartyId = null;
+        renderPartyMasterView();
+    });
+    mainContent.querySelectorAll<HTMLElement>('button[data-edit-party]').forEach(button => {
+        button.addEventListener('click', () => {
+            editingPartyId = button.dataset.editParty!;
+            renderPartyMasterView();
+        });
+    });
+    mainContent.querySelectorAll<HTMLFormElement>('form[data-variant-group]').forEach(form => {
+        form.addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const formData = new FormData(form);
+            const keepName = formData.get('keepName') as string;
+            const names: string[] = JSON.parse(formData.get('names') as string);
+            if (!confirm(`Merge ${names.filter(n => n !== keepName).join(', ')} into ${keepName}?`)) return;
+
+            let target = findPartyByName(keepName);
+            if (!target) {
+                const samplePO = purchaseOrders.find(po => po.partyName.trim().toUpperCase() === keepName);
+                target = { id: generatePartyId(parties), name: keepName, gstin: samplePO?.gstin || '', billingAddress: '', siteAddresses: [], defaultSalesman: samplePO?.salesmanName || '', contacts: [], creditLimit: 0 };
+                parties.push(target);
+            }
+            const syncChanges = mergePartiesInto(names, target);
+            if (!(await saveData())) return;
+            queueSyncChanges(syncChanges);
+            alert(`Merged into ${keepName}. ${syncChanges.length} POs were updated.`);
+            renderPartyMasterView();
+        });
+    });
+}
+
+async function handlePartyFormSubmit(event: Event): Promise<void> {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const existing = editingPartyId ? parties.find(p => p.id === editingPartyId) : undefined;
+    const party: Party = {
+        id: existing ? existing.id : generatePartyId(parties),
+        name: (formData.get('name') as string).trim().toUpperCase(),
+        gstin: (formData.get('gstin') as string).trim().toUpperCase(),
+        billingAddress: (formData.get('billingAddress') as string).trim(),
+        siteAddresses: (formData.get('siteAddresses') as string).split('\n').map(line => line.trim()).filter(Boolean),
+        defaultSalesman: (formData.get('defaultSalesman') as string).trim().toUpperCase(),
+        contacts: parseContactsText(formData.get('contacts') as string),
+        creditLimit: parseFloat(formData.get('creditLimit') as string) || 0,
+        overDispatchTolerancePercentage: parseOptionalTolerance(formData.get('overDispatchTolerancePercentage') as string)
+    };
+
+    if (!party.name) {
+        alert('Party name is required.');
+        return;
+    }
+    if (party.creditLimit < 0) {
+        alert('Credit limit cannot be negative. Use 0 for no limit.');
+        return;
+    }
+    if (Number.isNaN(party.overDispatchTolerancePercentage)) {
+        alert('Over-dispatch tolerance must be between 0 and 100%, or blank to use the material or company default.');
+        return;
+    }
+    const gstinError = party.gstin ? validateGstin(party.gstin) : null;
+    if (gstinError) {
+        alert(`Invalid GSTIN: ${gstinError}`);
+        return;
+    }
+    if (parties.some(p => p !== existing && p.name === party.name)) {
+        alert(`A party named ${party.name} already exists. Use the duplicates list to merge two parties.`);
+        return;
+    }
+
+    let syncChanges: RecordSyncChange[] = [];
+    if (existing) {
+        const renamed = existing.name !== party.name;
+        Object.assign(existing, party);
+        // A rename is applied to the party's POs the same way a merge is
+        if (renamed) syncChanges = mergePartiesInto([], existing);
+    } else {
+        parties.push(party);
+        // POs already typed with this exact name now belong to the new party
+        syncChanges = mergePartiesInto([party.name], party);
+    }
+    editingPartyId = null;
+    if (!(await saveData())) return;
+    queueSyncChanges(syncChanges);
+    renderPartyMasterView();
+}
+
+// --- Price Lists ---
+// Agreed rates per party or party group. A PO line is checked against the list entry in force
+// on the PO date, after the line's trade discount and before the order's cash discount.
+let editingPriceListId: string | null = null;
+let belowListReportFrom = '';
+let belowListReportTo = '';
+
+interface PriceCheck {
+    list: PriceList;
+    entry: PriceListEntry;
+    listRate: number; // Per the line's unit
+    lineRate: number; // Line rate after trade discount
+    deviationPercentage: number; // Negative when the line is below the list
+    outsideTolerance: boolean;
+}
+
+interface BelowListLine {
+    po: PurchaseOrder;
+    item: MaterialItem;
+    check: PriceCheck;
+}
+
+function generatePriceListId(existing: PriceList[]): string {
+    let id: string;
+    do {
+        id = `PL-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+    } while (existing.some(l => l.id === id));
+    return id;
+}
+
+// One line per entry: MATERIAL | UNIT | RATE | FROM | TO (dates as YYYY-MM-DD, TO may be blank).
+// Throws with a readable message on the first bad line.
+function parsePriceListEntriesText(text: string): PriceListEntry[] {
+    const entries: PriceListEntry[] = [];
+    text.split('\n').map(line => line.trim()).filter(Boolean).forEach((line, index) => {
+        const [material = '', unit = '', rate = '', from = '', to = ''] = line.split('|').map(part => part.trim());
+        const entry: PriceListEntry = {
+            material: material.toUpperCase(),
+            unit: unit.toUpperCase(),
+            rate: parseFloat(rate),
+            effectiveFrom: from,
+            effectiveTo: to
+        };
+        const label = `Line ${index + 1} (${line})`;
+        const masterMaterial = findMaterialByName(entry.material);
+        if (!masterMaterial) throw new Error(`${label}: ${entry.material || 'the material'} is not in the material master.`);
+        if (!getConvertibleUnits(entry.material, masterMaterial.unit).includes(entry.unit)) {
+            throw new Error(`${label}: ${entry.material} has no unit ${entry.unit || '(blank)'}.`);
+        }
+        if (!(entry.rate > 0)) throw new Error(`${label}: the rate must be more than zero.`);
+        if (!isValidDateOnly(entry.effectiveFrom)) throw new Error(`${label}: the from date must be YYYY-MM-DD.`);
+        if (entry.effectiveTo && (!isValidDateOnly(entry.effectiveTo) || entry.effectiveTo < entry.effectiveFrom)) {
+            throw new Error(`${label}: the to date must be YYYY-MM-DD and not before the from date.`);
+        }
+        const overlapping = entries.find(e => e.material === entry.material
+            && e.effectiveFrom <= (entry.effectiveTo || '9999-12-31') && entry.effectiveFrom <= (e.effectiveTo || '9999-12-31'));
+        if (overlapping) throw new Error(`${label}: overlaps the ${entry.material} rate from ${overlapping.effectiveFrom}.`);
+        entries.push(entry);
+    });
+    return entries;
+}
+
+function formatPriceListEntriesText(entries: PriceListEntry[]): string {
+    return entries.map(e => [e.material, e.unit, e.rate, e.effectiveFrom, e.effectiveTo].join(' | ')).join('\n');
+}
+
+// The list entry in force for the party and material on the date. A list for the party alone
+// wins over a group list; among equals the most recent entry wins.
+export function findApplicablePrice(partyId: string | undefined, material: string, date: string): { list: PriceList; entry: PriceListEntry } | undefined {
+    if (!partyId) return undefined;
+    const key = material.trim().toUpperCase();
+    const candidates: { list: PriceList; entry: PriceListEntry }[] = [];
+    priceLists.filter(list => list.partyIds.includes(partyId)).forEach(list => {
+        list.entries
+            .filter(e => e.material === key && e.effectiveFrom <= date && (!e.effectiveTo || date <= e.effectiveTo))
+            .forEach(entry => candidates.push({ list, entry }));
+    });
+    candidates.sort((a, b) => (a.list.partyIds.length - b.list.partyIds.length) || b.entry.effectiveFrom.localeCompare(a.entry.effectiveFrom));
+    return candidates[0];
+}
+
+// List rate converted to the line's unit, or null if there is no list price or no conversion.
+function getListRateForLine(partyId: string | undefined, item: MaterialItem, date: string): number | null {
+    const match = findApplicablePrice(partyId, item.material, date);
+    if (!match) return null;
+    const entryUnitsPerLineUnit = convertQuantity(item.material, 1, item.unit, match.entry.unit);
+    return entryUnitsPerLineUnit === null ? null : match.entry.rate * entryUnitsPerLineUnit;
+}
+
+function checkLineAgainstPriceList(partyId: string | undefined, item: MaterialItem, date: string): PriceCheck | null {
+    const match = findApplicablePrice(partyId, item.material, date);
+    const listRate = getListRateForLine(partyId, item, date);
+    if (!match || listRate === null) return null;
+    const lineRate = item.rate * (1 - item.discountPercentage / 100);
+    const deviationPercentage = ((lineRate - listRate) / listRate) * 100;
+    return {
+        list: match.list,
+        entry: match.entry,
+        listRate,
+        lineRate,
+        deviationPercentage,
+        outsideTolerance: Math.abs(deviationPercentage) > match.list.tolerancePercentage + 0.0001
+    };
+}
+
+function describePriceCheck(check: PriceCheck, unit: string): string {
+    const listText = `List price ₹${check.listRate.toFixed(2)}/${unit} (${check.list.name})`;
+    if (Math.abs(check.deviationPercentage) < 0.005) return `${listText}: matches.`;
+    const direction = check.deviationPercentage < 0 ? 'below' : 'above';
+    return `${listText}: ${Math.abs(check.deviationPercentage).toFixed(2)}% ${direction}${check.outsideTolerance ? `, outside the ${check.list.tolerancePercentage}% tolerance` : ''}.`;
+}
+
+function findBelowListPriceLines(fromDate: string, toDate: string): BelowListLine[] {
+    const lines: BelowListLine[] = [];
+    purchaseOrders
+        .filter(po => po.status !== 'Cancelled')
+        .forEach(po => {
+            const date = po.createdAt.substring(0, 10);
+            if ((fromDate && date < fromDate) || (toDate && date > toDate)) return;
+            po.items.forEach(item => {
+                const check = checkLineAgainstPriceList(po.partyId, item, date);
+                if (check && check.lineRate < check.listRate - 0.005) lines.push({ po, item, check });
+            });
+        });
+    return lines.sort((a, b) => new Date(b.po.createdAt).getTime() - new Date(a.po.createdAt).getTime());
+}
+
+function downloadBelowListReportCSV(lines: BelowListLine[]): void {
+    if (lines.length === 0) {
+        alert('No lines below list price to download.');
+        return;
+    }
+    const headers = ["PO ID", "Date", "Party Name", "Material", "Quantity", "Unit", "PO Rate (after trade disc.)", "List Rate",
+        "Below List (%)", "Shortfall (₹)", "Price List", "Outside Tolerance"];
+    const csvRows = [headers.map(header => escapeCSVField(header)).join(',')];
+    lines.forEach(({ po, item, check }) => {
+        csvRows.push([
+            escapeCSVField(po.id),
+            escapeCSVField(formatToDDMMYY(po.createdAt)),
+            escapeCSVField(po.partyName),
+            escapeCSVField(item.material),
+            escapeCSVField(item.quantity.toFixed(2)),
+            escapeCSVField(item.unit),
+            escapeCSVField(check.lineRate.toFixed(2)),
+            escapeCSVField(check.listRate.toFixed(2)),
+            escapeCSVField(Math.abs(check.deviationPercentage).toFixed(2)),
+            escapeCSVField(((check.listRate - check.lineRate) * item.quantity).toFixed(2)),
+            escapeCSVField(check.list.name),
+            escapeCSVField(check.outsideTolerance ? 'YES' : 'NO')
+        ].join(','));
+    });
+
+    const blob = new Blob([csvRows.join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.setAttribute('download', `below_list_price_${(belowListReportFrom || 'all').replace(/-/g, '')}_to_${(belowListReportTo || 'all').replace(/-/g, '')}.csv`);
+    link.href = URL.createObjectURL(blob);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+}
+
+function renderPriceListsView(): void {
+    if (!belowListReportFrom && !belowListReportTo) {
+        const today = getTodayDateOnly();
+        belowListReportFrom = `${today.substring(0, 8)}01`;
+        belowListReportTo = today;
+    }
+    const editing = editingPriceListId ? priceLists.find(l => l.id === editingPriceListId) : undefined;
+    const sortedParties = [...parties].sort((a, b) => a.name.localeCompare(b.name));
+    const sortedLists = [...priceLists].sort((a, b) => a.name.localeCompare(b.name));
+    const belowLines = findBelowListPriceLines(belowListReportFrom, belowListReportTo);
+    const partyNames = (ids: string[]) => ids.map(id => parties.find(p => p.id === id)?.name || id).join(', ');
+
+    mainContent.innerHTML = `
+        <div class="list-container">
+            <h2>Price Lists (${priceLists.length})</h2>
+            <form id="price-list-form" class="form-container">
+                <h3>${editing ? `Edit Price List ${escapeHTML(editing.name)}` : 'Add Price List'}</h3>
+                <div class="form-group">
+                    <label for="priceListName">Name:</label>
+                    <input type="text" id="priceListName" name="name" value="${escapeHTML(editing ? editing.name : '')}" required>
+                </div>
+                <div class="form-group">
+                    <label for="priceListParties">Parties (select several for a party group):</label>
+                    <select id="priceListParties" name="partyIds" multiple size="6" required>
+                        ${sortedParties.map(p => `<option value="${escapeHTML(p.id)}" ${editing && editing.partyIds.includes(p.id) ? 'selected' : ''}>${escapeHTML(p.name)}</option>`).join('')}
+                    </select>
+                </div>
+                <div class="form-group">
+                    <label for="priceListTolerance">Tolerance (%):</label>
+                    <input type="number" id="priceListTolerance" name="tolerancePercentage" value="${editing ? editing.tolerancePercentage : 2}" min="0" max="100" step="0.01" required>
+                    <small class="field-hint">PO rates further than this from the list rate are flagged on the PO form.</small>
+                </div>
+                <div class="form-group">
+                    <label for="priceListEntries">Rates (one per line: Material | Unit | Rate | From | To):</label>
+                    <textarea id="priceListEntries" name="entries" rows="6" placeholder="HITECH READYMIX PLASTER | BAG | 310 | 2025-04-01 | 2026-03-31">${escapeHTML(editing ? formatPriceListEntriesText(editing.entries) : '')}</textarea>
+                    <small class="field-hint">Dates are YYYY-MM-DD. Leave To blank for a rate that is still in force.</small>
+                </div>
+                <button type="submit" class="primary">${editing ? 'Update Price List' : 'Add Price List'}</button>
+                ${editing ? '<button type="button" id="price-list-form-cancel" class="secondary">Cancel</button>' : ''}
+            </form>
+
+            ${sortedLists.length === 0 ? '<p>No price lists yet.</p>' : `
+            <div class="table-responsive-wrapper">
+            <table aria-label="Price lists">
+                <thead>
+                    <tr><th>Name</th><th>Parties</th><th class="text-right">Tolerance</th><th class="text-right">Rates</th><th class="text-right">Actions</th></tr>
+                </thead>
+                <tbody>
+                    ${sortedLists.map(list => `
+                        <tr>
+                            <td>${escapeHTML(list.name)}</td>
+                            <td>${escapeHTML(partyNames(list.partyIds))}</td>
+                            <td class="text-right">${list.tolerancePercentage}%</td>
+                            <td class="text-right">${list.entries.length}</td>
+                            <td class="actions-column text-right">
+                                <button type="button" class="secondary small" data-edit-price-list="${escapeHTML(list.id)}">Edit</button>
+                                <button type="button" class="danger small" data-delete-price-list="${escapeHTML(list.id)}">Delete</button>
+                            </td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>
+            </div>`}
+
+            <h3>POs Booked Below List Price</h3>
+            <div class="dispatch-filter-controls" style="display: flex; flex-wrap: wrap; align-items: flex-end; gap: 15px; margin-bottom: 20px;">
+                <div class="form-group" style="margin-bottom: 0;">
+                    <label for="belowListFrom">From Date:</label>
+                    <input type="date" id="belowListFrom" value="${escapeHTML(belowListReportFrom)}">
+                </div>
+                <div class="form-group" style="margin-bottom: 0;">
+                    <label for="belowListTo">To Date:</label>
+                    <input type="date" id="belowListTo" value="${escapeHTML(belowListReportTo)}">
+                </div>
+                <button type="button" id="below-list-filter" class="primary">Show</button>
+            </div>
+            ${belowLines.length === 0 ? '<p>No PO lines below list price in this period.</p>' : `
+            <div class="table-responsive-wrapper">
+            <table aria-label="POs booked below list price">
+                <thead>
+                    <tr><th>PO ID</th><th>Date</th><th>Party</th><th>Material</th><th class="text-right">Qty</th><th class="text-right">PO Rate (₹)</th><th class="text-right">List Rate (₹)</th><th class="text-right">Below</th><th class="text-right">Shortfall (₹)</th><th>Price List</th></tr>
+                </thead>
+                <tbody>
+                    ${belowLines.map(({ po, item, check }) => `
+                        <tr>
+                            <td><a href="#" onclick="window.showPODetailsModalWrapper('${escapeHTML(po.id)}'); return false;">${escapeHTML(po.id)}</a></td>
+                            <td>${escapeHTML(formatToDDMMYY(po.createdAt))}</td>
+                            <td>${escapeHTML(po.partyName)}</td>
+                            <td>${escapeHTML(item.material)}</td>
+                            <td class="text-right">${item.quantity.toFixed(2)} ${escapeHTML(item.unit)}</td>
+                            <td class="text-right">${check.lineRate.toFixed(2)}</td>
+                            <td class="text-right">${check.listRate.toFixed(2)}</td>
+                            <td class="text-right ${check.outsideTolerance ? 'text-danger' : ''}">${Math.abs(check.deviationPercentage).toFixed(2)}%</td>
+                            <td class="text-right">${((check.listRate - check.lineRate) * item.quantity).toFixed(2)}</td>
+                            <td>${escapeHTML(check.list.name)}</td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>
+            </div>
+            <div style="text-align: right; margin-top: 10px;">
+                <button type="button" id="download-below-list-csv" class="secondary small">Download Report (CSV)</button>
+            </div>`}
+        </div>
+    ` + getPODetailsModalHTML() + getEditDispatchModalHTML() + getPrintDispatchModalHTML();
+
+    document.getElementById('priceListName')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('priceListEntries')?.addEventListener('input', toUpperCaseListener);
+    document.getElementById('price-list-form')?.addEventListener('submit', handlePriceListFormSubmit);
+    document.getElementById('price-list-form-cancel')?.addEventListener('click', () => {
+        editingPriceListId = null;
+        renderPriceListsView();
+    });
+    mainContent.querySelectorAll<HTMLElement>('button[data-edit-price-list]').forEach(button => {
+        button.addEventListener('click', () => {
+            editingPriceListId = button.dataset.editPriceList!;
+            renderPriceListsView();
+        });
+    });
+    mainContent.querySelectorAll<HTMLElement>('button[data-delete-price-list]').forEach(button => {
+        button.addEventListener('click', () => {
+            const list = priceLists.find(l => l.id === button.dataset.deletePriceList);
+            if (!list || !confirm(`Delete price list ${list.name}?`)) return;
+            priceLists = priceLists.filter(l => l !== list);
+            if (editingPriceListId === list.id) editingPriceListId = null;
+            saveData();
+            renderPriceListsView();
+        });
+    });
+    document.getElementById('below-list-filter')?.addEventListener('click', () => {
+        belowListReportFrom = (document.getElementById('belowListFrom') as HTMLInputElement).value;
+        belowListReportTo = (document.getElementById('belowListTo') as HTMLInputElement).value;
+        renderPriceListsView();
+    });
+    document.getElementById('download-below-list-csv')?.addEventListener('click', () => downloadBelowListReportCSV(belowLines));
+}
+
+function handlePriceListFormSubmit(event: Event): void {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const formData = new FormData(form);
+    const existing = editingPriceListId ? priceLists.find(l => l.id === editingPriceListId) : undefined;
+    const name = (formData.get('name') as string).trim().toUpperCase();
+    const partyIds = formData.getAll('partyIds') as string[];
+    const tolerancePercentage = parseFloat(formData.get('tolerancePercentage') as string);
+
+    if (!name || partyIds.length === 0) {
+        alert('A price list needs a name and at least one party.');
+        return;
+    }
+    if (!(tolerancePercentage >= 0 && tolerancePercentage <= 100)) {
+        alert('Tolerance must be between 0 and 100%.');
+        return;
+    }
+    if (priceLists.some(l => l !== existing && l.name === name)) {
+        alert(`A price list named ${name} already exists.`);
+        return;
+    }
+    let entries: PriceListEntry[];
+    try {
+        entries = parsePriceListEntriesText(formData.get('entries') as string);
+    } catch (e) {
+        alert(`Rates: ${(e as Error).message}`);
+        return;
+    }
+
+    const list: PriceList = { id: existing ? existing.id : generatePriceListId(priceLists), name, partyIds, tolerancePercentage, entries };
+    if (existing) {
+        Object.assign(existing, list);
+    } else {
+        priceLists.push(list);
+    }
+    editingPriceListId = null;
+    saveData();
+    renderPriceListsView();
+}
+
+// --- Document Numbering ---
+// PO, dispatch and invoice numbers come from configurable series that restart every April 1.
+// Counters only ever go up, so a number is never issued twice, even if its PO is later cancelled.
+const NUMBERING_SERIES_LABELS: { [key in NumberingSeriesKey]: string } = { po: 'Purchase Orders', dispatch: 'Dispatches', invoice: 'Invoices' };
+
+// Fills in any series missing from stored settings (older data has none) with its default.
+function normalizeNumberingSeries(raw: any): NumberingSeries[] {
+    const stored: any[] = Array.isArray(raw) ? raw : [];
+    return DEFAULT_NUMBERING_SERIES.map(defaults => {
+        const series = stored.find(s => s && s.key === defaults.key);
+        if (!series) return { ...defaults, lastNumbers: {} };
+        const lastNumbers: { [financialYear: string]: number } = {};
+        if (series.lastNumbers && typeof series.lastNumbers === 'object') {
+            Object.keys(series.lastNumbers).forEach(fy => {
+                const value = series.lastNumbers[fy];
+                if (typeof value === 'number' && Number.isInteger(value) && value > 0) lastNumbers[fy] = value;
+            });
+        }
+        return {
+            key: defaults.key,
+            format: typeof series.format === 'string' ? series.format : defaults.format,
+            padding: typeof series.padding === 'number' && series.padding >= 1 && series.padding <= 10 ? Math.floor(series.padding) : defaults.padding,
+            lastNumbers
+        };
+    });
+}
+
+function getNumberingSeries(key: NumberingSeriesKey): NumberingSeries {
+    return numberingSeries.find(series => series.key === key)!;
+}
+
+// YYYY-MM-DD in the device's own time zone, which is what decides the financial year of a new document.
+function toLocalDateOnly(date: Date): string {
+    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+}
+
+// Indian financial year of a YYYY-MM-DD date, e.g. 2025-04-01 to 2026-03-31 is "25-26".
+export function getFinancialYearToken(dateOnly: string): string {
+    const year = parseInt(dateOnly.substring(0, 4), 10);
+    const month = parseInt(dateOnly.substring(5, 7), 10);
+    const startYear = month >= 4 ? year : year - 1;
+    return `${(startYear % 100).toString().padStart(2, '0')}-${((startYear + 1) % 100).toString().padStart(2, '0')}`;
+}
+
+// Returns a problem with the format, or null if it is usable.
+export function validateNumberingFormat(format: string): string | null {
+    if (!format.includes('{SEQ}')) return 'must contain {SEQ}';
+    if ((format.match(/\{SEQ\}/g) || []).length > 1) return 'may contain {SEQ} only once';
+    const unknownToken = format.replace(/\{FY\}|\{SEQ\}/g, '').match(/\{[^}]*\}/);
+    if (unknownToken) return `has an unknown token ${unknownToken[0]}`;
+    if (/\s/.test(format)) return 'may not contain spaces';
+    return null;
+}
+
+function formatDocumentNumber(series: NumberingSeries, financialYear: string, sequence: number): string {
+    return series.format
+        .replace('{FY}', financialYear)
+        .replace('{SEQ}', sequence.toString().padStart(series.padding, '0'));
+}
+
+function isDocumentNumberTaken(key: NumberingSeriesKey, documentNumber: string): boolean {
+    if (key === 'po') return purchaseOrders.some(po => po.id === documentNumber);
+    if (key === 'dispatch') return dispatches.some(d => d.id === documentNumber);
+    const normalized = documentNumber.toUpperCase();
+    return dispatches.some(d => (d.invoiceNumber || '').toUpperCase() === normalized);
+}
+
+// The number the series would issue next for a document dated dateOnly. Numbers already on a
+// record (e.g. typed by hand, or restored from a backup) and any in `reserved` are skipped.
+export function peekDocumentNumber(key: NumberingSeriesKey, dateOnly: string, reserved?: Set<string>): { documentNumber: string; counterKey: string; sequence: number } {
+    const series = getNumberingSeries(key);
+    const financialYear = getFinancialYearToken(dateOnly);
+    const counterKey = series.format.includes('{FY}') ? financialYear : '';
+    let sequence = (series.lastNumbers[counterKey] || 0) + 1;
+    let documentNumber = formatDocumentNumber(series, financialYear, sequence);
+    while (isDocumentNumberTaken(key, documentNumber) || (reserved && reserved.has(documentNumber))) {
+        sequence++;
+        documentNumber = formatDocumentNumber(series, financialYear, sequence);
+    }
+    return { documentNumber, counterKey, sequence };
+}
+
+// Issues the next number and advances the counter. Callers save the data along with the new record.
+export function allocateDocumentNumber(key: NumberingSeriesKey, dateOnly: string, reserved?: Set<string>): string {
+    const next = peekDocumentNumber(key, dateOnly, reserved);
+    getNumberingSeries(key).lastNumbers[next.counterKey] = next.sequence;
+    return next.documentNumber;
+}
+
+function isInvoiceSeriesEnabled(): boolean {
+    return getNumberingSeries('invoice').format.trim() !== '';
+}
+
+// Keeps the higher counter of each financial year, so replacing data never rewinds a series.
+export function mergeNumberingCounters(current: NumberingSeries[], other: NumberingSeries[]): NumberingSeries[] {
+    return current.map(series => {
+        const otherSeries = other.find(s => s.key === series.key);
+        const lastNumbers = { ...series.lastNumbers };
+        if (otherSeries) {
+            Object.keys(otherSeries.lastNumbers).forEach(fy => {
+                lastNumbers[fy] = Math.max(lastNumbers[fy] || 0, otherSeries.lastNumbers[fy]);
+            });
+        }
+        return { ...series, lastNumbers };
+    });
+}
+
+function renderNumberingSeriesHTML(): string {
+    const today = toLocalDateOnly(new Date());
+    return numberingSeries.map(series => `
+        <fieldset class="numbering-series">
+            <legend>${NUMBERING_SERIES_LABELS[series.key]}</legend>
+            <div class="form-group">
+                <label for="numbering-format-${series.key}">Format:</label>
+                <input type="text" id="numbering-format-${series.key}" name="numberingFormat-${series.key}" value="${escapeHTML(series.format)}"
+                       placeholder="${series.key === 'invoice' ? 'HCC/INV/{FY}/{SEQ}' : ''}" ${series.key === 'invoice' ? '' : 'required'}>
+            </div>
+            <div class="form-group">
+                <label for="numbering-padding-${series.key}">Digits:</label>
+                <input type="number" id="numbering-padding-${series.key}" name="numberingPadding-${series.key}" value="${series.padding}" min="1" max="10" step="1" required>
+            </div>
+            <small class="field-hint">${series.key === 'invoice' && !series.format.trim()
+                ? 'Blank: invoice numbers are typed on each dispatch.'
+                : `Next: ${escapeHTML(peekDocumentNumber(series.key, today).documentNumber)}`}</small>
+        </fieldset>
+    `).join('');
+}
+
+// Reads the numbering fields of the company form. Returns null (after telling the user) if any are invalid.
+function readNumberingSeriesForm(formData: FormData): NumberingSeries[] | null {
+    const updated: NumberingSeries[] = [];
+    for (const series of numberingSeries) {
+        const format = (formData.get(`numberingFormat-${series.key}`) as string).trim().toUpperCase();
+        const padding = parseInt(formData.get(`numberingPadding-${series.key}`) as string, 10);
+        const formatError = format || series.key !== 'invoice' ? validateNumberingFormat(format) : null;
+        if (formatError) {
+            alert(`${NUMBERING_SERIES_LABELS[series.key]} number format ${formatError}.`);
+            return null;
+        }
+        if (!Number.isInteger(padding) || padding < 1 || padding > 10) {
+            alert(`${NUMBERING_SERIES_LABELS[series.key]} digits must be a whole number from 1 to 10.`);
+            return null;
+        }
+        updated.push({ ...series, format, padding });
+    }
+    return updated;
+}
+
+// --- Company Profile ---
+// Our own GSTIN and state decide whether a PO is billed with IGST or CGST + SGST.
+function renderCompanyView(): void {
+    mainContent.innerHTML = `
+        <div class="form-container">
+            <h2>Company Profile</h2>
+            <form id="company-form">
+                <div class="form-group">
+                    <label for="companyName">Company Name:</label>
+                    <input type="text" id="companyName" name="name" value="${escapeHTML(companyProfile.name)}" required>
+                </div>
+                <div class="form-group">
+                    <label for="companyGstin">GSTIN:</label>
+                    <input type="text" id="companyGstin" name="gstin" value="${escapeHTML(companyProfile.gstin)}" title="Enter valid GSTIN (e.g., 27AAPFU0939F1ZV)">
+                    <small id="company-gstin-status" class="field-hint"></small>
+                </div>
+                <div class="form-group">
+                    <label for="companyAddress">Address:</label>
+                    <textarea id="companyAddress" name="address" rows="3">${escapeHTML(companyProfile.address)}</textarea>
+                </div>
+                <div class="form-group">
+                    <label for="companyState">State:</label>
+                    <select id="companyState" name="stateCode" required>${renderStateOptionsHTML(companyProfile.stateCode)}</select>
+                    <small class="field-hint">POs with a place of supply in another state are billed with IGST.</small>
+                </div>
+                <div class="form-group">
+                    <label><input type="checkbox" name="requirePOApproval" ${companyProfile.requirePOApproval ? 'checked' : ''}> Every new PO needs approval before it can be dispatched</label>
+                    <small class="field-hint">Without this, only POs that take a party past its credit limit wait for approval.</small>
+                </div>
+                <div class="form-group">
+                    <label for="companyOverDispatchTolerance">Over-dispatch Tolerance (%):</label>
+                    <input type="number" id="companyOverDispatchTolerance" name="overDispatchTolerancePercentage" value="${companyProfile.overDispatchTolerancePercentage}" min="0" max="100" step="0.01" required>
+                    <small class="field-hint">How far past the ordered quantity a line may be dispatched without a supervisor's override. Materials and parties can set their own.</small>
+                </div>
+                <h3>Document Numbering</h3>
+                <p class="field-hint">{FY} is the financial year (e.g. 25-26) and {SEQ} the running number, which restarts every April 1. Numbers already issued are never reused.</p>
+                ${renderNumberingSeriesHTML()}
+                <button type="submit" class="primary">Save Company Profile</button>
+            </form>
+        </div>
+    `;
+
+    const gstinInput = document.getElementById('companyGstin') as HTMLInputElement;
+    const stateSelect = document.getElementById('companyState') as HTMLSelectElement;
+    const updateStatus = () => {
+        const status = document.getElementById('company-gstin-status')!;
+        const value = gstinInput.value.trim();
+        const error = value ? validateGstin(value) : null;
+        status.textContent = !value ? '' : error ? error : `Valid GSTIN, state ${describeStateCode(value.substring(0, 2))}`;
+        status.classList.toggle('error-message', !!error);
+    };
+    document.getElementById('companyName')?.addEventListener('input', toUpperCaseListener);
+    gstinInput.addEventListener('input', (e) => {
+        toUpperCaseListener(e);
+        const stateCode = getGstinStateCode(gstinInput.value);
+        if (stateCode) stateSelect.value = stateCode;
+        updateStatus();
+    });
+    updateStatus();
+    document.getElementById('company-form')?.addEventListener('submit', handleCompanyFormSubmit);
+}
+
+async function handleCompanyFormSubmit(event: Event): Promise<void> {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const profile: CompanyProfile = {
+        name: (formData.get('name') as string).trim().toUpperCase(),
+        gstin: (formData.get('gstin') as string).trim().toUpperCase(),
+        address: (formData.get('address') as string).trim(),
+        stateCode: formData.get('stateCode') as string,
+        requirePOApproval: formData.get('requirePOApproval') === 'on',
+        overDispatchTolerancePercentage: parseFloat(formData.get('overDispatchTolerancePercentage') as string) || 0
+    };
+    const gstinError = profile.gstin ? validateGstin(profile.gstin) : null;
+    if (gstinError) {
+        alert(`Invalid GSTIN: ${gstinError}`);
+        return;
+    }
+    if (profile.gstin && getGstinStateCode(profile.gstin) !== profile.stateCode) {
+        alert(`The GSTIN is registered in ${describeStateCode(getGstinStateCode(profile.gstin))}, but the state selected is ${describeStateCode(profile.stateCode)}.`);
+        return;
+    }
+    const numbering = readNumberingSeriesForm(formData);
+    if (!numbering) return;
+    companyProfile = profile;
+    numberingSeries = numbering;
+    if (!(await saveData())) return;
+    alert('Company profile saved.');
+    renderCompanyView();
+}
+
+// --- Data Health ---
+// Cross-checks POs against the dispatch ledger. Every finding carries a stable key so a
+// single repair can be applied after a re-render without holding on to stale objects.
+const DATA_HEALTH_QTY_EPSILON = 0.0001;
+
+interface DataHealthFinding {
+    key: string;
+    kind: 'quantity-mismatch' | 'orphan-dispatch' | 'material-not-on-po' | 'unlinked-revision';
+    poId: string;
+    dispatchId?: string;
+    originalPoId?: string;
+    lineId?: string;
+    material?: string;
+    unit?: string;
+    description: string;
+    repairLabel: string;
+}
+
+export function findDataHealthIssues(): DataHealthFinding[] {
+    const findings: DataHealthFinding[] = [];
+    const poIds = new Set(purchaseOrders.map(po => po.id));
+
+    purchaseOrders.forEach(po => {
+        const ledger = computeDispatchedQuantityByLine(po);
+        const stored = po.dispatchedQuantityByLine || {};
+        const mismatches = Array.from(new Set([...Object.keys(ledger), ...Object.keys(stored)]))
+            .filter(lineId => Math.abs((stored[lineId] || 0) - (ledger[lineId] || 0)) > DATA_HEALTH_QTY_EPSILON)
+            .map(lineId => `${describePOLine(po, lineId, lineId)}: stored ${(stored[lineId] || 0).toFixed(2)}, ledger ${(ledger[lineId] || 0).toFixed(2)}`);
+        if (mismatches.length > 0) {
+            findings.push({
+                key: `quantity-mismatch:${po.id}`,
+                kind: 'quantity-mismatch',
+                poId: po.id,
+                description: `Stored dispatched quantities do not match the dispatch ledger (${mismatches.join('; ')}).`,
+                repairLabel: 'Recalculate from ledger'
+            });
+        }
+
+        const poLineIds = new Set(po.items.map(item => item.id));
+        const unknownLines: { [lineId: string]: { material: string; quantity: number; unit: string; dispatchIds: string[] } } = {};
+        dispatches.filter(d => d.poId === po.id && !d.voided).forEach(d => {
+            d.dispatchedItems.forEach(item => {
+                if (poLineIds.has(item.lineId)) return;
+                const entry = unknownLines[item.lineId] = unknownLines[item.lineId] || { material: item.material.toUpperCase(), quantity: 0, unit: item.unit, dispatchIds: [] };
+                entry.quantity += item.lineQuantity;
+                if (!entry.dispatchIds.includes(d.id)) entry.dispatchIds.push(d.id);
+            });
+        });
+        Object.keys(unknownLines).forEach(lineId => {
+            const entry = unknownLines[lineId];
+            findings.push({
+                key: `material-not-on-po:${po.id}:${lineId}`,
+                kind: 'material-not-on-po',
+                poId: po.id,
+                lineId,
+                material: entry.material,
+                unit: entry.unit,
+                description: `${entry.material} (${entry.quantity.toFixed(2)} ${entry.unit}) was dispatched in ${entry.dispatchIds.join(', ')} but is not a line on the PO.`,
+                repairLabel: 'Add as PO item'
+            });
+        });
+
+        // Revisions migration v3 could not confirm from both sides of the audit log
+        if (!po.revisedFrom) {
+            const original = purchaseOrders.find(p => p.id !== po.id && auditLogNamesRevision(auditLog, po.id, p.id));
+            if (original && !original.revisedInto) {
+                findings.push({
+                    key: `unlinked-revision:${po.id}`,
+                    kind: 'unlinked-revision',
+                    poId: po.id,
+                    originalPoId: original.id,
+                    description: `The history says this PO was revised from PO ${original.id} (${original.status}), but the two are not linked.`,
+                    repairLabel: 'Link as revision'
+                });
+            }
+        }
+    });
+
+    dispatches.filter(d => !d.voided && !poIds.has(d.poId)).forEach(d => {
+        findings.push({
+            key: `orphan-dispatch:${d.id}`,
+            kind: 'orphan-dispatch',
+            poId: d.poId,
+            dispatchId: d.id,
+            description: `Dispatch ${d.id} refers to PO ${d.poId}, which does not exist.`,
+            repairLabel: 'Void dispatch'
+        });
+    });
+
+    return findings;
+}
+
+// Applies one repair in memory. The caller saves, queues the returned changes for sync and re-renders.
+function repairDataHealthFinding(finding: DataHealthFinding): RecordSyncChange[] {
+    if (finding.kind === 'orphan-dispatch') {
+        const dispatch = dispatches.find(d => d.id === finding.dispatchId);
+        if (!dispatch || dispatch.voided) return [];
+        const reason = `PO ${dispatch.poId} does not exist (Data Health repair)`;
+        dispatch.voided = { at: new Date().toISOString(), by: getActingUser(), reason };
+        dispatch.updatedAt = dispatch.voided.at;
+        recordAuditEntry('dispatch', dispatch, 'void', [], `Reason: ${reason}`);
+        return [{ entity: 'dispatch', action: 'void', record: dispatch }];
+    }
+
+    const po = purchaseOrders.find(p => p.id === finding.poId);
+    if (!po) return [];
+    if (finding.kind === 'unlinked-revision') {
+        const original = purchaseOrders.find(p => p.id === finding.originalPoId);
+        if (!original || po.revisedFrom || original.revisedInto) return [];
+        const now = new Date().toISOString();
+        recordAuditEntry('po', po, 'repair', [{ field: 'revisedFrom', before: undefined, after: original.id }], `Data Health: ${finding.description}`);
+        recordAuditEntry('po', original, 'repair', [{ field: 'revisedInto', before: undefined, after: po.id }], `Data Health: linked to its revision PO ${po.id}.`);
+        po.revisedFrom = original.id;
+        original.revisedInto = po.id;
+        po.updatedAt = now;
+        original.updatedAt = now;
+        return [{ entity: 'po', action: 'update', record: po }, { entity: 'po', action: 'update', record: original }];
+    }
+    const before = JSON.parse(JSON.stringify(po));
+    if (finding.kind === 'material-not-on-po' && finding.lineId && finding.material) {
+        if (po.items.some(item => item.id === finding.lineId)) return [];
+        // Added at rate 0 so the PO total is unchanged; the rate can be set by editing the PO.
+        po.items.push({
+            id: finding.lineId,
+            material: finding.material,
+            quantity: computeDispatchedQuantityByLine(po)[finding.lineId] || 0,
+            unit: finding.unit || DEFAULT_MATERIAL_UNIT,
+            rate: 0,
+            gstPercentage: DEFAULT_GST_RATE,
+            discountPercentage: 0,
+            schedule: [],
+            siteId: dispatches.find(d => d.poId === po.id && d.dispatchedItems.some(i => i.lineId === finding.lineId))?.siteId || po.deliverySites[0].id
+        });
+    }
+    po.dispatchedQuantityByLine = computeDispatchedQuantityByLine(po);
+    updatePOStatus(po.id);
+    po.updatedAt = new Date().toISOString();
+    recordAuditEntry('po', po, 'repair', diffRecordsForAudit(before, po), `Data Health: ${finding.description}`);
+    return [{ entity: 'po', action: 'update', record: po }];
+}
+
+function renderDataHealthView(): void {
+    const findings = findDataHealthIssues();
+    mainContent.innerHTML = `
+        <div class="list-container">
+            <h2>Data Health</h2>
+            <p>Dispatched quantities are worked out from the dispatch log. This screen lists records that disagree with it, and revisions the change history records but that are not linked.</p>
+            ${findings.length === 0 ? '<p>No problems found.</p>' : `
+            <div class="table-responsive-wrapper">
+            <table class="po-details-table" aria-label="Data health findings">
+                <thead><tr><th>Problem</th><th>PO ID</th><th>Details</th><th>Actions</th></tr></thead>
+                <tbody>
+                    ${findings.map(finding => `
+                        <tr>
+                            <td>${finding.kind === 'quantity-mismatch' ? 'Quantity mismatch' : finding.kind === 'orphan-dispatch' ? 'Dispatch without PO' : finding.kind === 'unlinked-revision' ? 'Unlinked revision' : 'Material not on PO'}</td>
+                            <td>${escapeHTML(finding.poId)}</td>
+                            <td>${escapeHTML(finding.description)}</td>
+                            <td><button type="button" class="info small" data-repair-finding="${escapeHTML(finding.key)}">${escapeHTML(finding.repairLabel)}</button></td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>
+            </div>
+            <button type="button" id="repair-all-findings" class="primary">Repair All (${findings.length})</button>`}
+        </div>
+    `;
+
+    mainContent.querySelectorAll('button[data-repair-finding]').forEach(button => {
+        button.addEventListener('click', async () => {
+            const finding = findDataHealthIssues().find(f => f.key === (button as HTMLElement).dataset.repairFinding);
+            if (!finding) {
+                renderDataHealthView();
+                return;
+            }
+            const syncChanges = repairDataHealthFinding(finding);
+            if (!(await saveData())) return;
+            queueSyncChanges(syncChanges);
+            renderDataHealthView();
+        });
+    });
+    document.getElementById('repair-all-findings')?.addEventListener('click', async () => {
+        const currentFindings = findDataHealthIssues();
+        if (!confirm(`Apply all ${currentFindings.length} repairs?`)) return;
+        const syncChanges = currentFindings.flatMap(repairDataHealthFinding);
+        if (!(await saveData())) return;
+        queueSyncChanges(syncChanges);
+        renderDataHealthView();
+    });
+}
+
+// --- Server Sync ---
+// Local changes are queued in the syncQueue store and pushed to the REST API in order.
+// Remote changes are pulled from GET /changes and merged last-writer-wins on updatedAt.
+// The queue survives reloads; the service worker replays it through Background Sync
+// when the page is closed (see service-worker.js).
+const DEFAULT_SYNC_API_URL: string = process.env.REACT_APP_API_URL || '';
+const SYNC_BACKGROUND_TAG = 'hitech-sync';
+const SYNC_LOCK_NAME = 'hitech-sync';
+const SYNC_RETRY_INTERVAL_MS = 60000;
+const SYNC_CONFLICT_LOG_LIMIT = 200;
+// A change the server keeps refusing with a 4xx is parked after this many tries, so it doesn't
+// hold up everything queued behind it. 408 and 429 only mean "try later" and are never parked.
+const SYNC_MAX_REJECTED_ATTEMPTS = 3;
+
+type SyncEntity = 'po' | 'dispatch';
+type SyncAction = 'create' | 'update' | 'cancel' | 'void';
+
+// A change made by a helper that edits many records. The caller queues it once saved.
+interface RecordSyncChange {
+    entity: SyncEntity;
+    action: SyncAction;
+    record: PurchaseOrder | Dispatch;
+}
+
+interface SyncOperation {
+    id: string; // op-<epoch ms>-<sequence>; sorts in queue order
+    entity: SyncEntity;
+    action: SyncAction;
+    recordId: string;
+    method: 'POST' | 'PUT';
+    path: string; // Relative to the API URL so the service worker can replay it
+    body: PurchaseOrder | Dispatch;
+    queuedAt: string;
+    attempts: number;
+    lastError?: string;
+}
+
+interface SyncConflict {
+    entity: SyncEntity;
+    recordId: string;
+    detectedAt: string;
+    winner: 'local' | 'remote';
+    localUpdatedAt?: string;
+    remoteUpdatedAt?: string;
+    changedFields: string[];
+    note?: string; // Set when a record or change was set aside rather than merged, e.g. a server record that failed validation
+    parkedOperation?: SyncOperation; // A queued change the server kept rejecting; it can be queued again from the Sync screen
+}
+
+interface RemoteChanges {
+    purchaseOrders: PurchaseOrder[];
+    dispatches: Dispatch[];
+    cursor: string;
+}
+
+let syncApiUrl = DEFAULT_SYNC_API_URL;
+let syncQueue: SyncOperation[] = [];
+let syncConflictLog: SyncConflict[] = [];
+let syncCursor = '';
+let lastSyncAt = '';
+let lastSyncError = '';
+let syncInProgress = false;
+let syncOperationSequence = 0; // Keeps IDs (and so queue order) unique within one millisecond
+
+function syncPathFor(entity: SyncEntity, action: SyncAction, recordId: string): { method: SyncOperation['method']; path: string } {
+    const collection = entity === 'po' ? 'purchase-orders' : 'dispatches';
+    if (action === 'create') return { method: 'POST', path: `/${collection}` };
+    if (action === 'cancel' || action === 'void') return { method: 'POST', path: `/${collection}/${encodeURIComponent(recordId)}/${action}` };
+    return { method: 'PUT', path: `/${collection}/${encodeURIComponent(recordId)}` };
+}
+
+async function loadSyncState(): Promise<void> {
+    if (!database) return;
+    syncQueue = await readSyncQueue();
+    syncApiUrl = (await readSetting<string>('syncApiUrl')) ?? DEFAULT_SYNC_API_URL;
+    syncCursor = (await readSetting<string>('syncCursor')) || '';
+    lastSyncAt = (await readSetting<string>('lastSyncAt')) || '';
+    syncConflictLog = (await readSetting<SyncConflict[]>('syncConflictLog')) || [];
+    // The service worker reads the URL from here when replaying the queue.
+    await writeSetting('syncApiUrl', syncApiUrl);
+}
+
+// The queue store is shared by every open tab, so operations are written and removed
+// one by one rather than rewriting the whole store from this tab's copy.
+async function readSyncQueue(): Promise<SyncOperation[]> {
+    if (!database) return [];
+    const ops: SyncOperation[] = await requestToPromise(database.transaction(STORE_SYNC_QUEUE, 'readonly').objectStore(STORE_SYNC_QUEUE).getAll());
+    return ops.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+async function putSyncOperations(ops: SyncOperation[]): Promise<void> {
+    if (!database || ops.length === 0) return;
+    const tx = database.transaction(STORE_SYNC_QUEUE, 'readwrite');
+    ops.forEach(op => tx.objectStore(STORE_SYNC_QUEUE).put(op));
+    await transactionToPromise(tx);
+}
+
+async function deleteSyncOperations(opIds: string[]): Promise<void> {
+    if (!database || opIds.length === 0) return;
+    const tx = database.transaction(STORE_SYNC_QUEUE, 'readwrite');
+    opIds.forEach(id => tx.objectStore(STORE_SYNC_QUEUE).delete(id));
+    await transactionToPromise(tx);
+}
+
+export function addToSyncQueue(entity: SyncEntity, action: SyncAction, record: PurchaseOrder | Dispatch): SyncOperation {
+    const { method, path } = syncPathFor(entity, action, record.id);
+    const op: SyncOperation = {
+        id: `op-${Date.now()}-${(syncOperationSequence++).toString().padStart(6, '0')}`,
+        entity,
+        action,
+        recordId: record.id,
+        method,
+        path,
+        body: JSON.parse(JSON.stringify(record)),
+        queuedAt: new Date().toISOString(),
+        attempts: 0
+    };
+    syncQueue.push(op);
+    return op;
+}
+
+function queueSyncOperation(entity: SyncEntity, action: SyncAction, record: PurchaseOrder | Dispatch): void {
+    if (!syncApiUrl) return;
+    putSyncOperations([addToSyncQueue(entity, action, record)])
+        .then(() => runSync())
+        .catch(e => console.error('Error saving sync queue:', e));
+}
+
+function queueSyncChanges(changes: RecordSyncChange[]): void {
+    changes.forEach(change => queueSyncOperation(change.entity, change.action, change.record));
+}
+
+function logSyncConflict(conflict: SyncConflict): void {
+    syncConflictLog.unshift(conflict);
+    syncConflictLog = syncConflictLog.slice(0, SYNC_CONFLICT_LOG_LIMIT);
+    writeSetting('syncConflictLog', syncConflictLog).catch(e => console.error('Error saving sync conflict log:', e));
+}
+
+function requestBackgroundSync(): void {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.ready
+        .then(registration => (registration as any).sync?.register(SYNC_BACKGROUND_TAG))
+        .catch(e => console.warn('Background sync registration failed:', e));
+}
+
+// Gives a local PO that has never reached the server a new ID, because the server already
+// holds a different PO under the old one. Dispatches and queued operations follow it.
+function renumberUnsyncedPO(oldId: string, reservedIds: Set<string>): string {
+    const po = purchaseOrders.find(p => p.id === oldId);
+    const newId = allocateDocumentNumber('po', toLocalDateOnly(po ? new Date(po.createdAt) : new Date()), reservedIds);
+    if (po) po.id = newId;
+    purchaseOrders.forEach(p => {
+        if (p.revisedFrom === oldId) p.revisedFrom = newId;
+        if (p.revisedInto === oldId) p.revisedInto = newId;
+    });
+    dispatches.filter(d => d.poId === oldId).forEach(d => { d.poId = newId; });
+    auditLog.filter(entry => entry.poId === oldId).forEach(entry => {
+        entry.poId = newId;
+        if (entry.entity === 'po') entry.recordId = newId;
+        editedAuditEntryIds.add(entry.id);
+    });
+    syncQueue.forEach(op => {
+        if (op.entity === 'po' && op.recordId === oldId) {
+            op.recordId = newId;
+            op.body = { ...(op.body as PurchaseOrder), id: newId };
+            op.path = syncPathFor('po', op.action, newId).path;
+        } else if (op.entity === 'dispatch' && (op.body as Dispatch).poId === oldId) {
+            op.body = { ...(op.body as Dispatch), poId: newId };
+        }
+    });
+    if (po) recordAuditEntry('po', po, 'update', [{ field: 'id', before: oldId, after: newId }],
+        `Renumbered from ${oldId}: the server already has a different PO ${oldId}.`);
+    return newId;
+}
+
+// Records from the server carry no schema version; a device still on an older release may
+// have written them. Each one goes through every SCHEMA_MIGRATIONS step (the steps only fill
+// in what is missing) against a copy of the local masters, then through the backup
+// validators. Records that still fail are not merged and are listed in the conflict log.
+export function normalizeRemoteChanges(changes: RemoteChanges): { purchaseOrders: PurchaseOrder[]; dispatches: Dispatch[]; rejected: SyncConflict[] } {
+    const migrateRecords = (pos: PurchaseOrder[], ds: Dispatch[]) => migratePersistedData({
+        schemaVersion: 0,
+        purchaseOrders: pos,
+        dispatches: ds,
+        materials: JSON.parse(JSON.stringify(materialMaster)),
+        parties: JSON.parse(JSON.stringify(parties)),
+        priceLists: [],
+        auditLog: [],
+        settings: { dispatchFilterStartDate, dispatchFilterEndDate, company: companyProfile, numbering: numberingSeries }
+    });
+    const rejected: SyncConflict[] = [];
+    const reject = (entity: SyncEntity, record: any, errors: string[]) => rejected.push({
+        entity,
+        recordId: typeof record?.id === 'string' ? record.id : '?',
+        detectedAt: new Date().toISOString(),
+        winner: 'local',
+        remoteUpdatedAt: typeof record?.updatedAt === 'string' ? record.updatedAt : undefined,
+        changedFields: [],
+        note: `Server record not merged: ${errors.slice(0, 3).join(' ')}${errors.length > 3 ? ` (${errors.length - 3} more)` : ''}`
+    });
+
+    const acceptedPOs: PurchaseOrder[] = [];
+    (Array.isArray(changes.purchaseOrders) ? changes.purchaseOrders : []).forEach(remotePO => {
+        let errors: string[];
+        try {
+            const remotePartyId = remotePO.partyId;
+            migrateRecords([remotePO], []);
+            // The party step may have matched the PO to a party that exists only in the copy
+            remotePO.partyId = remotePartyId || findPartyByName(remotePO.partyName)?.id;
+            errors = validatePurchaseOrderRecord(remotePO, `PO ${remotePO.id}`);
+        } catch (e) {
+            errors = [`PO ${(remotePO as any)?.id ?? '?'}: ${(e as Error).message}`];
+        }
+        if (errors.length > 0) reject('po', remotePO, errors);
+        else acceptedPOs.push(remotePO);
+    });
+
+    const acceptedDispatches: Dispatch[] = [];
+    (Array.isArray(changes.dispatches) ? changes.dispatches : []).forEach(remoteDispatch => {
+        let errors: string[];
+        try {
+            // Line IDs, units and the delivery site are filled in from the dispatch's PO
+            const po = acceptedPOs.find(p => p.id === remoteDispatch.poId) || purchaseOrders.find(p => p.id === remoteDispatch.poId);
+            migrateRecords(po ? [JSON.parse(JSON.stringify(po))] : [], [remoteDispatch]);
+            errors = validateDispatchRecord(remoteDispatch, `Dispatch ${remoteDispatch.id}`);
+        } catch (e) {
+            errors = [`Dispatch ${(remoteDispatch as any)?.id ?? '?'}: ${(e as Error).message}`];
+        }
+        if (errors.length > 0) reject('dispatch', remoteDispatch, errors);
+        else acceptedDispatches.push(remoteDispatch);
+    });
+    return { purchaseOrders: acceptedPOs, dispatches: acceptedDispatches, rejected };
+}
+
+export function hasPendingOperation(entity: SyncEntity, recordId: string): boolean {
+    return syncQueue.some(op => op.entity === entity && op.recordId === recordId);
+}
+
+// Applies one remote record using last-writer-wins. Returns true if local data changed.
+export function mergeRemoteRecord<T extends PurchaseOrder | Dispatch>(entity: SyncEntity, list: T[], remote: T, ignoredFields: string[]): boolean {
+    const index = list.findIndex(r => r.id === remote.id);
+    if (index === -1) {
+        list.push(remote);
+        return true;
+    }
+    const local = list[index];
+    const changedFields = diffRecordFields(local, remote, ignoredFields);
+    if (changedFields.length === 0) return false;
+
+    const pendingLocalEdit = hasPendingOperation(entity, local.id);
+    const remoteWins = !isNewer(local.updatedAt, remote.updatedAt);
+    if (pendingLocalEdit) {
+        logSyncConflict({
+            entity,
+            recordId: local.id,
+            detectedAt: new Date().toISOString(),
+            winner: remoteWins ? 'remote' : 'local',
+            localUpdatedAt: local.updatedAt,
+            remoteUpdatedAt: remote.updatedAt,
+            changedFields
+        });
+    }
+    if (!remoteWins) return false;
+
+    list[index] = remote;
+    if (pendingLocalEdit) {
+        // The local edit lost; drop it so it can't overwrite the newer remote version.
+        syncQueue = syncQueue.filter(op => !(op.entity === entity && op.recordId === local.id));
+    }
+    return true;
+}
+
+async function pullRemoteChanges(): Promise<boolean> {
+    const response = await fetch(`${syncApiUrl}/changes?since=${encodeURIComponent(syncCursor)}`);
+    if (!response.ok) throw new Error(`Pull failed: HTTP ${response.status}`);
+    const received: RemoteChanges = await response.json();
+    const { rejected, ...normalized } = normalizeRemoteChanges(received);
+    const changes: RemoteChanges = { ...normalized, cursor: received.cursor };
+    rejected.forEach(logSyncConflict);
+    const isFirstPull = syncCursor === '';
+    const queuedIdsBefore = syncQueue.map(op => op.id);
+
+    const affectedPOIds = new Set<string>();
+    // Rejected records still exist on the server, so their IDs count as taken
+    const remotePOIds = new Set(received.purchaseOrders.map(po => po.id));
+
+    changes.purchaseOrders.forEach(remotePO => {
+        const local = purchaseOrders.find(po => po.id === remotePO.id);
+        if (local && local.createdAt !== remotePO.createdAt) {
+            affectedPOIds.add(renumberUnsyncedPO(local.id, remotePOIds));
+        }
+        if (mergeRemoteRecord('po', purchaseOrders, remotePO, DERIVED_PO_FIELDS)) affectedPOIds.add(remotePO.id);
+    });
+    changes.dispatches.forEach(remoteDispatch => {
+        const previousPOId = dispatches.find(d => d.id === remoteDispatch.id)?.poId;
+        if (mergeRemoteRecord('dispatch', dispatches, remoteDispatch, DERIVED_DISPATCH_FIELDS)) {
+            affectedPOIds.add(remoteDispatch.poId);
+            if (previousPOId) affectedPOIds.add(previousPOId);
+        }
+    });
+
+    if (isFirstPull) {
+        // Records created before this device was connected to the server are sent up once.
+        const remoteDispatchIds = new Set(received.dispatches.map(d => d.id));
+        purchaseOrders
+            .filter(po => !remotePOIds.has(po.id) && !hasPendingOperation('po', po.id))
+            .forEach(po => addToSyncQueue('po', 'create', po));
+        dispatches
+            .filter(d => !remoteDispatchIds.has(d.id) && !hasPendingOperation('dispatch', d.id))
+            .forEach(d => addToSyncQueue('dispatch', 'create', d));
+    }
+    // Merging may have dropped operations that lost to the server, or renumbered others.
+    await deleteSyncOperations(queuedIdsBefore.filter(id => !syncQueue.some(op => op.id === id)));
+    await putSyncOperations(syncQueue);
+
+    if (affectedPOIds.size > 0) {
+        purchaseOrders.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        dispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
+        purchaseOrders.filter(po => affectedPOIds.has(po.id)).forEach(po => {
+            po.dispatchedQuantityByLine = computeDispatchedQuantityByLine(po);
+            updatePOStatus(po.id);
+        });
+        // The cursor only moves on once the merged records are stored, so they are pulled again otherwise
+        if (!(await saveData())) throw new Error('Changes from the server could not be saved on this device. They will be pulled again.');
+    }
+    syncCursor = changes.cursor;
+    await writeSetting('syncCursor', syncCursor);
+    return affectedPOIds.size > 0;
+}
+
+// Pushes queued operations in order, stopping at the first one that can't be sent.
+// Returns 'retry-after-pull' if the server reported a PO ID clash.
+export async function pushQueuedOperations(): Promise<'done' | 'retry-after-pull'> {
+    while (syncQueue.length > 0) {
+        const op = syncQueue[0];
+        let response: Response;
+        try {
+            response = await fetch(`${syncApiUrl}${op.path}`, {
+                method: op.method,
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(op.body)
+            });
+        } catch (e) {
+            requestBackgroundSync();
+            throw new Error('Server unreachable. Changes are queued and will be retried.');
+        }
+
+        if (response.status === 409) {
+            const conflict: { reason: 'stale' | 'id-taken'; record: PurchaseOrder | Dispatch } = await response.json();
+            if (conflict.reason === 'id-taken') return 'retry-after-pull';
+            // The server holds a newer version: it wins.
+            logSyncConflict({
+                entity: op.entity,
+                recordId: op.recordId,
+                detectedAt: new Date().toISOString(),
+                winner: 'remote',
+                localUpdatedAt: op.body.updatedAt,
+                remoteUpdatedAt: conflict.record.updatedAt,
+                changedFields: diffRecordFields(op.body, conflict.record, op.entity === 'po' ? DERIVED_PO_FIELDS : DERIVED_DISPATCH_FIELDS)
+            });
+            syncQueue.shift();
+            await deleteSyncOperations([op.id]);
+            continue;
+        }
+        if (!response.ok) {
+            op.attempts++;
+            op.lastError = `HTTP ${response.status}`;
+            const rejected = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429;
+            if (rejected && op.attempts >= SYNC_MAX_REJECTED_ATTEMPTS) {
+                logSyncConflict({
+                    entity: op.entity,
+                    recordId: op.recordId,
+                    detectedAt: new Date().toISOString(),
+                    winner: 'local',
+                    localUpdatedAt: op.body.updatedAt,
+                    changedFields: [],
+                    note: `Change (${op.action}) rejected by the server ${op.attempts} times (${op.lastError}) and set aside.`,
+                    parkedOperation: op
+                });
+                syncQueue.shift();
+                await deleteSyncOperations([op.id]);
+                continue;
+            }
+            await putSyncOperations([op]);
+            throw new Error(`Server rejected ${op.entity} ${op.recordId} (${op.action}): HTTP ${response.status}`);
+        }
+        syncQueue.shift();
+        await deleteSyncOperations([op.id]);
+    }
+    return 'done';
+}
+
+async function syncOnce(): Promise<boolean> {
+    // Other tabs may have queued operations since we last looked.
+    syncQueue = await readSyncQueue();
+    let dataChanged = await pullRemoteChanges();
+    if (await pushQueuedOperations() === 'retry-after-pull') {
+        dataChanged = (await pullRemoteChanges()) || dataChanged;
+        await pushQueuedOperations();
+    }
+    lastSyncAt = new Date().toISOString();
+    lastSyncError = '';
+    await writeSetting('lastSyncAt', lastSyncAt);
+    return dataChanged;
+}
+
+async function runSync(): Promise<void> {
+    if (!syncApiUrl || syncInProgress || !database) return;
+    syncInProgress = true;
+    let dataChanged = false;
+    try {
+        if (navigator.locks) {
+            // Only one tab talks to the server at a time; the others skip this round.
+            await navigator.locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+                if (lock) dataChanged = await syncOnce();
+            });
+        } else {
+            dataChanged = await syncOnce();
+        }
+    } catch (e) {
+        lastSyncError = (e as Error).message;
+        console.warn('Sync failed:', e);
+    } finally {
+        syncInProgress = false;
+    }
+    refreshViewAfterBackgroundChange(dataChanged);
+}
+
+// Re-renders list-style views after data changed underneath them. The PO form and open
+// modals are left alone so nothing the user is typing gets lost.
+function refreshViewAfterBackgroundChange(dataChanged: boolean): void {
+    if (currentView === 'sync') {
+        renderSyncView();
+        return;
+    }
+    if (!dataChanged || currentView === 'create-po') return;
+    if (document.querySelector('.modal[style*="display: block"]')) return;
+    renderApp();
+}
+
+function renderSyncView(): void {
+    const online = navigator.onLine;
+    mainContent.innerHTML = `
+        <div class="list-container">
+            <h2>Server Sync</h2>
+            <form id="sync-settings-form" class="dispatch-filter-controls" style="display: flex; flex-wrap: wrap; align-items: flex-end; gap: 15px; margin-bottom: 20px;">
+                <div class="form-group" style="margin-bottom: 0; flex: 1 1 300px;">
+                    <label for="syncApiUrl">Server API URL (leave empty to work offline only):</label>
+                    <input type="text" id="syncApiUrl" name="syncApiUrl" value="${escapeHTML(syncApiUrl)}" placeholder="http://localhost:3001">
+                </div>
+                <button type="submit" class="secondary">Save URL</button>
+                <button type="button" id="sync-now" class="primary" ${syncApiUrl ? '' : 'disabled'}>Sync Now</button>
+            </form>
+            <p><strong>Connection:</strong> ${online ? 'Online' : 'Offline'}${syncInProgress ? ' (syncing...)' : ''}</p>
+            <p><strong>Last successful sync:</strong> ${escapeHTML(lastSyncAt ? formatToDDMMYY_HHMM(lastSyncAt) : 'Never')}</p>
+            ${lastSyncError ? `<p class="error-message">${escapeHTML(lastSyncError)}</p>` : ''}
+
+            <h3>Queued Changes (${syncQueue.length})</h3>
+            ${syncQueue.length === 0 ? '<p>Everything has been sent to the server.</p>' : `
+            <div class="table-responsive-wrapper">
+            <table class="po-details-table" aria-label="Queued changes">
+                <thead><tr><th>Queued At</th><th>Record</th><th>Change</th><th>Attempts</th><th>Last Error</th><th>Actions</th></tr></thead>
+                <tbody>
+                    ${syncQueue.map(op => `
+                        <tr>
+                            <td>${escapeHTML(formatToDDMMYY_HHMM(op.queuedAt))}</td>
+                            <td>${op.entity === 'po' ? 'PO' : 'Dispatch'} ${escapeHTML(op.recordId)}</td>
+                            <td>${escapeHTML(op.action)}</td>
+                            <td class="text-right">${op.attempts}</td>
+                            <td>${escapeHTML(op.lastError || '')}</td>
+                            <td><button type="button" class="danger small" data-discard-op="${escapeHTML(op.id)}">Discard</button></td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>
+            </div>`}
+
+            <h3>Conflict Log (${syncConflictLog.length})</h3>
+            ${syncConflictLog.length === 0 ? '<p>No conflicts so far.</p>' : `
+            <div class="table-responsive-wrapper">
+            <table class="po-details-table" aria-label="Sync conflict log">
+                <thead><tr><th>Detected</th><th>Record</th><th>Fields</th><th>Edited Here</th><th>Edited on Server</th><th>Kept</th></tr></thead>
+                <tbody>
+                    ${syncConflictLog.map(c => `
+                        <tr>
+                            <td>${escapeHTML(formatToDDMMYY_HHMM(c.detectedAt))}</td>
+                            <td>${c.entity === 'po' ? 'PO' : 'Dispatch'} ${escapeHTML(c.recordId)}</td>
+                            <td>${escapeHTML(c.changedFields.join(', '))}${c.note ? `<br><small>${escapeHTML(c.note)}</small>` : ''}</td>
+                            <td>${escapeHTML(formatToDDMMYY_HHMM(c.localUpdatedAt))}</td>
+                            <td>${escapeHTML(formatToDDMMYY_HHMM(c.remoteUpdatedAt))}</td>
+                            <td>${c.winner === 'local' ? 'This device' : 'Server'}${c.parkedOperation ? ` <button type="button" class="info small" data-requeue-op="${escapeHTML(c.parkedOperation.id)}">Queue Again</button>` : ''}</td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>
+            </div>
+            <button type="button" id="clear-sync-conflicts" class="secondary small">Clear Conflict Log</button>`}
+        </div>
+    `;
+
+    document.getElementById('sync-settings-form')?.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const newUrl = (document.getElementById('syncApiUrl') as HTMLInputElement).value.trim().replace(/\/+$/, '');
+        if (newUrl !== syncApiUrl) {
+            syncApiUrl = newUrl;
+            syncCursor = ''; // A different server needs a full pull
+            await writeSetting('syncApiUrl', syncApiUrl);
+            await writeSetting('syncCursor', syncCursor);
+        }
+        renderSyncView();
+        runSync();
+    });
+    document.getElementById('sync-now')?.addEventListener('click', () => {
+        runSync();
+        renderSyncView();
+    });
+    document.getElementById('clear-sync-conflicts')?.addEventListener('click', async () => {
+        syncConflictLog = [];
+        await writeSetting('syncConflictLog', syncConflictLog);
+        renderSyncView();
+    });
+    mainContent.querySelectorAll('button[data-discard-op]').forEach(button => {
+        button.addEventListener('click', async () => {
+            const opId = (button as HTMLElement).dataset.discardOp;
+            if (!confirm('Discard this change? It will never be sent to the server.')) return;
+            syncQueue = syncQueue.filter(op => op.id !== opId);
+            await deleteSyncOperations([opId!]);
+            renderSyncView();
+        });
+    });
+    // A parked change is sent again as the record is now, e.g. after it was corrected
+    mainContent.querySelectorAll('button[data-requeue-op]').forEach(button => {
+        button.addEventListener('click', async () => {
+            const conflict = syncConflictLog.find(c => c.parkedOperation?.id === (button as HTMLElement).dataset.requeueOp);
+            const op = conflict?.parkedOperation;
+            if (!conflict || !op) return;
+            const current = op.entity === 'po' ? purchaseOrders.find(po => po.id === op.recordId) : dispatches.find(d => d.id === op.recordId);
+            syncConflictLog = syncConflictLog.filter(c => c !== conflict);
+            await writeSetting('syncConflictLog', syncConflictLog);
+            queueSyncOperation(op.entity, op.action, current || op.body);
+            renderSyncView();
+        });
+    });
+}
+
+async function initSync(): Promise<void> {
+    await loadSyncState();
+    window.addEventListener('online', () => runSync());
+    window.addEventListener('offline', () => refreshViewAfterBackgroundChange(false));
+    setInterval(() => {
+        if (syncQueue.length > 0 || navigator.onLine) runSync();
+    }, SYNC_RETRY_INTERVAL_MS);
+    if ('serviceWorker' in navigator) {
+        navigator.serviceWorker.addEventListener('message', (event) => {
+            if (event.data?.type === 'sync-queue-replayed') {
+                // The service worker sent some operations while we weren't looking.
+                loadSyncState().then(() => runSync());
+            } else if (event.data?.type === 'flush-sync-queue') {
+                runSync();
+            }
+        });
+    }
+    runSync();
+}
+
+// --- Device Merge ---
+// Merges a backup taken on another device into the local data. The two devices hand out
+// PO IDs independently, so POs are matched on createdAt (to the millisecond) rather than ID;
+// an incoming PO whose ID is taken by a different local PO is renumbered.
+interface MergeConflict {
+    kind: 'po' | 'dispatch';
+    localId: string;
+    local: PurchaseOrder | Dispatch;
+    incoming: PurchaseOrder | Dispatch;
+    changedFields: string[];
+    resolution: 'local' | 'incoming';
+}
+
+interface DeviceMergePlan {
+    fileName: string;
+    poIdMap: { [incomingId: string]: string };
+    addedPOs: { originalId: string; po: PurchaseOrder }[];
+    addedDispatches: Dispatch[];
+    duplicateDispatchIds: string[];
+    unchangedPOs: number;
+    unchangedDispatches: number;
+    conflicts: MergeConflict[];
+    newMaterials: Material[];
+    newParties: Party[];
+    partyIdMap: { [incomingId: string]: string };
+    newPriceLists: PriceList[];
+    newAuditEntries: AuditEntry[];
+}
+
+let pendingDeviceMerge: DeviceMergePlan | null = null;
+
+// Fields that are recalculated after merging and so never count as a conflict.
+const DERIVED_PO_FIELDS = ['status', 'dispatchedQuantityByLine', 'updatedAt'];
+const DERIVED_DISPATCH_FIELDS = ['updatedAt'];
+
+function diffRecordFields(a: any, b: any, ignoredFields: string[]): string[] {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys]
+        .filter(key => !ignoredFields.includes(key))
+        .filter(key => stableStringify(a[key]) !== stableStringify(b[key]))
+        .sort();
+}
+
+// Two lines of one PO can carry the same material, so the line is part of the fingerprint.
+function dispatchFingerprint(d: Dispatch): string {
+    const items = d.dispatchedItems
+        .map(i => `${i.lineId}:${i.material.toUpperCase()}:${i.quantity} ${i.unit}=${i.lineQuantity}`)
+        .sort()
+        .join('|');
+    return `${d.poId}#${d.dispatchedAt}#${d.vehicleNumber.toUpperCase()}#${items}`;
+}
+
+function isNewer(a?: string, b?: string): boolean {
+    return new Date(a || 0).getTime() > new Date(b || 0).getTime();
+}
+
+export function buildDeviceMergePlan(fileName: string, incoming: PersistedData): DeviceMergePlan {
+    const plan: DeviceMergePlan = {
+        fileName,
+        poIdMap: {},
+        addedPOs: [],
+        addedDispatches: [],
+        duplicateDispatchIds: [],
+        unchangedPOs: 0,
+        unchangedDispatches: 0,
+        conflicts: [],
+        newMaterials: incoming.materials.filter(m => !findMaterialByName(m.name)),
+        newParties: [],
+        partyIdMap: {},
+        newPriceLists: [],
+        newAuditEntries: []
+    };
+
+    // Parties are matched by name; a party only on the other device keeps its ID unless it clashes.
+    const takenPartyIds = new Set(parties.map(p => p.id));
+    incoming.parties.forEach(incomingParty => {
+        const match = findPartyByName(incomingParty.name);
+        if (match) {
+            plan.partyIdMap[incomingParty.id] = match.id;
+            return;
+        }
+        const id = takenPartyIds.has(incomingParty.id) ? generatePartyId([...parties, ...plan.newParties]) : incomingParty.id;
+        takenPartyIds.add(id);
+        plan.partyIdMap[incomingParty.id] = id;
+        plan.newParties.push({ ...incomingParty, id });
+    });
+
+    // Price lists are matched by name too; a new one points at this device's party IDs.
+    incoming.priceLists.filter(list => !priceLists.some(l => l.name === list.name)).forEach(list => {
+        plan.newPriceLists.push({
+            ...list,
+            id: priceLists.some(l => l.id === list.id) ? generatePriceListId([...priceLists, ...plan.newPriceLists]) : list.id,
+            partyIds: list.partyIds.map(id => plan.partyIdMap[id] || id)
+        });
+    });
+
+    // Renumbered records take the next number of this device's series that neither side has used.
+    // Only peeked here, as the plan may be discarded; later numbers skip them once they are merged.
+    const takenPOIds = new Set([...purchaseOrders, ...incoming.purchaseOrders].map(po => po.id));
+
+    incoming.purchaseOrders.forEach(incomingPO => {
+        const sameOrigin = purchaseOrders.filter(po => po.createdAt === incomingPO.createdAt);
+        const match = sameOrigin.find(po => po.id === incomingPO.id) || sameOrigin[0];
+
+        if (match) {
+            plan.poIdMap[incomingPO.id] = match.id;
+            const changedFields = diffRecordFields(match, { ...incomingPO, id: match.id }, DERIVED_PO_FIELDS);
+            if (changedFields.length === 0) {
+                plan.unchangedPOs++;
+            } else {
+                plan.conflicts.push({
+                    kind: 'po',
+                    localId: match.id,
+                    local: match,
+                    incoming: { ...incomingPO, id: match.id },
+                    changedFields,
+                    resolution: isNewer(incomingPO.updatedAt, match.updatedAt) ? 'incoming' : 'local'
+                });
+            }
+            return;
+        }
+
+        let newId = incomingPO.id;
+        if (purchaseOrders.some(po => po.id === newId) || plan.addedPOs.some(added => added.po.id === newId)) {
+            newId = peekDocumentNumber('po', toLocalDateOnly(new Date(incomingPO.createdAt)), takenPOIds).documentNumber;
+            takenPOIds.add(newId);
+        }
+        plan.poIdMap[incomingPO.id] = newId;
+        plan.addedPOs.push({ originalId: incomingPO.id, po: { ...incomingPO, id: newId } });
+    });
+
+    // Revision and party links point at the other device's IDs until they are mapped too.
+    const remapRevisionLinks = (po: PurchaseOrder) => {
+        if (po.revisedFrom) po.revisedFrom = plan.poIdMap[po.revisedFrom] || po.revisedFrom;
+        if (po.revisedInto) po.revisedInto = plan.poIdMap[po.revisedInto] || po.revisedInto;
+        if (po.partyId) po.partyId = plan.partyIdMap[po.partyId] || po.partyId;
+    };
+    plan.addedPOs.forEach(added => remapRevisionLinks(added.po));
+    plan.conflicts = plan.conflicts.filter(conflict => {
+        if (conflict.kind !== 'po') return true;
+        remapRevisionLinks(conflict.incoming as PurchaseOrder);
+        conflict.changedFields = diffRecordFields(conflict.local, conflict.incoming, DERIVED_PO_FIELDS);
+        if (conflict.changedFields.length > 0) return true;
+        plan.unchangedPOs++;
+        return false;
+    });
+
+    const localDispatchById = new Map(dispatches.map(d => [d.id, d] as [string, Dispatch]));
+    const knownFingerprints = new Set(dispatches.map(dispatchFingerprint));
+    const takenDispatchIds = new Set([...dispatches, ...incoming.dispatches].map(d => d.id));
+
+    incoming.dispatches.forEach(incomingDispatch => {
+        const mapped: Dispatch = { ...incomingDispatch, poId: plan.poIdMap[incomingDispatch.poId] || incomingDispatch.poId };
+        const sameId = localDispatchById.get(mapped.id);
+
+        if (sameId && sameId.poId === mapped.poId) {
+            const changedFields = diffRecordFields(sameId, mapped, DERIVED_DISPATCH_FIELDS);
+            if (changedFields.length === 0) {
+                plan.unchangedDispatches++;
+            } else {
+                plan.conflicts.push({
+                    kind: 'dispatch',
+                    localId: sameId.id,
+                    local: sameId,
+                    incoming: mapped,
+                    changedFields,
+                    resolution: isNewer(mapped.updatedAt, sameId.updatedAt) ? 'incoming' : 'local'
+                });
+            }
+            return;
+        }
+
+        const fingerprint = dispatchFingerprint(mapped);
+        if (knownFingerprints.has(fingerprint)) {
+            plan.duplicateDispatchIds.push(incomingDispatch.id);
+            return;
+        }
+        if (localDispatchById.has(mapped.id) || plan.addedDispatches.some(d => d.id === mapped.id)) {
+            mapped.id = peekDocumentNumber('dispatch', mapped.dispatchedAt.substring(0, 10), takenDispatchIds).documentNumber;
+            takenDispatchIds.add(mapped.id);
+        }
+        knownFingerprints.add(fingerprint);
+        plan.addedDispatches.push(mapped);
+    });
+
+    // Both devices' histories are kept; entries follow their PO if it was renumbered.
+    const knownAuditIds = new Set(auditLog.map(entry => entry.id));
+    incoming.auditLog.filter(entry => !knownAuditIds.has(entry.id)).forEach(entry => {
+        const poId = plan.poIdMap[entry.poId] || entry.poId;
+        plan.newAuditEntries.push({ ...entry, poId, recordId: entry.entity === 'po' ? poId : entry.recordId });
+    });
+
+    return plan;
+}
+
+async function applyDeviceMerge(): Promise<void> {
+    if (!pendingDeviceMerge) return;
+    const plan = pendingDeviceMerge;
+    const affectedPOIds = new Set<string>();
+
+    plan.conflicts.filter(c => c.resolution === 'incoming').forEach(conflict => {
+        if (conflict.kind === 'po') {
+            const index = purchaseOrders.findIndex(po => po.id === conflict.localId);
+            if (index > -1) purchaseOrders[index] = { ...(conflict.incoming as PurchaseOrder) };
+            affectedPOIds.add(conflict.localId);
+        } else {
+            const index = dispatches.findIndex(d => d.id === conflict.localId);
+            if (index > -1) dispatches[index] = { ...(conflict.incoming as Dispatch) };
+            affectedPOIds.add((conflict.incoming as Dispatch).poId);
+        }
+    });
+    plan.addedPOs.forEach(({ po }) => {
+        purchaseOrders.push(po);
+        affectedPOIds.add(po.id);
+    });
+    plan.addedDispatches.forEach(d => {
+        dispatches.push(d);
+        affectedPOIds.add(d.poId);
+    });
+    parties.push(...plan.newParties);
+    priceLists.push(...plan.newPriceLists);
+    plan.newMaterials.forEach(material => {
+        // Codes are per device, so a clashing code gets the next free one here
+        const code = materialMaster.some(m => m.code === material.code) ? nextMaterialCode(materialMaster) : material.code;
+        materialMaster.push({ ...material, code });
+    });
+    auditLog.push(...plan.newAuditEntries);
+
+    purchaseOrders.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    dispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
+    purchaseOrders.filter(po => affectedPOIds.has(po.id)).forEach(po => {
+        po.dispatchedQuantityByLine = computeDispatchedQuantityByLine(po);
+        updatePOStatus(po.id);
+    });
+
+    pendingDeviceMerge = null;
+    if (!(await saveData())) return;
+    // The server only hears about records through the queue, so the other device's records go too
+    plan.conflicts.filter(c => c.resolution === 'incoming').forEach(conflict => {
+        const record = conflict.kind === 'po' ? purchaseOrders.find(po => po.id === conflict.localId) : dispatches.find(d => d.id === conflict.localId);
+        if (record) queueSyncOperation(conflict.kind, 'update', record);
+    });
+    plan.addedPOs.forEach(({ po }) => queueSyncOperation('po', 'create', po));
+    plan.addedDispatches.forEach(d => queueSyncOperation('dispatch', 'create', d));
+    alert(`Merge complete: ${plan.addedPOs.length} POs and ${plan.addedDispatches.length} dispatches added, ${plan.conflicts.filter(c => c.resolution === 'incoming').length} records updated from the other device.`);
+    renderBackupView();
+}
+
+function renderDeviceMergeReportHTML(): string {
+    if (!pendingDeviceMerge) return '';
+    const plan = pendingDeviceMerge;
+    const renumbered = plan.addedPOs.filter(a => a.originalId !== a.po.id);
+
+    const conflictRows = plan.conflicts.map((conflict, index) => `
+        <tr>
+            <td>${conflict.kind === 'po' ? 'PO' : 'Dispatch'} ${escapeHTML(conflict.localId)}</td>
+            <td>${conflict.changedFields.map(field => `
+                <div><strong>${escapeHTML(field)}:</strong>
+                    ${escapeHTML(formatFieldValue((conflict.local as any)[field]))} &rarr;
+                    ${escapeHTML(formatFieldValue((conflict.incoming as any)[field]))}</div>`).join('')}
+            </td>
+            <td>${escapeHTML(formatToDDMMYY_HHMM(conflict.local.updatedAt))}</td>
+            <td>${escapeHTML(formatToDDMMYY_HHMM(conflict.incoming.updatedAt))}</td>
+            <td>
+                <label><input type="radio" name="merge-conflict-${index}" value="local" data-conflict-index="${index}" ${conflict.resolution === 'local' ? 'checked' : ''}> Keep this device</label><br>
+                <label><input type="radio" name="merge-conflict-${index}" value="incoming" data-conflict-index="${index}" ${conflict.resolution === 'incoming' ? 'checked' : ''}> Take other device</label>
+            </td>
+        </tr>
+    `).join('');
+
+    return `
+        <h3>Device Merge Report: ${escapeHTML(plan.fileName)}</h3>
+        <ul>
+            <li>${plan.addedPOs.length} new POs will be added${renumbered.length > 0 ? `, ${renumbered.length} of them renumbered because the ID is already used here:
+                ${escapeHTML(renumbered.map(r => `${r.originalId} → ${r.po.id}`).join(', '))}` : ''}.</li>
+            <li>${plan.addedDispatches.length} new dispatches will be added.</li>
+            <li>${plan.duplicateDispatchIds.length} dispatches are already recorded here and will be skipped.</li>
+            <li>${plan.unchangedPOs} POs and ${plan.unchangedDispatches} dispatches are identical on both devices.</li>
+            <li>POs are recognised as the same only by their exact creation time, so a PO entered separately on each device is added again.</li>
+            <li>${plan.newMaterials.length} new materials, ${plan.newParties.length} new parties, ${plan.newPriceLists.length} new price lists and ${plan.newAuditEntries.length} change history entries.</li>
+        </ul>
+        ${plan.conflicts.length > 0 ? `
+            <h4>Conflicts (${plan.conflicts.length}): records that differ between the devices</h4>
+            <p>The more recently edited side is selected by default. Dispatched quantities are recalculated after the merge.</p>
+            <p>The devices keep no common earlier version to compare against, so every field that differs is listed,
+               including fields only one device changed. Check each one before choosing a side.</p>
+            <div class="table-responsive-wrapper">
+            <table class="po-details-table" aria-label="Merge conflicts">
+                <thead><tr><th>Record</th><th>Changes (this device &rarr; other device)</th><th>Edited Here</th><th>Edited There</th><th>Keep</th></tr></thead>
+                <tbody>${conflictRows}</tbody>
+            </table>
+            </div>` : '<p>No conflicting edits found.</p>'}
+        <div class="text-right">
+            <button type="button" id="device-merge-apply" class="primary">Apply Merge</button>
+            <button type="button" id="device-merge-discard" class="secondary">Discard</button>
+        </div>
+    `;
+}
+
+function attachDeviceMergeReportListeners(): void {
+    document.querySelectorAll('input[data-conflict-index]').forEach(el => {
+        const radio = el as HTMLInputElement;
+        radio.addEventListener('change', () => {
+            const conflict = pendingDeviceMerge?.conflicts[parseInt(radio.dataset.conflictIndex!, 10)];
+            if (conflict && radio.checked) conflict.resolution = radio.value as MergeConflict['resolution'];
+        });
+    });
+    document.getElementById('device-merge-apply')?.addEventListener('click', applyDeviceMerge);
+    document.getElementById('device-merge-discard')?.addEventListener('click', () => {
+        pendingDeviceMerge = null;
+        renderBackupView();
+    });
+}
+
+// --- Backup & Restore ---
+const BACKUP_FILE_TYPE = 'HITECH_PO_BACKUP';
+const BACKUP_FORMAT_VERSION = 1;
+const PO_STATUSES: PurchaseOrder['status'][] = ['Draft', 'Awaiting Approval', 'Pending', 'Partially Dispatched', 'Completed', 'Short Closed', 'Cancelled'];
+
+interface BackupFile {
+    fileType: typeof BACKUP_FILE_TYPE;
+    formatVersion: number;
+    exportedAt: string;
+    data: PersistedData;
+}
+
+interface RecordChangeSummary {
+    inBackup: number;
+    added: string[];
+    changed: string[];
+    unchanged: number;
+    localOnly: string[];
+}
+
+// Backup that passed validation and is waiting for the user to pick replace or merge.
+let pendingRestore: { fileName: string; data: PersistedData } | null = null;
+
+function downloadBackupFile(): void {
+    const backup: BackupFile = {
+        fileType: BACKUP_FILE_TYPE,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        data: getPersistedSnapshot()
+    };
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json;charset=utf-8;' });
+    const link = document.createElement('a');
+    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    link.setAttribute('download', `hitech_po_backup_${today}.json`);
+    link.href = URL.createObjectURL(blob);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+}
+
+function isOptionalString(value: any): boolean {
+    return typeof value === 'undefined' || value === null || typeof value === 'string';
+}
+
+function isOptionalPercentage(value: any): boolean {
+    return typeof value === 'undefined' || (typeof value === 'number' && value >= 0 && value <= 100);
+}
+
+function isValidISODate(value: any): boolean {
+    return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+// Date parsing rolls days past the end of the month over (2025-02-30 is read as March 2), so
+// the date has to come back unchanged.
+function isValidDateOnly(value: any): boolean {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidISODate(value)
+        && new Date(value).toISOString().startsWith(value);
+}
+
+export function validatePurchaseOrderRecord(po: any, label: string): string[] {
+    if (!po || typeof po !== 'object') return [`${label}: not an object.`];
+    const errors: string[] = [];
+    if (typeof po.id !== 'string' || po.id.trim() === '') errors.push(`${label}: missing id.`);
+    ['partyName', 'gstin', 'salesmanName', 'billToAddress', 'shipToPartyName', 'shipToGstin', 'supplierStateCode'].forEach(field => {
+        if (typeof po[field] !== 'string') errors.push(`${label}: '${field}' must be text.`);
+    });
+    if (!isOptionalString(po.externalPoNumber)) errors.push(`${label}: 'externalPoNumber' must be text.`);
+    if (!isValidISODate(po.createdAt)) errors.push(`${label}: 'createdAt' is not a valid date.`);
+    if (!PO_STATUSES.includes(po.status)) errors.push(`${label}: unknown status '${po.status}'.`);
+    ['totalAmount', 'cashDiscountPercentage', 'roundOff'].forEach(field => {
+        if (typeof po[field] !== 'number' || isNaN(po[field])) errors.push(`${label}: '${field}' must be a number.`);
+    });
+    if (!Array.isArray(po.charges) || !po.charges.every((c: any) => c && typeof c.id === 'string' && typeof c.label === 'string'
+        && typeof c.amount === 'number' && !isNaN(c.amount) && typeof c.gstPercentage === 'number' && !isNaN(c.gstPercentage))) {
+        errors.push(`${label}: 'charges' must be a list of named amounts with a GST rate.`);
+    }
+    if (!Array.isArray(po.deliverySites) || po.deliverySites.length === 0 || !po.deliverySites.every((site: any) => site && typeof site.id === 'string' && site.id !== ''
+        && typeof site.name === 'string' && typeof site.address === 'string' && typeof site.destination === 'string')) {
+        errors.push(`${label}: 'deliverySites' must list at least one site with an address and destination.`);
+    }
+    if (!Array.isArray(po.items)) {
+        errors.push(`${label}: 'items' must be a list.`);
+    } else {
+        po.items.forEach((item: any, i: number) => {
+            if (!item || typeof item.material !== 'string') errors.push(`${label}, item ${i + 1}: missing material name.`);
+            if (!item || typeof item.id !== 'string' || item.id === '') errors.push(`${label}, item ${i + 1}: missing line ID.`);
+            if (!item || typeof item.unit !== 'string' || item.unit === '') errors.push(`${label}, item ${i + 1}: missing unit.`);
+            ['quantity', 'rate', 'gstPercentage', 'discountPercentage'].forEach(field => {
+                if (!item || typeof item[field] !== 'number' || isNaN(item[field])) errors.push(`${label}, item ${i + 1}: '${field}' must be a number.`);
+            });
+            if (!item || !Array.isArray(item.schedule) || !item.schedule.every((slot: any) => slot && isValidDateOnly(slot.date) && typeof slot.quantity === 'number' && slot.quantity > 0)) {
+                errors.push(`${label}, item ${i + 1}: 'schedule' must be a list of dates with positive quantities.`);
+            }
+            if (!item || typeof item.siteId !== 'string' || !Array.isArray(po.deliverySites) || !po.deliverySites.some((site: any) => site && site.id === item.siteId)) {
+                errors.push(`${label}, item ${i + 1}: not linked to one of the PO's delivery sites.`);
+            }
+            if (item && item.cancelled !== undefined && (!item.cancelled || !isValidISODate(item.cancelled.at) || typeof item.cancelled.by !== 'string'
+                || typeof item.cancelled.reason !== 'string' || typeof item.cancelled.quantity !== 'number' || isNaN(item.cancelled.quantity))) {
+                errors.push(`${label}, item ${i + 1}: 'cancelled' must record when, by whom, why and the quantity written off.`);
+            }
+        });
+    }
+    if (po.shortClose !== undefined && (!po.shortClose || !isValidISODate(po.shortClose.at) || typeof po.shortClose.by !== 'string'
+        || typeof po.shortClose.reason !== 'string' || !po.shortClose.quantityByLine || typeof po.shortClose.quantityByLine !== 'object'
+        || Object.values(po.shortClose.quantityByLine).some(qty => typeof qty !== 'number'))) {
+        errors.push(`${label}: 'shortClose' must record when, by whom, why and the quantities written off.`);
+    }
+    if (!Array.isArray(po.approvalHistory) || !po.approvalHistory.every((e: any) => e && ['submit', 'hold', 'approve', 'reject'].includes(e.action)
+        && typeof e.by === 'string' && isValidISODate(e.at) && typeof e.remark === 'string')) {
+        errors.push(`${label}: 'approvalHistory' must be a list of approval events.`);
+    }
+    if (!po.dispatchedQuantityByLine || typeof po.dispatchedQuantityByLine !== 'object'
+        || Object.values(po.dispatchedQuantityByLine).some(qty => typeof qty !== 'number')) {
+        errors.push(`${label}: 'dispatchedQuantityByLine' must map line IDs to numbers.`);
+    }
+    return errors;
+}
+
+export function validateMaterialRecord(material: any, label: string): string[] {
+    if (!material || typeof material !== 'object') return [`${label}: not an object.`];
+    const errors: string[] = [];
+    ['code', 'name', 'unit', 'hsnCode'].forEach(field => {
+        if (typeof material[field] !== 'string') errors.push(`${label}: '${field}' must be text.`);
+    });
+    if (!Array.isArray(material.alternateUnits) || !material.alternateUnits.every((u: any) => u && typeof u.unit === 'string' && typeof u.factor === 'number' && u.factor > 0)) {
+        errors.push(`${label}: 'alternateUnits' must be a list of units with positive factors.`);
+    }
+    ['defaultGstPercentage', 'defaultRate'].forEach(field => {
+        if (typeof material[field] !== 'number' || isNaN(material[field])) errors.push(`${label}: '${field}' must be a number.`);
+    });
+    if (typeof material.active !== 'boolean') errors.push(`${label}: 'active' must be true or false.`);
+    if (!isOptionalPercentage(material.overDispatchTolerancePercentage)) errors.push(`${label}: 'overDispatchTolerancePercentage' must be between 0 and 100.`);
+    return errors;
+}
+
+function validatePartyRecord(party: any, label: string): string[] {
+    if (!party || typeof party !== 'object') return [`${label}: not an object.`];
+    const errors: string[] = [];
+    ['id', 'name', 'gstin', 'billingAddress', 'defaultSalesman'].forEach(field => {
+        if (typeof party[field] !== 'string') errors.push(`${label}: '${field}' must be text.`);
+    });
+    if (!Array.isArray(party.siteAddresses) || !party.siteAddresses.every((a: any) => typeof a === 'string')) {
+        errors.push(`${label}: 'siteAddresses' must be a list of addresses.`);
+    }
+    if (!Array.isArray(party.contacts) || !party.contacts.every((c: any) => c && typeof c.name === 'string' && typeof c.phone === 'string' && typeof c.email === 'string')) {
+        errors.push(`${label}: 'contacts' must be a list of name, phone and email.`);
+    }
+    if (typeof party.creditLimit !== 'number' || isNaN(party.creditLimit) || party.creditLimit < 0) errors.push(`${label}: 'creditLimit' must be zero or more.`);
+    if (!isOptionalPercentage(party.overDispatchTolerancePercentage)) errors.push(`${label}: 'overDispatchTolerancePercentage' must be between 0 and 100.`);
+    return errors;
+}
+
+function validatePriceListRecord(list: any, label: string): string[] {
+    if (!list || typeof list !== 'object') return [`${label}: not an object.`];
+    const errors: string[] = [];
+    if (typeof list.id !== 'string' || typeof list.name !== 'string') errors.push(`${label}: missing id or name.`);
+    if (!Array.isArray(list.partyIds) || !list.partyIds.every((id: any) => typeof id === 'string')) errors.push(`${label}: 'partyIds' must be a list of party IDs.`);
+    if (typeof list.tolerancePercentage !== 'number' || isNaN(list.tolerancePercentage)) errors.push(`${label}: 'tolerancePercentage' must be a number.`);
+    if (!Array.isArray(list.entries) || !list.entries.every((e: any) => e && typeof e.material === 'string' && typeof e.unit === 'string'
+        && typeof e.rate === 'number' && !isNaN(e.rate) && isValidDateOnly(e.effectiveFrom) && (e.effectiveTo === '' || isValidDateOnly(e.effectiveTo)))) {
+        errors.push(`${label}: 'entries' must list a material, unit, rate and effective dates.`);
+    }
+    return errors;
+}
+
+export function validateDispatchRecord(dispatch: any, label: string): string[] {
+    if (!dispatch || typeof dispatch !== 'object') return [`${label}: not an object.`];
+    const errors: string[] = [];
+    if (typeof dispatch.id !== 'string' || dispatch.id.trim() === '') errors.push(`${label}: missing id.`);
+    if (typeof dispatch.poId !== 'string') errors.push(`${label}: missing poId.`);
+    if (typeof dispatch.vehicleNumber !== 'string') errors.push(`${label}: 'vehicleNumber' must be text.`);
+    if (!isOptionalString(dispatch.driverContact)) errors.push(`${label}: 'driverContact' must be text.`);
+    if (!isOptionalString(dispatch.invoiceNumber)) errors.push(`${label}: 'invoiceNumber' must be text.`);
+    if (!isOptionalString(dispatch.transporterName)) errors.push(`${label}: 'transporterName' must be text.`);
+    if (!isValidISODate(dispatch.dispatchedAt)) errors.push(`${label}: 'dispatchedAt' is not a valid date.`);
+    if (typeof dispatch.siteId !== 'string' || dispatch.siteId === '') errors.push(`${label}: missing delivery site.`);
+    if (dispatch.voided && (typeof dispatch.voided.reason !== 'string' || !isValidISODate(dispatch.voided.at))) {
+        errors.push(`${label}: 'voided' needs a reason and date.`);
+    }
+    if (dispatch.overDispatchOverride && (typeof dispatch.overDispatchOverride.supervisor !== 'string'
+        || typeof dispatch.overDispatchOverride.reason !== 'string' || !isValidISODate(dispatch.overDispatchOverride.at))) {
+        errors.push(`${label}: 'overDispatchOverride' needs a supervisor, reason and date.`);
+    }
+    if (!Array.isArray(dispatch.dispatchedItems)) {
+        errors.push(`${label}: 'dispatchedItems' must be a list.`);
+    } else {
+        dispatch.dispatchedItems.forEach((item: any, i: number) => {
+            if (!item || typeof item.lineId !== 'string' || typeof item.material !== 'string' || typeof item.quantity !== 'number' || isNaN(item.quantity)) {
+                errors.push(`${label}, item ${i + 1}: needs a PO line, material name and numeric quantity.`);
             }
-            let satisfiesEnd = true;
-            if (filterEnd) {
-                satisfiesEnd = dispatchDate <= filterEnd;
+            if (!item || typeof item.unit !== 'string' || typeof item.lineQuantity !== 'number' || isNaN(item.lineQuantity)) {
+                errors.push(`${label}, item ${i + 1}: needs a unit and a quantity in the PO line's unit.`);
             }
-            return satisfiesStart && satisfiesEnd;
         });
     }
+    return errors;
+}
 
-    filteredDispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
-
-    const displayLines: DisplayDispatchLine[] = [];
-    let overallTotalQuantity = 0;
-    const itemDispatchSummary: { [materialName: string]: number } = {};
-    const salesmanDispatchSummary: { [salesmanName: string]: number } = {};
-    const partyDispatchSummary: { [partyName: string]: number } = {};
-
-
-    filteredDispatches.forEach(dispatch => {
-        const po = purchaseOrders.find(p => p.id === dispatch.poId);
+function findDuplicateIds(records: { id: string }[]): string[] {
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    records.forEach(r => {
+        if (seen.has(r.id)) duplicates.add(r.id);
+        seen.add(r.id);
+    });
+    return [...duplicates];
+}
 
-        // If PO is cancelled, skip its dispatches from the log and summaries
-        if (po && po.status === 'Cancelled') {
-            return; // Skip to the next dispatch
+// Parses a backup file, upgrades it to the current schema and checks every record.
+// Throws with a readable list of problems if the file can't be restored.
+// The upgrade steps rely on this much of each record whatever version the backup is from, so it
+// is checked before migrating. The full record checks run on the migrated data.
+function findBackupStructureErrors(raw: any): string[] {
+    const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+    const hasMaterialLines = (items: any) => Array.isArray(items) && items.every(item => isObject(item) && typeof item.material === 'string');
+    const errors: string[] = [];
+    raw.purchaseOrders.forEach((po: any, i: number) => {
+        if (!isObject(po) || typeof po.partyName !== 'string' || !hasMaterialLines(po.items)) {
+            errors.push(`PO #${i + 1} (${po?.id ?? '?'}) is malformed: it needs a party name and a list of material lines.`);
+        }
+    });
+    raw.dispatches.forEach((d: any, i: number) => {
+        if (!isObject(d) || !hasMaterialLines(d.dispatchedItems)) {
+            errors.push(`Dispatch #${i + 1} (${d?.id ?? '?'}) is malformed: it needs a list of dispatched materials.`);
         }
+    });
+    if (Array.isArray(raw.materials)) {
+        raw.materials.forEach((m: any, i: number) => {
+            if (typeof m !== 'string' && !isObject(m)) errors.push(`Material #${i + 1} is malformed.`);
+        });
+    }
+    ([['parties', 'Party'], ['priceLists', 'Price list'], ['auditLog', 'Change history entry']] as [string, string][]).forEach(([key, label]) => {
+        if (!Array.isArray(raw[key])) return;
+        raw[key].forEach((record: any, i: number) => {
+            if (!isObject(record)) errors.push(`${label} #${i + 1} is malformed.`);
+        });
+    });
+    return errors;
+}
 
-        let partyName = 'N/A (PO Data Missing)';
-        let destination = 'N/A';
-        let salesmanName = 'N/A';
+function backupValidationError(errors: string[]): Error {
+    const shown = errors.slice(0, 10).join('\n');
+    return new Error(`The backup failed validation:\n${shown}${errors.length > 10 ? `\n...and ${errors.length - 10} more.` : ''}`);
+}
 
-        if (po) {
-            partyName = po.partyName;
-            destination = po.destination;
-            salesmanName = po.salesmanName || 'N/A';
-        } else {
-             console.warn(`PO with ID ${dispatch.poId} not found for dispatch ${dispatch.id}`);
+export function parseBackupFile(text: string): PersistedData {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!parsed || parsed.fileType !== BACKUP_FILE_TYPE || !parsed.data) {
+        throw new Error('The file is not a HITECH PO backup.');
+    }
+    if (typeof parsed.formatVersion !== 'number' || parsed.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new Error('The backup was made by a newer version of this app.');
+    }
+    const raw = parsed.data;
+    if (typeof raw.schemaVersion !== 'number' || !Array.isArray(raw.purchaseOrders) || !Array.isArray(raw.dispatches)) {
+        throw new Error('The backup is missing its purchase orders or dispatches.');
+    }
+    const structureErrors = findBackupStructureErrors(raw);
+    if (structureErrors.length > 0) throw backupValidationError(structureErrors);
+    const data: PersistedData = migratePersistedData({
+        schemaVersion: raw.schemaVersion,
+        purchaseOrders: raw.purchaseOrders,
+        dispatches: raw.dispatches,
+        materials: Array.isArray(raw.materials) ? raw.materials : [],
+        parties: Array.isArray(raw.parties) ? raw.parties : [],
+        priceLists: Array.isArray(raw.priceLists) ? raw.priceLists : [],
+        auditLog: Array.isArray(raw.auditLog) ? raw.auditLog : [],
+        settings: {
+            dispatchFilterStartDate: typeof raw.settings?.dispatchFilterStartDate === 'string' ? raw.settings.dispatchFilterStartDate : '',
+            dispatchFilterEndDate: typeof raw.settings?.dispatchFilterEndDate === 'string' ? raw.settings.dispatchFilterEndDate : '',
+            company: { ...DEFAULT_COMPANY_PROFILE, ...(raw.settings?.company && typeof raw.settings.company === 'object' ? raw.settings.company : {}) },
+            numbering: normalizeNumberingSeries(raw.settings?.numbering)
         }
+    });
 
+    const errors: string[] = [];
+    data.purchaseOrders.forEach((po, i) => errors.push(...validatePurchaseOrderRecord(po, `PO #${i + 1} (${po?.id ?? '?'})`)));
+    data.dispatches.forEach((d, i) => errors.push(...validateDispatchRecord(d, `Dispatch #${i + 1} (${d?.id ?? '?'})`)));
+    data.materials.forEach((m, i) => errors.push(...validateMaterialRecord(m, `Material #${i + 1}`)));
+    data.parties.forEach((p, i) => errors.push(...validatePartyRecord(p, `Party #${i + 1}`)));
+    data.priceLists.forEach((list, i) => errors.push(...validatePriceListRecord(list, `Price list #${i + 1}`)));
+    data.auditLog.forEach((entry: any, i) => {
+        if (!entry || typeof entry.id !== 'string' || typeof entry.poId !== 'string' || !isValidISODate(entry.at) || !Array.isArray(entry.changes)) {
+            errors.push(`Change history entry #${i + 1} is malformed.`);
+        }
+    });
+    if (errors.length === 0) {
+        findDuplicateIds(data.purchaseOrders).forEach(id => errors.push(`PO ID ${id} appears more than once.`));
+        findDuplicateIds(data.dispatches).forEach(id => errors.push(`Dispatch ID ${id} appears more than once.`));
+        findDuplicateIds(data.parties).forEach(id => errors.push(`Party ID ${id} appears more than once.`));
+        findDuplicateIds(data.priceLists).forEach(id => errors.push(`Price list ID ${id} appears more than once.`));
+    }
+    if (errors.length > 0) throw backupValidationError(errors);
+    return data;
+}
 
-        dispatch.dispatchedItems.forEach(dispItem => {
-            const materialKey = dispItem.material.toUpperCase();
-            overallTotalQuantity += dispItem.quantity;
-            itemDispatchSummary[materialKey] = (itemDispatchSummary[materialKey] || 0) + dispItem.quantity;
+function summarizeRecordChanges<T extends { id: string }>(local: T[], incoming: T[]): RecordChangeSummary {
+    const localById = new Map(local.map(r => [r.id, r] as [string, T]));
+    const incomingIds = new Set(incoming.map(r => r.id));
+    const summary: RecordChangeSummary = { inBackup: incoming.length, added: [], changed: [], unchanged: 0, localOnly: [] };
+    incoming.forEach(record => {
+        const existing = localById.get(record.id);
+        if (!existing) summary.added.push(record.id);
+        else if (stableStringify(existing) !== stableStringify(record)) summary.changed.push(record.id);
+        else summary.unchanged++;
+    });
+    local.forEach(record => {
+        if (!incomingIds.has(record.id)) summary.localOnly.push(record.id);
+    });
+    return summary;
+}
 
-            if (salesmanName !== 'N/A' && salesmanName !== 'N/A (PO Data Missing)') {
-                 salesmanDispatchSummary[salesmanName] = (salesmanDispatchSummary[salesmanName] || 0) + dispItem.quantity;
-            }
-            if (partyName !== 'N/A' && partyName !== 'N/A (PO Data Missing)') {
-                 partyDispatchSummary[partyName] = (partyDispatchSummary[partyName] || 0) + dispItem.quantity;
-            }
+function renderRecordChangeSummaryHTML(title: string, summary: RecordChangeSummary): string {
+    const idList = (ids: string[]) => ids.length > 0 ? ` <small>(${escapeHTML(ids.slice(0, 15).join(', '))}${ids.length > 15 ? ', ...' : ''})</small>` : '';
+    return `
+        <tr>
+            <td>${escapeHTML(title)}</td>
+            <td class="text-right">${summary.inBackup}</td>
+            <td class="text-right">${summary.added.length}${idList(summary.added)}</td>
+            <td class="text-right">${summary.changed.length}${idList(summary.changed)}</td>
+            <td class="text-right">${summary.unchanged}</td>
+            <td class="text-right">${summary.localOnly.length}${idList(summary.localOnly)}</td>
+        </tr>
+    `;
+}
 
+function renderRestoreSummaryHTML(): string {
+    if (!pendingRestore) return '';
+    const { fileName, data } = pendingRestore;
+    const poSummary = summarizeRecordChanges(purchaseOrders, data.purchaseOrders);
+    const dispatchSummary = summarizeRecordChanges(dispatches, data.dispatches);
+    const newMaterials = data.materials.filter(m => !findMaterialByName(m.name));
+    const newParties = data.parties.filter(p => !findPartyByName(p.name));
+    const newPriceLists = data.priceLists.filter(list => !priceLists.some(l => l.name === list.name));
 
-            let itemTotalAmount = 0;
-            if (po) {
-                const poItem = po.items.find(i => i.material.toUpperCase() === materialKey);
-                if (poItem) {
-                    const taxableAmount = dispItem.quantity * poItem.rate;
-                    const gstAmount = (taxableAmount * poItem.gstPercentage) / 100;
-                    itemTotalAmount = taxableAmount + gstAmount;
-                }
-            }
+    return `
+        <h3>Restore Preview: ${escapeHTML(fileName)}</h3>
+        <div class="table-responsive-wrapper">
+        <table class="po-details-table" aria-label="Restore preview">
+            <thead>
+                <tr>
+                    <th>Records</th>
+                    <th class="text-right">In Backup</th>
+                    <th class="text-right">New</th>
+                    <th class="text-right">Changed</th>
+                    <th class="text-right">Unchanged</th>
+                    <th class="text-right">Only on This Device</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${renderRecordChangeSummaryHTML('Purchase Orders', poSummary)}
+                ${renderRecordChangeSummaryHTML('Dispatches', dispatchSummary)}
+            </tbody>
+        </table>
+        </div>
+        <p><strong>Materials:</strong> ${data.materials.length} in backup, ${newMaterials.length} not on this device.</p>
+        <p><strong>Parties:</strong> ${data.parties.length} in backup, ${newParties.length} not on this device.</p>
+        <p><strong>Price lists:</strong> ${data.priceLists.length} in backup, ${newPriceLists.length} not on this device.</p>
+        <p><strong>Change history:</strong> ${data.auditLog.length} entries in backup.</p>
+        <p><strong>Replace</strong> discards everything on this device and loads the backup exactly, including "Only on This Device" records being removed.
+           <strong>Merge</strong> keeps everything on this device and adds the other device's records, renumbering clashing PO and dispatch numbers from this device's series.
+           You will see a conflict report before anything is saved.${syncApiUrl ? ' Replace is not available while Server Sync is on.' : ''}</p>
+        <div class="text-right">
+            <button type="button" id="restore-replace" class="danger">Replace All Data</button>
+            <button type="button" id="restore-merge" class="primary">Merge From Another Device</button>
+            <button type="button" id="restore-discard" class="secondary">Discard</button>
+        </div>
+    `;
+}
 
-            displayLines.push({
-                dispatchId: dispatch.id,
-                poId: dispatch.poId,
-                partyName: partyName,
-                salesmanName: salesmanName,
-                dispatchedAt: formatToDDMMYY(dispatch.dispatchedAt),
-                originalDispatchedAtISO: dispatch.dispatchedAt,
-                invoiceNumber: dispatch.invoiceNumber,
-                vehicleNumber: dispatch.vehicleNumber,
-                driverContact: dispatch.driverContact,
-                materialName: dispItem.material,
-                quantityDispatched: dispItem.quantity,
-                transporterName: dispatch.transporterName,
-                itemTotalAmount: itemTotalAmount,
-                destination: destination,
-            });
-        });
-    });
+async function applyRestoreReplace(): Promise<void> {
+    if (!pendingRestore) return;
+    // Sync has no deletes, so records the backup leaves out would come back from the server
+    if (syncApiUrl) {
+        alert('Replace is not available while Server Sync is on, because the server would send back the records it removes. Use Merge, or clear the server URL on the Sync page first.');
+        return;
+    }
+    if (!confirm('Replace ALL purchase orders and dispatches on this device with the backup? This cannot be undone.')) return;
+    // Counters never go back, or numbers already given out from this device would be issued again
+    const numbering = mergeNumberingCounters(pendingRestore.data.settings.numbering, numberingSeries);
+    applyPersistedData(pendingRestore.data);
+    numberingSeries = numbering;
 
-    let content = `<div class="list-container"><h2>Dispatch Log (${displayLines.length} item lines)</h2>`;
+    dispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
+    purchaseOrders.forEach(po => updatePOStatus(po.id));
+    pendingRestore = null;
+    if (!(await saveData({ replaceAuditLog: true }))) return;
+    alert(`Backup restored. ${purchaseOrders.length} POs and ${dispatches.length} dispatches are now on this device.`);
+    renderBackupView();
+}
 
-    content += `
-        <div class="dispatch-filter-controls" style="display: flex; flex-wrap: wrap; align-items: flex-end; gap: 15px; margin-bottom: 20px; padding: 15px; background-color: #f8f9fa; border-radius: 5px; box-shadow: 0 2px 4px rgba(0,0,0,0.05);">
-            <div class="form-group" style="margin-bottom: 0;">
-                <label for="filterStartDate">From Date:</label>
-                <input type="date" id="filterStartDate" name="filterStartDate" value="${escapeHTML(dispatchFilterStartDate)}" aria-label="Filter start date">
-            </div>
-            <div class="form-group" style="margin-bottom: 0;">
-                <label for="filterEndDate">To Date:</label>
-                <input type="date" id="filterEndDate" name="filterEndDate" value="${escapeHTML(dispatchFilterEndDate)}" aria-label="Filter end date">
+function renderBackupView(): void {
+    mainContent.innerHTML = `
+        <div class="list-container">
+            <h2>Backup &amp; Restore</h2>
+            <h3>Backup</h3>
+            <p>Download every purchase order, dispatch, material and filter setting on this device as one JSON file.
+               Keep it somewhere other than this browser.</p>
+            <button type="button" id="download-backup" class="primary">Download Backup</button>
+            <hr style="margin: 20px 0;">
+            <h3>Restore</h3>
+            <p>Choose a backup file. Nothing is changed until you confirm on the preview.</p>
+            <div class="form-group">
+                <label for="restore-file">Backup File:</label>
+                <input type="file" id="restore-file" accept=".json,application/json">
             </div>
-            <button id="filterDispatchButton" class="primary" type="button">Filter</button>
-            <button id="clearDispatchFilterButton" class="secondary" type="button">Clear Filters</button>
+            <div id="restore-summary">${pendingDeviceMerge ? renderDeviceMergeReportHTML() : renderRestoreSummaryHTML()}</div>
         </div>
     `;
 
-    if (displayLines.length === 0) {
-        content += '<p>No dispatches recorded for the selected criteria, or all relevant dispatches belong to cancelled POs.</p>';
-    } else {
-        content += `
-            <div class="table-responsive-wrapper">
-            <table aria-label="Dispatch Log">
-                <thead>
-                    <tr>
-                        <th>Dispatch ID</th>
-                        <th>PO ID</th>
-                        <th>Date</th>
-                        <th>Item Name</th>
-                        <th class="text-right">Quantity</th>
-                        <th>Vehicle No.</th>
-                        <th>Actions</th>
-                    </tr>
-                </thead>
-                <tbody>
-                    ${displayLines.map(line => `
-                        <tr>
-                            <td>${escapeHTML(line.dispatchId)}</td>
-                            <td><a href="#" onclick="window.showPODetailsModalWrapper('${escapeHTML(line.poId)}'); return false;" aria-label="View details for PO ${escapeHTML(line.poId)}">${escapeHTML(line.poId)}</a></td>
-                            <td>${escapeHTML(line.dispatchedAt)}</td>
-                            <td>${escapeHTML(line.materialName)}</td>
-                            <td class="text-right">${line.quantityDispatched.toFixed(2)}</td>
-                            <td>${escapeHTML(line.vehicleNumber)}</td>
-                            <td>
-                                ${purchaseOrders.find(p => p.id === line.poId)?.status !== 'Cancelled' ? `<button class="info small" onclick="window.showEditDispatchModal('${escapeHTML(line.dispatchId)}')" aria-label="Edit dispatch ${escapeHTML(line.dispatchId)}">Edit</button>`: 'N/A'}
-                            </td>
-                        </tr>
-                    `).join('')}
-                </tbody>
-                <tfoot>
-                    <tr>
-                        <td colspan="4" style="text-align: right; font-weight: bold;">Total Dispatched Quantity (Units):</td>
-                        <td style="font-weight: bold;" class="text-right">${overallTotalQuantity.toFixed(2)}</td>
-                        <td colspan="2"></td>
-                    </tr>
-                </tfoot>
-            </table>
-            </div>
-             <p style="font-size: 0.9em; margin-top: 10px;">For full dispatch details (Party, Salesman, Invoice etc.), click PO ID then view dispatches, or use Excel download.</p>
-            <div style="text-align: right; margin-top: 20px;">
-                <button id="download-dispatch-csv" class="secondary" aria-label="Download Dispatch Log as CSV">Download Full Log as Excel (CSV)</button>
-            </div>
-        `;
-
-        content += `<div class="dispatch-summary-container">`;
-        content += `
-            <div class="summary-table-wrapper">
-                <h3>Item-wise Dispatch Summary</h3>
-        `;
-        if (Object.keys(itemDispatchSummary).length > 0) {
-            content += `
-                <div class="table-responsive-wrapper">
-                <table aria-label="Item-wise Dispatch Summary">
-                    <thead><tr><th>Material Name</th><th class="text-right">Total Quantity Dispatched</th></tr></thead>
-                    <tbody>
-                        ${Object.entries(itemDispatchSummary).sort((a,b) => b[1] - a[1]).map(([material, quantity]) => `
-                            <tr><td>${escapeHTML(material)}</td><td class="text-right">${quantity.toFixed(2)}</td></tr>`).join('')}
-                    </tbody>
-                </table>
-                </div>
-                <div style="text-align: right; margin-top: 10px;">
-                    <button id="download-item-summary-csv" class="secondary small" aria-label="Download Item Summary as CSV">Download Item Summary (CSV)</button>
-                </div>`;
-        } else {
-            content += `<p>No item dispatch data to summarize for the selected criteria.</p>`;
-        }
-        content += `</div>`;
-
-        content += `
-            <div class="summary-table-wrapper">
-                <h3>Salesman-wise Dispatch Summary</h3>
-        `;
-        if (Object.keys(salesmanDispatchSummary).length > 0) {
-            content += `
-                <div class="table-responsive-wrapper">
-                <table aria-label="Salesman-wise Dispatch Summary">
-                    <thead><tr><th>Salesman Name</th><th class="text-right">Total Quantity Dispatched</th></tr></thead>
-                    <tbody>
-                        ${Object.entries(salesmanDispatchSummary).sort((a,b) => b[1] - a[1]).map(([salesman, quantity]) => `
-                            <tr><td>${escapeHTML(salesman)}</td><td class="text-right">${quantity.toFixed(2)}</td></tr>`).join('')}
-                    </tbody>
-                </table>
-                </div>
-                <div style="text-align: right; margin-top: 10px;">
-                    <button id="download-salesman-summary-csv" class="secondary small" aria-label="Download Salesman Summary as CSV">Download Salesman Summary (CSV)</button>
-                </div>`;
-        } else {
-            content += `<p>No salesman dispatch data to summarize for the selected criteria.</p>`;
-        }
-        content += `</div>`;
-
-        content += `
-            <div class="summary-table-wrapper">
-                <h3>Party-wise Dispatch Summary</h3>
-        `;
-        if (Object.keys(partyDispatchSummary).length > 0) {
-            content += `
-                <div class="table-responsive-wrapper">
-                <table aria-label="Party-wise Dispatch Summary">
-                    <thead><tr><th>Party Name</th><th class="text-right">Total Quantity Dispatched</th></tr></thead>
-                    <tbody>
-                        ${Object.entries(partyDispatchSummary).sort((a,b) => b[1] - a[1]).map(([party, quantity]) => `
-                            <tr><td>${escapeHTML(party)}</td><td class="text-right">${quantity.toFixed(2)}</td></tr>`).join('')}
-                    </tbody>
-                </table>
-                </div>
-                <div style="text-align: right; margin-top: 10px;">
-                    <button id="download-party-summary-csv" class="secondary small" aria-label="Download Party Summary as CSV">Download Party Summary (CSV)</button>
-                </div>`;
-        } else {
-            content += `<p>No party dispatch data to summarize for the selected criteria.</p>`;
+    document.getElementById('download-backup')?.addEventListener('click', downloadBackupFile);
+    document.getElementById('restore-file')?.addEventListener('change', async (e) => {
+        const input = e.target as HTMLInputElement;
+        const file = input.files?.[0];
+        if (!file) return;
+        pendingDeviceMerge = null;
+        try {
+            pendingRestore = { fileName: file.name, data: parseBackupFile(await file.text()) };
+        } catch (err) {
+            pendingRestore = null;
+            alert(`Cannot restore ${file.name}.\n${(err as Error).message}`);
         }
-        content += `</div>`;
-
-        content += `</div>`;
-    }
-    content += `</div>`;
-    content += getPODetailsModalHTML() + getEditDispatchModalHTML();
-    mainContent.innerHTML = content;
-
-    document.getElementById('filterDispatchButton')?.addEventListener('click', () => {
-        dispatchFilterStartDate = (document.getElementById('filterStartDate') as HTMLInputElement).value;
-        dispatchFilterEndDate = (document.getElementById('filterEndDate') as HTMLInputElement).value;
-        saveData();
-        renderDispatchList();
+        renderBackupView();
     });
-
-    document.getElementById('clearDispatchFilterButton')?.addEventListener('click', () => {
-        dispatchFilterStartDate = '';
-        dispatchFilterEndDate = '';
-        (document.getElementById('filterStartDate') as HTMLInputElement).value = '';
-        (document.getElementById('filterEndDate') as HTMLInputElement).value = '';
-        saveData();
-        renderDispatchList();
+    document.getElementById('restore-replace')?.addEventListener('click', applyRestoreReplace);
+    document.getElementById('restore-merge')?.addEventListener('click', () => {
+        if (!pendingRestore) return;
+        pendingDeviceMerge = buildDeviceMergePlan(pendingRestore.fileName, pendingRestore.data);
+        pendingRestore = null;
+        renderBackupView();
     });
-
-    if (displayLines.length > 0) {
-        document.getElementById('download-dispatch-csv')?.addEventListener('click', () => {
-            downloadDispatchLogAsCSV(displayLines);
-        });
-    }
-    if (Object.keys(itemDispatchSummary).length > 0) {
-        document.getElementById('download-item-summary-csv')?.addEventListener('click', () => {
-            downloadItemSummaryCSV(itemDispatchSummary);
-        });
-    }
-    if (Object.keys(salesmanDispatchSummary).length > 0) {
-        document.getElementById('download-salesman-summary-csv')?.addEventListener('click', () => {
-            downloadSalesmanSummaryCSV(salesmanDispatchSummary);
-        });
-    }
-    if (Object.keys(partyDispatchSummary).length > 0) {
-        document.getElementById('download-party-summary-csv')?.addEventListener('click', () => {
-            downloadPartySummaryCSV(partyDispatchSummary);
-        });
-    }
+    document.getElementById('restore-discard')?.addEventListener('click', () => {
+        pendingRestore = null;
+        renderBackupView();
+    });
+    attachDeviceMergeReportListeners();
 }
 
 // Wrapper for showPODetailsModal called from dispatch list to ensure it's available
@@ -1977,8 +7939,10 @@ window.addEventListener('keydown', (event: KeyboardEvent) => {
 
 
 // --- Initial Load ---
-document.addEventListener('DOMContentLoaded', () => {
-    loadData();
+document.addEventListener('DOMContentLoaded', async () => {
+    await loadData();
+    currentUserName = (await readSetting<string>('currentUserName')) || '';
+    initCrossTabSync();
     dispatches.sort((a, b) => new Date(b.dispatchedAt).getTime() - new Date(a.dispatchedAt).getTime());
     purchaseOrders.forEach(po => updatePOStatus(po.id)); // Ensure statuses are correct on load
     saveData(); // Save any status updates
@@ -1990,4 +7954,5 @@ document.addEventListener('DOMContentLoaded', () => {
         currentEditingPOId = null;
     }
     renderApp();
-});
\ No newline at end of file
+    initSync();
+});
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Minimal in-memory implementation of the sync API used by index.tsx, for local development
+// and manual testing. No dependencies: run `npm run mock-server` (PORT defaults to 3001).
+//
+//   POST /purchase-orders                  create (409 'id-taken' if the ID belongs to another PO)
+//   PUT  /purchase-orders/:id              update (409 'stale' if the server copy is newer)
+//   POST /purchase-orders/:id/cancel       cancel (same rules as update)
+//   POST /dispatches, PUT /dispatches/:id  same rules as purchase orders
+//   POST /dispatches/:id/void              void (same rules as update)
+//   GET  /changes?since=<cursor>           everything written after the cursor
+//   POST /__reset                          clear all data
+
+import http from 'http';
+
+const PORT = parseInt(process.env.PORT || '3001', 10);
+
+let revision = 0;
+let purchaseOrders = new Map(); // id -> { record, revision }
+let dispatches = new Map();
+
+function sendJSON(res, status, body) {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.on('data', chunk => { data += chunk; });
+        req.on('end', () => {
+            try {
+                resolve(data ? JSON.parse(data) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function isOlder(incoming, existing) {
+    return new Date(incoming.updatedAt || 0).getTime() < new Date(existing.updatedAt || 0).getTime();
+}
+
+// Last-writer-wins on updatedAt. Returns [status, body].
+function writeRecord(store, record, { isCreate }) {
+    if (!record || typeof record.id !== 'string') return [400, { error: 'Record with an id is required' }];
+    const existing = store.get(record.id);
+    if (existing) {
+        if (isCreate && store === purchaseOrders && existing.record.createdAt !== record.createdAt) {
+            return [409, { reason: 'id-taken', record: existing.record }];
+        }
+        if (isOlder(record, existing.record)) {
+            return [409, { reason: 'stale', record: existing.record }];
+        }
+    }
+    store.set(record.id, { record, revision: ++revision });
+    return [existing ? 200 : 201, record];
+}
+
+function changesSince(store, since) {
+    return [...store.values()].filter(entry => entry.revision > since).map(entry => entry.record);
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    console.log(`${req.method} ${url.pathname}${url.search}`);
+
+    if (req.method === 'OPTIONS') return sendJSON(res, 204);
+
+    try {
+        if (req.method === 'GET' && url.pathname === '/changes') {
+            const since = parseInt(url.searchParams.get('since') || '0', 10) || 0;
+            return sendJSON(res, 200, {
+                purchaseOrders: changesSince(purchaseOrders, since),
+                dispatches: changesSince(dispatches, since),
+                cursor: String(revision)
+            });
+        }
+        if (req.method === 'POST' && url.pathname === '/__reset') {
+            revision = 0;
+            purchaseOrders = new Map();
+            dispatches = new Map();
+            return sendJSON(res, 204);
+        }
+
+        const store = parts[0] === 'purchase-orders' ? purchaseOrders : parts[0] === 'dispatches' ? dispatches : null;
+        if (!store) return sendJSON(res, 404, { error: 'Not found' });
+        const body = await readBody(req);
+
+        if (req.method === 'POST' && parts.length === 1) {
+            const [status, result] = writeRecord(store, body, { isCreate: true });
+            return sendJSON(res, status, result);
+        }
+        if ((req.method === 'PUT' && parts.length === 2) || (req.method === 'POST' && parts.length === 3 && ['cancel', 'void'].includes(parts[2]))) {
+            if (!body || body.id !== parts[1]) return sendJSON(res, 400, { error: 'Body id does not match URL' });
+            const [status, result] = writeRecord(store, body, { isCreate: false });
+            return sendJSON(res, status, result);
+        }
+        return sendJSON(res, 404, { error: 'Not found' });
+    } catch (e) {
+        return sendJSON(res, 400, { error: `Bad request: ${e.message}` });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock sync API listening on http://localhost:${PORT}`);
+});
@@ -3,7 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-const CACHE_NAME = 'hitech-po-cache-v1';
+const CACHE_NAME = 'hitech-po-cache-v2';
+// Must match the names used by the IndexedDB persistence and sync code in index.tsx
+const DB_NAME = 'HITECH_PO_DB';
+const SYNC_BACKGROUND_TAG = 'hitech-sync';
 const urlsToCache = [
   './', // Alias for index.html when served from root
   './index.html',
@@ -58,6 +61,10 @@ self.addEventListener('fetch', (event) => {
   if (event.request.method !== 'GET') {
     return;
   }
+  // Never cache the sync API (or anything else cross-origin); it must always hit the network
+  if (new URL(event.request.url).origin !== self.location.origin) {
+    return;
+  }
 
   event.respondWith(
     caches.match(event.request)
@@ -107,3 +114,61 @@ self.addEventListener('fetch', (event) => {
       })
   );
 });
+
+// --- Background Sync ---
+// The page queues server operations in IndexedDB and registers SYNC_BACKGROUND_TAG when a push fails.
+// If a page is open it does the sync itself (it knows how to resolve conflicts). Otherwise the queue
+// is replayed from here; anything the server doesn't accept outright is left for the page.
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function replaySyncQueue() {
+  const db = await idbRequest(indexedDB.open(DB_NAME));
+  try {
+    if (!db.objectStoreNames.contains('syncQueue')) return;
+    const urlSetting = await idbRequest(db.transaction('settings', 'readonly').objectStore('settings').get('syncApiUrl'));
+    const apiUrl = urlSetting && urlSetting.value;
+    if (!apiUrl) return;
+
+    const queue = await idbRequest(db.transaction('syncQueue', 'readonly').objectStore('syncQueue').getAll());
+    queue.sort((a, b) => a.id.localeCompare(b.id));
+    for (const op of queue) {
+      // A network error rejects here, which makes the browser retry the sync event later
+      const response = await fetch(apiUrl + op.path, {
+        method: op.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(op.body)
+      });
+      if (!response.ok) {
+        console.warn(`Background sync stopped at ${op.entity} ${op.recordId}: HTTP ${response.status}`);
+        return;
+      }
+      await idbRequest(db.transaction('syncQueue', 'readwrite').objectStore('syncQueue').delete(op.id));
+    }
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_BACKGROUND_TAG) {
+    return;
+  }
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      if (clients.length > 0) {
+        clients.forEach(client => client.postMessage({ type: 'flush-sync-queue' }));
+        return;
+      }
+      return replaySyncQueue().then(() =>
+        self.clients.matchAll({ type: 'window' }).then(openClients =>
+          openClients.forEach(client => client.postMessage({ type: 'sync-queue-replayed' }))
+        )
+      );
+    })
+  );
+});
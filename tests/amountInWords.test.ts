@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { amountInWordsIndian } from '../index';
+
+describe('amountInWordsIndian', () => {
+    it('writes small amounts', () => {
+        expect(amountInWordsIndian(0)).toBe('Rupees Zero Only');
+        expect(amountInWordsIndian(7)).toBe('Rupees Seven Only');
+        expect(amountInWordsIndian(19)).toBe('Rupees Nineteen Only');
+        expect(amountInWordsIndian(40)).toBe('Rupees Forty Only');
+        expect(amountInWordsIndian(999)).toBe('Rupees Nine Hundred Ninety Nine Only');
+    });
+
+    it('groups by thousand, lakh and crore', () => {
+        expect(amountInWordsIndian(123456.5)).toBe('Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Fifty Paise Only');
+        expect(amountInWordsIndian(10000000)).toBe('Rupees One Crore Only');
+        expect(amountInWordsIndian(1005000)).toBe('Rupees Ten Lakh Five Thousand Only');
+    });
+
+    it('writes crores above ninety nine in words too', () => {
+        expect(amountInWordsIndian(1234567890)).toBe('Rupees One Hundred Twenty Three Crore Forty Five Lakh Sixty Seven Thousand Eight Hundred Ninety Only');
+    });
+
+    it('rounds to the nearest paisa', () => {
+        expect(amountInWordsIndian(41299.995)).toBe('Rupees Forty One Thousand Three Hundred Only');
+        expect(amountInWordsIndian(0.07)).toBe('Rupees Zero and Seven Paise Only');
+    });
+});
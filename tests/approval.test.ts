@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPersistedData, checkCreditLimit, DEFAULT_COMPANY_PROFILE, getPOSubmitter, releaseOrHoldPO } from '../index';
+import type { Party, PersistedData } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+const party = (creditLimit: number): Party =>
+    ({ id: 'P-1', name: 'ACME BUILDERS', gstin: '', billingAddress: '', siteAddresses: [], defaultSalesman: '', contacts: [], creditLimit });
+
+// An open PO of 100 bags, 40 of them dispatched: 60 x 350 + 18% GST = 24,780 still to go.
+function withOpenOrder(creditLimit: number, overrides: Partial<PersistedData> = {}): void {
+    applyPersistedData(makeData({
+        parties: [party(creditLimit)],
+        purchaseOrders: [makePO({ partyId: 'P-1', status: 'Partially Dispatched' })],
+        dispatches: [makeDispatch()],
+        ...overrides
+    }));
+}
+
+describe('checkCreditLimit', () => {
+    const newPO = makePO({ id: 'PO-2', partyId: 'P-1', status: 'Draft', dispatchedQuantityByLine: {} });
+
+    it('passes an order that keeps the party within its limit', () => {
+        withOpenOrder(66080);
+        expect(checkCreditLimit(newPO)).toBeNull();
+    });
+
+    it('explains a breach with the outstanding and new values', () => {
+        withOpenOrder(60000);
+        expect(checkCreditLimit(newPO)).toBe('Credit limit exceeded: ACME BUILDERS has ₹24780.00 outstanding; this PO adds ₹41300.00 against a limit of ₹60000.00.');
+    });
+
+    it('does not count drafts, closed orders or a limit of zero', () => {
+        withOpenOrder(45000, { purchaseOrders: [makePO({ partyId: 'P-1', status: 'Short Closed' }), makePO({ id: 'PO-3', partyId: 'P-1', status: 'Draft' })] });
+        expect(checkCreditLimit(newPO)).toBeNull();
+        withOpenOrder(0);
+        expect(checkCreditLimit(newPO)).toBeNull();
+    });
+});
+
+describe('releaseOrHoldPO', () => {
+    beforeEach(() => { vi.stubGlobal('prompt', () => 'TESTER'); });
+
+    it('releases an order within the limit', () => {
+        withOpenOrder(100000);
+        const po = makePO({ id: 'PO-2', partyId: 'P-1', status: 'Draft', approvalHistory: [] });
+        expect(releaseOrHoldPO(po)).toBeNull();
+        expect(po.status).toBe('Pending');
+    });
+
+    it('holds an order over the limit and records why', () => {
+        withOpenOrder(60000);
+        const po = makePO({ id: 'PO-2', partyId: 'P-1', status: 'Draft', approvalHistory: [] });
+        expect(releaseOrHoldPO(po)).toMatch(/^Credit limit exceeded/);
+        expect(po.status).toBe('Awaiting Approval');
+        expect(po.approvalHistory).toEqual([expect.objectContaining({ action: 'hold', by: 'TESTER', remark: expect.stringMatching(/^Credit limit exceeded/) })]);
+    });
+
+    it('holds every order when approval is required', () => {
+        const data = makeData();
+        data.settings.company = { ...DEFAULT_COMPANY_PROFILE, requirePOApproval: true };
+        applyPersistedData(data);
+        const po = makePO({ status: 'Draft', approvalHistory: [] });
+        expect(releaseOrHoldPO(po)).toBeNull();
+        expect(po.status).toBe('Awaiting Approval');
+    });
+});
+
+describe('getPOSubmitter', () => {
+    it('is the last submitter, else whoever created the PO', () => {
+        const created = { id: 'a-1', entity: 'po' as const, recordId: 'PO-1', poId: 'PO-1', action: 'create' as const, changes: [], at: '2025-06-01T09:00:00.000Z', user: 'RAVI' };
+        applyPersistedData(makeData({ auditLog: [created] }));
+        expect(getPOSubmitter(makePO())).toBe('RAVI');
+        const submitted = makePO({ approvalHistory: [
+            { action: 'submit', by: 'SUNIL', at: '2025-06-02T09:00:00.000Z', remark: '' },
+            { action: 'reject', by: 'MANAGER', at: '2025-06-03T09:00:00.000Z', remark: 'Rate too low' },
+            { action: 'submit', by: 'ANIL', at: '2025-06-04T09:00:00.000Z', remark: '' }
+        ] });
+        expect(getPOSubmitter(submitted)).toBe('ANIL');
+        applyPersistedData(makeData());
+        expect(getPOSubmitter(makePO())).toBe('');
+    });
+});
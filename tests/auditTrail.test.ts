@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { diffRecordsForAudit } from '../index';
+import { makeDispatch, makeLine, makePO } from './fixtures';
+
+describe('diffRecordsForAudit', () => {
+    it('lists changed fields with their old and new values', () => {
+        expect(diffRecordsForAudit(makePO(), makePO({ salesmanName: 'SUNIL' }))).toEqual([
+            { field: 'salesmanName', before: 'RAVI', after: 'SUNIL' }
+        ]);
+    });
+
+    it('leaves out bookkeeping fields', () => {
+        const after = makePO({ updatedAt: '2025-06-02T09:00:00.000Z', dispatchedQuantityByLine: { 'item-1': 40 }, approvalHistory: [] });
+        expect(diffRecordsForAudit(makePO(), after)).toEqual([]);
+    });
+
+    it('compares PO lines by line ID', () => {
+        const before = makePO({ items: [makeLine(), makeLine({ id: 'item-2', material: 'SAND' })] });
+        const after = makePO({ items: [makeLine({ quantity: 120 }), makeLine({ id: 'item-3', material: 'GRIT' })] });
+        expect(diffRecordsForAudit(before, after)).toEqual([
+            { field: 'Item CEMENT: quantity', before: 100, after: 120 },
+            { field: 'Item SAND', before: before.items[1], after: undefined },
+            { field: 'Item GRIT', before: undefined, after: after.items[1] }
+        ]);
+    });
+
+    it('compares dispatched items by PO line', () => {
+        const after = makeDispatch({ dispatchedItems: [{ lineId: 'item-1', material: 'CEMENT', quantity: 30, unit: 'BAG', lineQuantity: 30 }] });
+        expect(diffRecordsForAudit(makeDispatch(), after)).toEqual([
+            { field: 'Dispatched CEMENT: quantity', before: 40, after: 30 },
+            { field: 'Dispatched CEMENT: lineQuantity', before: 40, after: 30 }
+        ]);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseBackupFile, SCHEMA_VERSION } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+const backupText = (data: any) =>
+    JSON.stringify({ fileType: 'HITECH_PO_BACKUP', formatVersion: 1, exportedAt: '2025-06-10T09:00:00.000Z', data });
+
+describe('parseBackupFile', () => {
+    it('reads back a current backup', () => {
+        const data = makeData({ purchaseOrders: [makePO()], dispatches: [makeDispatch()] });
+        const parsed = parseBackupFile(backupText(data));
+        expect(parsed.purchaseOrders).toEqual(data.purchaseOrders);
+        expect(parsed.dispatches).toEqual(data.dispatches);
+    });
+
+    it('upgrades a backup from an older schema', () => {
+        const { deliverySites, ...po } = makePO();
+        const parsed = parseBackupFile(backupText({ ...makeData({ purchaseOrders: [po as any], dispatches: [makeDispatch()] }), schemaVersion: 12 }));
+        expect(parsed.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(parsed.purchaseOrders[0].deliverySites).toHaveLength(1);
+    });
+
+    it('names a missing PO instead of failing inside an upgrade step', () => {
+        const text = backupText({ ...makeData({ purchaseOrders: [makePO(), null as any] }), schemaVersion: 0 });
+        expect(() => parseBackupFile(text)).toThrow(/failed validation:\nPO #2 \(\?\) is malformed/);
+    });
+
+    it('rejects a PO whose lines are not a list', () => {
+        const text = backupText({ ...makeData({ purchaseOrders: [makePO({ items: {} as any })] }), schemaVersion: 3 });
+        expect(() => parseBackupFile(text)).toThrow(/PO #1 \(PO-1\) is malformed/);
+    });
+
+    it('rejects malformed dispatches and history entries', () => {
+        const text = backupText(makeData({ dispatches: [makeDispatch({ dispatchedItems: [null as any] })], auditLog: [null as any] }));
+        expect(() => parseBackupFile(text)).toThrow(/Dispatch #1 \(D-1\) is malformed.*\nChange history entry #1 is malformed/s);
+    });
+
+    it('rejects a file that is not a backup', () => {
+        expect(() => parseBackupFile('{"data": {}}')).toThrow(/not a HITECH PO backup/);
+        expect(() => parseBackupFile('not json')).toThrow(/not valid JSON/);
+    });
+});
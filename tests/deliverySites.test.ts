@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { describePOSite, nextDeliverySiteId, validateDispatchRecord, validatePurchaseOrderRecord } from '../index';
+import { makeDispatch, makeLine, makePO } from './fixtures';
+
+const twoSites = [
+    { id: 'site-1', name: 'TOWER A', address: 'PLOT 4, MIDC', destination: 'PUNE' },
+    { id: 'site-3', name: '', address: 'PLOT 9, MIDC', destination: 'CHAKAN' }
+];
+
+describe('nextDeliverySiteId', () => {
+    it('numbers after the highest site so far', () => {
+        expect(nextDeliverySiteId([])).toBe('site-1');
+        expect(nextDeliverySiteId(twoSites)).toBe('site-4');
+    });
+});
+
+describe('describePOSite', () => {
+    it('names the site only when the PO has more than one', () => {
+        expect(describePOSite(makePO(), 'site-1')).toBe('');
+        const po = makePO({ deliverySites: twoSites });
+        expect(describePOSite(po, 'site-1')).toBe('TOWER A');
+        expect(describePOSite(po, 'site-3')).toBe('CHAKAN');
+        expect(describePOSite(po, 'site-9')).toBe('site-9');
+    });
+});
+
+describe('delivery site validation', () => {
+    it('accepts lines for each of the PO\'s sites', () => {
+        const po = makePO({ deliverySites: twoSites, items: [makeLine(), makeLine({ id: 'item-2', siteId: 'site-3' })] });
+        expect(validatePurchaseOrderRecord(po, 'PO 1')).toEqual([]);
+    });
+
+    it('needs at least one complete site and every line on one of them', () => {
+        expect(validatePurchaseOrderRecord(makePO({ deliverySites: [] }), 'PO 1')).toContain(
+            "PO 1: 'deliverySites' must list at least one site with an address and destination.");
+        expect(validatePurchaseOrderRecord(makePO({ items: [makeLine({ siteId: 'site-2' })] }), 'PO 1')).toEqual([
+            "PO 1, item 1: not linked to one of the PO's delivery sites."
+        ]);
+    });
+
+    it('needs a site on every dispatch', () => {
+        expect(validateDispatchRecord(makeDispatch({ siteId: '' }), 'Dispatch')).toEqual(['Dispatch: missing delivery site.']);
+    });
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyPersistedData, buildDeviceMergePlan } from '../index';
+import { makeData, makeDispatch, makeLine, makePO } from './fixtures';
+
+const twoCementLines = () => [makeLine({ id: 'item-1' }), makeLine({ id: 'item-2' })];
+
+describe('buildDeviceMergePlan', () => {
+    beforeEach(() => {
+        applyPersistedData(makeData({
+            purchaseOrders: [makePO({ items: twoCementLines(), dispatchedQuantityByLine: { 'item-1': 40, 'item-2': 0 } })],
+            dispatches: [makeDispatch()]
+        }));
+    });
+
+    it('matches a PO on its creation time and counts identical records as unchanged', () => {
+        const plan = buildDeviceMergePlan('other.json', makeData({
+            purchaseOrders: [makePO({ items: twoCementLines(), status: 'Partially Dispatched' })],
+            dispatches: [makeDispatch()]
+        }));
+        expect(plan.addedPOs).toEqual([]);
+        expect(plan.conflicts).toEqual([]);
+        expect(plan.unchangedPOs).toBe(1);
+        expect(plan.unchangedDispatches).toBe(1);
+    });
+
+    it('lists every differing field of a matched PO as a conflict', () => {
+        const plan = buildDeviceMergePlan('other.json', makeData({
+            purchaseOrders: [makePO({ items: twoCementLines(), salesmanName: 'SUNIL', updatedAt: '2025-06-02T09:00:00.000Z' })]
+        }));
+        expect(plan.conflicts).toHaveLength(1);
+        expect(plan.conflicts[0]).toMatchObject({ kind: 'po', localId: 'PO-1', changedFields: ['salesmanName'], resolution: 'incoming' });
+    });
+
+    it('adds a PO created at another time under a new number when its ID is taken', () => {
+        const plan = buildDeviceMergePlan('other.json', makeData({
+            purchaseOrders: [makePO({ createdAt: '2025-06-03T09:00:00.000Z' })],
+            dispatches: [makeDispatch({ id: 'D-9' })]
+        }));
+        expect(plan.addedPOs).toHaveLength(1);
+        const newId = plan.addedPOs[0].po.id;
+        expect(newId).not.toBe('PO-1');
+        expect(plan.poIdMap['PO-1']).toBe(newId);
+        expect(plan.addedDispatches.map(d => d.poId)).toEqual([newId]);
+    });
+
+    it('skips a dispatch already recorded here under another ID', () => {
+        const plan = buildDeviceMergePlan('other.json', makeData({
+            purchaseOrders: [makePO({ items: twoCementLines() })],
+            dispatches: [makeDispatch({ id: 'D-9' })]
+        }));
+        expect(plan.duplicateDispatchIds).toEqual(['D-9']);
+        expect(plan.addedDispatches).toEqual([]);
+    });
+
+    it('keeps a dispatch against another line of the same material', () => {
+        const plan = buildDeviceMergePlan('other.json', makeData({
+            purchaseOrders: [makePO({ items: twoCementLines() })],
+            dispatches: [makeDispatch({ id: 'D-9', dispatchedItems: [{ lineId: 'item-2', material: 'CEMENT', quantity: 40, unit: 'BAG', lineQuantity: 40 }] })]
+        }));
+        expect(plan.duplicateDispatchIds).toEqual([]);
+        expect(plan.addedDispatches.map(d => d.id)).toEqual(['D-9']);
+    });
+});
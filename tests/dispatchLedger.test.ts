@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyPersistedData, computeDispatchedQuantityByLine, findDataHealthIssues } from '../index';
+import { makeData, makeDispatch, makeLine, makePO } from './fixtures';
+
+const twoLinePO = () => makePO({
+    items: [makeLine({ id: 'item-1' }), makeLine({ id: 'item-2', material: 'SAND', unit: 'TONNE', rate: 1200, gstPercentage: 5 })],
+    dispatchedQuantityByLine: { 'item-1': 0, 'item-2': 0 }
+});
+
+describe('computeDispatchedQuantityByLine', () => {
+    it('sums the dispatches of the PO per line', () => {
+        const po = twoLinePO();
+        applyPersistedData(makeData({
+            purchaseOrders: [po],
+            dispatches: [
+                makeDispatch({ id: 'D-1' }),
+                makeDispatch({ id: 'D-2', dispatchedItems: [
+                    { lineId: 'item-1', material: 'CEMENT', quantity: 10, unit: 'BAG', lineQuantity: 10 },
+                    { lineId: 'item-2', material: 'SAND', quantity: 2000, unit: 'KG', lineQuantity: 2 }
+                ] })
+            ]
+        }));
+        expect(computeDispatchedQuantityByLine(po)).toEqual({ 'item-1': 50, 'item-2': 2 });
+    });
+
+    it('leaves out voided dispatches and those of other POs', () => {
+        const po = twoLinePO();
+        applyPersistedData(makeData({
+            purchaseOrders: [po, makePO({ id: 'PO-2' })],
+            dispatches: [
+                makeDispatch({ id: 'D-1' }),
+                makeDispatch({ id: 'D-2', voided: { at: '2025-06-06T09:00:00.000Z', by: 'RAVI', reason: 'Wrong vehicle' } }),
+                makeDispatch({ id: 'D-3', poId: 'PO-2' })
+            ]
+        }));
+        expect(computeDispatchedQuantityByLine(po)).toEqual({ 'item-1': 40, 'item-2': 0 });
+    });
+
+    it('keeps quantities dispatched against a line the PO no longer has', () => {
+        const po = twoLinePO();
+        applyPersistedData(makeData({
+            purchaseOrders: [po],
+            dispatches: [makeDispatch({ dispatchedItems: [{ lineId: 'item-9', material: 'GRIT', quantity: 5, unit: 'BAG', lineQuantity: 5 }] })]
+        }));
+        expect(computeDispatchedQuantityByLine(po)).toEqual({ 'item-1': 0, 'item-2': 0, 'item-9': 5 });
+    });
+});
+
+describe('findDataHealthIssues', () => {
+    beforeEach(() => applyPersistedData(makeData()));
+
+    it('finds nothing when the stored quantities match the ledger', () => {
+        applyPersistedData(makeData({
+            purchaseOrders: [makePO({ status: 'Partially Dispatched', dispatchedQuantityByLine: { 'item-1': 40 } })],
+            dispatches: [makeDispatch()]
+        }));
+        expect(findDataHealthIssues()).toEqual([]);
+    });
+
+    it('reports stored quantities that disagree with the ledger', () => {
+        applyPersistedData(makeData({
+            purchaseOrders: [makePO({ dispatchedQuantityByLine: { 'item-1': 55 } })],
+            dispatches: [makeDispatch()]
+        }));
+        expect(findDataHealthIssues().map(f => f.key)).toEqual(['quantity-mismatch:PO-1']);
+    });
+
+    it('reports dispatches whose PO is missing and lines not on the PO', () => {
+        applyPersistedData(makeData({
+            purchaseOrders: [makePO()],
+            dispatches: [
+                makeDispatch({ id: 'D-1', poId: 'PO-404' }),
+                makeDispatch({ id: 'D-2', dispatchedItems: [{ lineId: 'item-9', material: 'GRIT', quantity: 5, unit: 'BAG', lineQuantity: 5 }] })
+            ]
+        }));
+        expect(findDataHealthIssues().map(f => f.key).sort()).toEqual([
+            'material-not-on-po:PO-1:item-9',
+            'orphan-dispatch:D-1',
+            'quantity-mismatch:PO-1'
+        ]);
+    });
+
+    it('reports a revision the history records but that is not linked', () => {
+        applyPersistedData(makeData({
+            purchaseOrders: [makePO({ id: 'PO-1', status: 'Cancelled' }), makePO({ id: 'PO-2' })],
+            auditLog: [{ id: 'a-1', entity: 'po', recordId: 'PO-2', poId: 'PO-2', action: 'create', changes: [], note: 'Revised from cancelled PO PO-1.', at: '2025-06-02T09:00:00.000Z', user: 'RAVI' }]
+        }));
+        expect(findDataHealthIssues()).toEqual([expect.objectContaining({ kind: 'unlinked-revision', poId: 'PO-2', originalPoId: 'PO-1' })]);
+    });
+});
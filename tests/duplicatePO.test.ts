@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyPersistedData, findLikelyDuplicatePOs } from '../index';
+import type { PurchaseOrder } from '../index';
+import { makeData, makeLine, makePO } from './fixtures';
+
+const candidate = (overrides: Partial<PurchaseOrder> = {}) => makePO({ id: '', createdAt: '2025-06-10T09:00:00.000Z', ...overrides });
+
+describe('findLikelyDuplicatePOs', () => {
+    beforeEach(() => applyPersistedData(makeData({
+        purchaseOrders: [makePO({
+            id: 'PO-1',
+            partyId: 'P-ACME',
+            externalPoNumber: 'ACME/778',
+            items: [makeLine({ id: 'item-1' }), makeLine({ id: 'item-2', material: 'SAND', quantity: 10, unit: 'TONNE' })]
+        })]
+    })));
+
+    it('matches the same external PO ref for the same party, ignoring case and spaces', () => {
+        const matches = findLikelyDuplicatePOs(candidate({ externalPoNumber: ' acme/778 ', items: [makeLine({ material: 'GRIT' })] }));
+        expect(matches.map(m => m.po.id)).toEqual(['PO-1']);
+        expect(matches[0].reasons).toEqual(['Same external PO ref (ACME/778)']);
+    });
+
+    it('matches the same items and quantities in any order within the window', () => {
+        const matches = findLikelyDuplicatePOs(candidate({
+            items: [makeLine({ id: 'a', material: 'sand', quantity: 10, unit: 'TONNE' }), makeLine({ id: 'b' })]
+        }));
+        expect(matches.map(m => m.reasons)).toEqual([['Same items and quantities within 30 days']]);
+    });
+
+    it('matches the party by master entry when the name was typed differently', () => {
+        const matches = findLikelyDuplicatePOs(candidate({ partyName: 'ACME BUILDERS PVT LTD', partyId: 'P-ACME', externalPoNumber: 'ACME/778' }));
+        expect(matches).toHaveLength(1);
+    });
+
+    it('ignores other parties, cancelled POs and the PO being revised', () => {
+        expect(findLikelyDuplicatePOs(candidate({ partyName: 'OTHER INFRA', partyId: undefined, externalPoNumber: 'ACME/778' }))).toEqual([]);
+        expect(findLikelyDuplicatePOs(candidate({ externalPoNumber: 'ACME/778' }), 'PO-1')).toEqual([]);
+        applyPersistedData(makeData({ purchaseOrders: [makePO({ id: 'PO-1', externalPoNumber: 'ACME/778', status: 'Cancelled' })] }));
+        expect(findLikelyDuplicatePOs(candidate({ externalPoNumber: 'ACME/778' }))).toEqual([]);
+    });
+
+    it('does not match the same items outside the window or with different quantities', () => {
+        const items = [makeLine({ id: 'a' }), makeLine({ id: 'b', material: 'SAND', quantity: 10, unit: 'TONNE' })];
+        expect(findLikelyDuplicatePOs(candidate({ items, createdAt: '2025-07-15T09:00:00.000Z' }))).toEqual([]);
+        expect(findLikelyDuplicatePOs(candidate({ items: [items[0], { ...items[1], quantity: 12 }] }))).toEqual([]);
+    });
+
+    it('leaves cancelled lines out of the item comparison', () => {
+        const items = [
+            makeLine({ id: 'a' }),
+            makeLine({ id: 'b', material: 'SAND', quantity: 10, unit: 'TONNE' }),
+            makeLine({ id: 'c', material: 'GRIT', cancelled: { at: '2025-06-10T09:00:00.000Z', by: 'RAVI', reason: 'Not needed', quantity: 5 } })
+        ];
+        expect(findLikelyDuplicatePOs(candidate({ items }))).toHaveLength(1);
+    });
+});
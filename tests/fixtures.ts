@@ -0,0 +1,79 @@
+import { DEFAULT_COMPANY_PROFILE, SCHEMA_VERSION } from '../index';
+import type { Dispatch, MaterialItem, PersistedData, PurchaseOrder } from '../index';
+
+export function makeLine(overrides: Partial<MaterialItem> = {}): MaterialItem {
+    return {
+        id: 'item-1',
+        material: 'CEMENT',
+        quantity: 100,
+        unit: 'BAG',
+        rate: 350,
+        gstPercentage: 18,
+        discountPercentage: 0,
+        schedule: [],
+        siteId: 'site-1',
+        ...overrides
+    };
+}
+
+export function makePO(overrides: Partial<PurchaseOrder> = {}): PurchaseOrder {
+    return {
+        id: 'PO-1',
+        partyName: 'ACME BUILDERS',
+        gstin: '',
+        salesmanName: 'RAVI',
+        billToAddress: '',
+        shipToPartyName: 'ACME BUILDERS',
+        shipToGstin: '',
+        deliverySites: [{ id: 'site-1', name: '', address: 'PLOT 4, MIDC', destination: 'PUNE' }],
+        placeOfSupplyStateCode: '27',
+        supplierStateCode: '27',
+        items: [makeLine()],
+        createdAt: '2025-06-01T09:00:00.000Z',
+        status: 'Pending',
+        cashDiscountPercentage: 0,
+        charges: [],
+        roundOff: 0,
+        totalAmount: 41300,
+        approvalHistory: [],
+        dispatchedQuantityByLine: { 'item-1': 0 },
+        ...overrides
+    };
+}
+
+export function makeDispatch(overrides: Partial<Dispatch> = {}): Dispatch {
+    return {
+        id: 'D-1',
+        poId: 'PO-1',
+        vehicleNumber: 'MH12AB1234',
+        driverContact: '',
+        dispatchedItems: [{ lineId: 'item-1', material: 'CEMENT', quantity: 40, unit: 'BAG', lineQuantity: 40 }],
+        siteId: 'site-1',
+        dispatchedAt: '2025-06-05T09:00:00.000Z',
+        ...overrides
+    };
+}
+
+// Current-schema data, ready for applyPersistedData.
+export function makeData(overrides: Partial<PersistedData> = {}): PersistedData {
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        purchaseOrders: [],
+        dispatches: [],
+        materials: [],
+        parties: [],
+        priceLists: [],
+        auditLog: [],
+        settings: {
+            dispatchFilterStartDate: '',
+            dispatchFilterEndDate: '',
+            company: { ...DEFAULT_COMPANY_PROFILE },
+            numbering: [
+                { key: 'po', format: 'HCC/PO/{FY}/{SEQ}', padding: 4, lastNumbers: {} },
+                { key: 'dispatch', format: 'HCC/DC/{FY}/{SEQ}', padding: 4, lastNumbers: {} },
+                { key: 'invoice', format: '', padding: 4, lastNumbers: {} }
+            ]
+        },
+        ...overrides
+    };
+}
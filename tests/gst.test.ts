@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { computeLineTax, getGstinStateCode, isInterStateSupply, validateGstin } from '../index';
+
+describe('validateGstin', () => {
+    it('accepts a GSTIN with a correct check digit, in any case', () => {
+        expect(validateGstin('27AAPFU0939F1ZV')).toBeNull();
+        expect(validateGstin(' 27aapfu0939f1zv ')).toBeNull();
+    });
+
+    it('explains what is wrong', () => {
+        expect(validateGstin('27AAPFU0939F1Z')).toMatch(/not in the GSTIN format/);
+        expect(validateGstin('99AAPFU0939F1ZV')).toMatch(/starts with 99, which is not a GST state code/);
+        expect(validateGstin('27AAPFU0939F1ZW')).toMatch(/invalid check digit \(expected V\)/);
+    });
+});
+
+describe('getGstinStateCode', () => {
+    it('reads the state from a valid GSTIN only', () => {
+        expect(getGstinStateCode('27AAPFU0939F1ZV')).toBe('27');
+        expect(getGstinStateCode('27AAPFU0939F1ZW')).toBe('');
+        expect(getGstinStateCode('')).toBe('');
+    });
+});
+
+describe('isInterStateSupply', () => {
+    it('is inter-state only when both states are known and differ', () => {
+        expect(isInterStateSupply('29', '27')).toBe(true);
+        expect(isInterStateSupply('27', '27')).toBe(false);
+        expect(isInterStateSupply('', '27')).toBe(false);
+        expect(isInterStateSupply('29', '')).toBe(false);
+    });
+});
+
+describe('computeLineTax', () => {
+    it('splits GST equally into CGST and SGST within the state', () => {
+        expect(computeLineTax(10, 100, 18, false)).toEqual({ taxable: 1000, cgst: 90, sgst: 90, igst: 0, gst: 180, total: 1180 });
+    });
+
+    it('charges it all as IGST across states', () => {
+        expect(computeLineTax(10, 100, 18, true)).toEqual({ taxable: 1000, cgst: 0, sgst: 0, igst: 180, gst: 180, total: 1180 });
+    });
+});
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPersistedData, getPersistedSnapshot } from '../index';
+import { makeData, makeDispatch, makeLine, makePO } from './fixtures';
+
+const promptCancelPOLine = (poId: string, lineId: string): Promise<void> => (window as any).promptCancelPOLine(poId, lineId);
+
+describe('promptCancelPOLine', () => {
+    const alertMock = vi.fn();
+
+    beforeEach(() => {
+        alertMock.mockReset();
+        vi.stubGlobal('alert', alertMock);
+        vi.stubGlobal('prompt', (message: string) => message.startsWith('Cancel') ? 'Customer dropped it' : 'TESTER');
+        vi.spyOn(window as any, 'showPODetailsModal').mockImplementation(() => {});
+    });
+
+    it('writes off the pending quantity and leaves the line out of the status', async () => {
+        const po = makePO({
+            status: 'Partially Dispatched',
+            items: [makeLine({ quantity: 40 }), makeLine({ id: 'item-2', material: 'SAND', quantity: 10 })],
+            dispatchedQuantityByLine: { 'item-1': 40, 'item-2': 0 }
+        });
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [makeDispatch()] }));
+
+        await promptCancelPOLine('PO-1', 'item-2');
+
+        expect(po.items).toHaveLength(2);
+        expect(po.items[1].cancelled).toMatchObject({ by: 'TESTER', reason: 'Customer dropped it', quantity: 10 });
+        expect(po.status).toBe('Completed');
+        expect(getPersistedSnapshot().auditLog).toEqual([expect.objectContaining({ action: 'cancel-line', note: 'SAND: Customer dropped it' })]);
+    });
+
+    it('refuses to cancel the last open line', async () => {
+        const po = makePO({ items: [makeLine(), makeLine({ id: 'item-2', material: 'SAND', cancelled: { at: '2025-06-03T09:00:00.000Z', by: 'RAVI', reason: 'x', quantity: 5 } })] });
+        applyPersistedData(makeData({ purchaseOrders: [po] }));
+
+        await promptCancelPOLine('PO-1', 'item-1');
+
+        expect(po.items[0].cancelled).toBeUndefined();
+        expect(alertMock).toHaveBeenCalledWith(expect.stringMatching(/^This is the only line left on the PO/));
+    });
+
+    it('refuses a line with nothing pending', async () => {
+        const po = makePO({ status: 'Partially Dispatched', items: [makeLine({ quantity: 40 }), makeLine({ id: 'item-2', material: 'SAND' })] });
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [makeDispatch()] }));
+
+        await promptCancelPOLine('PO-1', 'item-1');
+
+        expect(po.items[0].cancelled).toBeUndefined();
+        expect(alertMock).toHaveBeenCalledWith('Nothing is pending on this line, so there is nothing to cancel.');
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { materialsFromNames, nextMaterialCode, validateMaterialRecord } from '../index';
+import type { Material } from '../index';
+import { makeLine, makePO } from './fixtures';
+
+const material = (code: string, name: string): Material =>
+    ({ code, name, unit: 'BAG', alternateUnits: [], hsnCode: '', defaultGstPercentage: 18, defaultRate: 0, active: true });
+
+describe('materialsFromNames', () => {
+    it('adds each name once, trimmed and upper-cased', () => {
+        const materials = materialsFromNames([' cement', 'CEMENT', 'sand ', ''], []);
+        expect(materials.map(m => [m.code, m.name])).toEqual([['M001', 'CEMENT'], ['M002', 'SAND']]);
+    });
+
+    it('takes the rate and GST from the latest PO line for the material', () => {
+        const pos = [
+            makePO({ createdAt: '2025-06-01T09:00:00.000Z', items: [makeLine({ rate: 350, gstPercentage: 28 })] }),
+            makePO({ id: 'PO-2', createdAt: '2025-06-05T09:00:00.000Z', items: [makeLine({ rate: 365, gstPercentage: 18 })] })
+        ];
+        expect(materialsFromNames(['CEMENT'], pos)[0]).toMatchObject({ defaultRate: 365, defaultGstPercentage: 18 });
+    });
+
+    it('keeps existing master entries and numbers new ones after them', () => {
+        const materials = materialsFromNames(['CEMENT', 'SAND'], [], [material('M007', 'CEMENT')]);
+        expect(materials.map(m => [m.code, m.name])).toEqual([['M007', 'CEMENT'], ['M008', 'SAND']]);
+    });
+});
+
+describe('nextMaterialCode', () => {
+    it('ignores codes that were typed in another format', () => {
+        expect(nextMaterialCode([])).toBe('M001');
+        expect(nextMaterialCode([material('M009', 'A'), material('X100', 'B')])).toBe('M010');
+    });
+});
+
+describe('validateMaterialRecord', () => {
+    it('accepts a complete record', () => {
+        expect(validateMaterialRecord(material('M001', 'CEMENT'), 'Material #1')).toEqual([]);
+    });
+
+    it('reports each bad field', () => {
+        const bad = { ...material('M001', 'CEMENT'), unit: 5, alternateUnits: [{ unit: 'TONNE', factor: 0 }], active: 'yes' };
+        expect(validateMaterialRecord(bad, 'Material #1')).toEqual([
+            "Material #1: 'unit' must be text.",
+            "Material #1: 'alternateUnits' must be a list of units with positive factors.",
+            "Material #1: 'active' must be true or false."
+        ]);
+    });
+});
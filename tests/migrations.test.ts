@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { migratePersistedData, SCHEMA_VERSION, validateDispatchRecord, validatePurchaseOrderRecord } from '../index';
+import type { PersistedData } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+// The original localStorage layout: material names only, one site address per PO, and
+// dispatched quantities kept per material name.
+function makeLegacyData(): PersistedData {
+    const legacy: any = {
+        schemaVersion: 0,
+        purchaseOrders: [{
+            id: '1',
+            partyName: 'acme builders',
+            gstin: '27AAPFU0939F1ZV',
+            salesmanName: 'RAVI',
+            siteAddress: 'PLOT 4, MIDC',
+            destination: 'PUNE',
+            items: [
+                { material: 'CEMENT', quantity: 100, rate: 350, gstPercentage: 28 },
+                { material: 'SAND', quantity: 10, rate: 1200, gstPercentage: 5 }
+            ],
+            createdAt: '2024-05-01T09:00:00.000Z',
+            status: 'Partially Dispatched',
+            totalAmount: 57400,
+            dispatchedQuantityByMaterial: { CEMENT: 40 }
+        }],
+        dispatches: [{
+            id: 'D-20240502-AB12',
+            poId: '1',
+            vehicleNumber: 'MH12AB1234',
+            driverContact: '',
+            dispatchedItems: [{ material: 'cement', quantity: 40 }],
+            dispatchedAt: '2024-05-02T09:00:00.000Z'
+        }],
+        materials: ['CEMENT', 'SAND'],
+        parties: [],
+        priceLists: [],
+        auditLog: undefined,
+        settings: makeData().settings
+    };
+    legacy.settings.company = { ...legacy.settings.company, stateCode: '27' };
+    return legacy;
+}
+
+describe('migratePersistedData', () => {
+    it('brings the original layout up to the current schema', () => {
+        const data = migratePersistedData(makeLegacyData());
+        expect(data.schemaVersion).toBe(SCHEMA_VERSION);
+
+        const po = data.purchaseOrders[0];
+        expect(validatePurchaseOrderRecord(po, 'PO 1')).toEqual([]);
+        expect(validateDispatchRecord(data.dispatches[0], 'Dispatch')).toEqual([]);
+        expect(new Set(po.items.map(item => item.id)).size).toBe(2);
+        expect(po.deliverySites).toEqual([{ id: expect.any(String), name: '', address: 'PLOT 4, MIDC', destination: 'PUNE' }]);
+        expect(po.items.every(item => item.siteId === po.deliverySites[0].id)).toBe(true);
+        expect(po.placeOfSupplyStateCode).toBe('27');
+        expect(po.supplierStateCode).toBe('27');
+        expect(po.roundOff).toBeCloseTo(57400 - (35000 * 1.28 + 12000 * 1.05));
+    });
+
+    it('moves dispatched quantities from material names onto PO lines', () => {
+        const data = migratePersistedData(makeLegacyData());
+        const po = data.purchaseOrders[0];
+        const cementLine = po.items.find(item => item.material === 'CEMENT')!;
+        expect(po.dispatchedQuantityByLine).toEqual({ [cementLine.id]: 40 });
+        expect(data.dispatches[0].dispatchedItems[0]).toMatchObject({ lineId: cementLine.id, unit: cementLine.unit, lineQuantity: 40 });
+        expect(data.dispatches[0].siteId).toBe(po.deliverySites[0].id);
+    });
+
+    it('builds the material and party masters from the POs', () => {
+        const data = migratePersistedData(makeLegacyData());
+        expect(data.materials.map(m => m.name)).toEqual(['CEMENT', 'SAND']);
+        expect(data.materials[0]).toMatchObject({ defaultRate: 350, defaultGstPercentage: 28, active: true });
+        expect(data.parties).toHaveLength(1);
+        expect(data.parties[0]).toMatchObject({ name: 'ACME BUILDERS', gstin: '27AAPFU0939F1ZV', siteAddresses: ['PLOT 4, MIDC'] });
+        expect(data.purchaseOrders[0].partyId).toBe(data.parties[0].id);
+    });
+
+    it('leaves current records unchanged when every step runs again', () => {
+        const current = makeData({
+            purchaseOrders: [makePO({ supplierStateCode: '24', roundOff: 0.4 })],
+            dispatches: [makeDispatch()],
+            materials: [{ code: 'M001', name: 'CEMENT', unit: 'BAG', alternateUnits: [], hsnCode: '2523', defaultGstPercentage: 28, defaultRate: 360, active: true }]
+        });
+        const expected = JSON.parse(JSON.stringify(current));
+        const migrated = migratePersistedData({ ...current, schemaVersion: 0 });
+        expect(migrated.purchaseOrders).toEqual(expected.purchaseOrders.map((po: any) => ({ ...po, partyId: migrated.parties[0].id })));
+        expect(migrated.dispatches).toEqual(expected.dispatches);
+        expect(migrated.materials).toEqual(expected.materials);
+    });
+
+    it('refuses data from a newer version of the app', () => {
+        expect(() => migratePersistedData(makeData({ schemaVersion: SCHEMA_VERSION + 1 }))).toThrow(/newer than this app supports/);
+    });
+});
+
+describe('revision links (schema v3)', () => {
+    const createEntry = (recordId: string, note: string) =>
+        ({ id: `a-${recordId}`, entity: 'po' as const, recordId, poId: recordId, action: 'create' as const, changes: [], note, at: '2024-05-03T09:00:00.000Z', user: 'RAVI' });
+    const reviseEntry = (recordId: string, note: string) =>
+        ({ ...createEntry(recordId, note), id: `r-${recordId}`, action: 'revise' as const });
+
+    it('links a revision the history records on both POs', () => {
+        const data = migratePersistedData(makeData({
+            schemaVersion: 2,
+            purchaseOrders: [makePO({ id: '1', status: 'Cancelled' }), makePO({ id: '2' })],
+            auditLog: [createEntry('2', 'Revised from cancelled PO 1.'), reviseEntry('1', 'Revised into new PO 2.')]
+        }));
+        expect(data.purchaseOrders.find(po => po.id === '2')!.revisedFrom).toBe('1');
+        expect(data.purchaseOrders.find(po => po.id === '1')!.revisedInto).toBe('2');
+    });
+
+    it('does not link when only one side of the revision is recorded', () => {
+        const data = migratePersistedData(makeData({
+            schemaVersion: 2,
+            purchaseOrders: [makePO({ id: '1', status: 'Cancelled' }), makePO({ id: '2' })],
+            auditLog: [createEntry('2', 'Revised from cancelled PO 1.')]
+        }));
+        expect(data.purchaseOrders.some(po => po.revisedFrom || po.revisedInto)).toBe(false);
+    });
+
+    it('does not link to an original that is not cancelled', () => {
+        const data = migratePersistedData(makeData({
+            schemaVersion: 2,
+            purchaseOrders: [makePO({ id: '1' }), makePO({ id: '2' })],
+            auditLog: [createEntry('2', 'Revised from cancelled PO 1.'), reviseEntry('1', 'Revised into new PO 2.')]
+        }));
+        expect(data.purchaseOrders.some(po => po.revisedFrom || po.revisedInto)).toBe(false);
+    });
+
+    it('reads the PO ID exactly rather than matching part of it', () => {
+        const data = migratePersistedData(makeData({
+            schemaVersion: 2,
+            purchaseOrders: [makePO({ id: '1', status: 'Cancelled' }), makePO({ id: '11', status: 'Cancelled' }), makePO({ id: '2' })],
+            auditLog: [createEntry('2', 'Revised from cancelled PO 11.'), reviseEntry('11', 'Revised into new PO 2.')]
+        }));
+        expect(data.purchaseOrders.find(po => po.id === '2')!.revisedFrom).toBe('11');
+        expect(data.purchaseOrders.find(po => po.id === '1')!.revisedInto).toBeUndefined();
+    });
+});
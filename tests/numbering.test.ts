@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { allocateDocumentNumber, applyPersistedData, getFinancialYearToken, mergeNumberingCounters, peekDocumentNumber, validateNumberingFormat } from '../index';
+import type { NumberingSeries } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+describe('getFinancialYearToken', () => {
+    it('starts the financial year on April 1', () => {
+        expect(getFinancialYearToken('2025-03-31')).toBe('24-25');
+        expect(getFinancialYearToken('2025-04-01')).toBe('25-26');
+        expect(getFinancialYearToken('2026-01-15')).toBe('25-26');
+    });
+
+    it('wraps at the turn of the century', () => {
+        expect(getFinancialYearToken('1999-12-31')).toBe('99-00');
+    });
+});
+
+describe('validateNumberingFormat', () => {
+    it('accepts a format with one {SEQ}', () => {
+        expect(validateNumberingFormat('HCC/PO/{FY}/{SEQ}')).toBeNull();
+        expect(validateNumberingFormat('INV-{SEQ}')).toBeNull();
+    });
+
+    it('rejects formats that could not issue unique numbers', () => {
+        expect(validateNumberingFormat('HCC/PO/{FY}')).toBe('must contain {SEQ}');
+        expect(validateNumberingFormat('{SEQ}-{SEQ}')).toBe('may contain {SEQ} only once');
+        expect(validateNumberingFormat('{YEAR}/{SEQ}')).toBe('has an unknown token {YEAR}');
+        expect(validateNumberingFormat('PO {SEQ}')).toBe('may not contain spaces');
+    });
+});
+
+describe('document number allocation', () => {
+    beforeEach(() => applyPersistedData(makeData()));
+
+    it('issues padded numbers in sequence within a financial year', () => {
+        expect(allocateDocumentNumber('po', '2025-06-01')).toBe('HCC/PO/25-26/0001');
+        expect(allocateDocumentNumber('po', '2025-06-02')).toBe('HCC/PO/25-26/0002');
+        expect(allocateDocumentNumber('dispatch', '2025-06-02')).toBe('HCC/DC/25-26/0001');
+    });
+
+    it('restarts every financial year and keeps each year\'s counter', () => {
+        expect(allocateDocumentNumber('po', '2026-03-31')).toBe('HCC/PO/25-26/0001');
+        expect(allocateDocumentNumber('po', '2026-04-01')).toBe('HCC/PO/26-27/0001');
+        // A document back-dated into the previous year continues that year's series
+        expect(allocateDocumentNumber('po', '2026-03-30')).toBe('HCC/PO/25-26/0002');
+    });
+
+    it('only advances the counter when a number is allocated', () => {
+        expect(peekDocumentNumber('po', '2025-06-01').documentNumber).toBe('HCC/PO/25-26/0001');
+        expect(peekDocumentNumber('po', '2025-06-01').documentNumber).toBe('HCC/PO/25-26/0001');
+    });
+
+    it('skips numbers already on a record or reserved', () => {
+        applyPersistedData(makeData({
+            purchaseOrders: [makePO({ id: 'HCC/PO/25-26/0001' })],
+            dispatches: [makeDispatch({ invoiceNumber: 'inv-1' })]
+        }));
+        expect(allocateDocumentNumber('po', '2025-06-01', new Set(['HCC/PO/25-26/0002']))).toBe('HCC/PO/25-26/0003');
+        expect(allocateDocumentNumber('po', '2025-06-01')).toBe('HCC/PO/25-26/0004');
+    });
+
+    it('keeps one running counter for a format without {FY}', () => {
+        const data = makeData();
+        data.settings.numbering[2] = { key: 'invoice', format: 'INV-{SEQ}', padding: 1, lastNumbers: {} };
+        data.dispatches = [makeDispatch({ invoiceNumber: 'inv-1' })];
+        applyPersistedData(data);
+        expect(allocateDocumentNumber('invoice', '2025-06-01')).toBe('INV-2');
+        expect(allocateDocumentNumber('invoice', '2026-06-01')).toBe('INV-3');
+        expect(data.settings.numbering[2].lastNumbers).toEqual({ '': 3 });
+    });
+});
+
+describe('mergeNumberingCounters', () => {
+    it('keeps the higher counter of each financial year', () => {
+        const series = (lastNumbers: { [fy: string]: number }): NumberingSeries[] => [{ key: 'po', format: 'HCC/PO/{FY}/{SEQ}', padding: 4, lastNumbers }];
+        const merged = mergeNumberingCounters(series({ '24-25': 40, '25-26': 3 }), series({ '25-26': 7, '26-27': 1 }));
+        expect(merged[0].lastNumbers).toEqual({ '24-25': 40, '25-26': 7, '26-27': 1 });
+    });
+});
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyPersistedData, DEFAULT_COMPANY_PROFILE, findOverDispatchedLines } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+const cement = (quantity: number) => [{ lineId: 'item-1', material: 'CEMENT', quantity, unit: 'BAG', lineQuantity: quantity }];
+
+describe('findOverDispatchedLines', () => {
+    const po = makePO();
+    const earlier = makeDispatch({ dispatchedItems: cement(80) });
+
+    beforeEach(() => {
+        const data = makeData({ purchaseOrders: [po], dispatches: [earlier] });
+        data.settings.company = { ...DEFAULT_COMPANY_PROFILE, overDispatchTolerancePercentage: 5 };
+        applyPersistedData(data);
+    });
+
+    it('passes a dispatch within the ordered quantity', () => {
+        expect(findOverDispatchedLines(po, cement(20))).toEqual([]);
+    });
+
+    it('reports the line total and the company tolerance', () => {
+        expect(findOverDispatchedLines(po, cement(30))).toEqual([
+            expect.objectContaining({ orderedQuantity: 100, newTotal: 110, allowedQuantity: 105, tolerancePercentage: 5 })
+        ]);
+    });
+
+    it("uses the party's own tolerance first", () => {
+        applyPersistedData(makeData({
+            purchaseOrders: [po],
+            dispatches: [earlier],
+            parties: [{ id: 'P-1', name: 'ACME BUILDERS', gstin: '', billingAddress: '', siteAddresses: [], defaultSalesman: '', contacts: [], creditLimit: 0, overDispatchTolerancePercentage: 10 }]
+        }));
+        expect(findOverDispatchedLines({ ...po, partyId: 'P-1' }, cement(30))[0]).toMatchObject({ allowedQuantity: expect.closeTo(110), tolerancePercentage: 10 });
+    });
+
+    it('leaves out the dispatch being edited', () => {
+        expect(findOverDispatchedLines(po, cement(100), earlier)).toEqual([]);
+        expect(findOverDispatchedLines(po, cement(110), earlier)[0]).toMatchObject({ newTotal: 110 });
+    });
+
+    it('does not check a line the edit does not increase', () => {
+        const over = makeDispatch({ id: 'D-2', dispatchedItems: cement(30) });
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [earlier, over] }));
+        expect(findOverDispatchedLines(po, cement(30), over)).toEqual([]);
+        expect(findOverDispatchedLines(po, cement(25), over)).toEqual([]);
+    });
+});
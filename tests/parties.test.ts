@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPersistedData, findPartyNameVariants, getPersistedSnapshot, mergePartiesInto } from '../index';
+import type { Party } from '../index';
+import { makeData, makePO } from './fixtures';
+
+const party = (id: string, name: string, overrides: Partial<Party> = {}): Party =>
+    ({ id, name, gstin: '', billingAddress: '', siteAddresses: [], defaultSalesman: '', contacts: [], creditLimit: 0, ...overrides });
+
+describe('findPartyNameVariants', () => {
+    it('groups spellings that differ only in punctuation and company words', () => {
+        applyPersistedData(makeData({
+            parties: [party('P-1', 'SHREE BUILDERS')],
+            purchaseOrders: [makePO({ partyName: 'M/S Shree Builders Pvt. Ltd.' }), makePO({ id: 'PO-2', partyName: 'SHREE TRADERS' })]
+        }));
+        expect(findPartyNameVariants()).toEqual([['M/S SHREE BUILDERS PVT. LTD.', 'SHREE BUILDERS']]);
+    });
+
+    it('groups different names with the same GSTIN', () => {
+        applyPersistedData(makeData({
+            parties: [party('P-1', 'ACME BUILDERS', { gstin: '27AAPFU0939F1ZV' })],
+            purchaseOrders: [makePO({ partyName: 'ACME INFRA', gstin: '27aapfu0939f1zv' })]
+        }));
+        expect(findPartyNameVariants()).toEqual([['ACME BUILDERS', 'ACME INFRA']]);
+    });
+});
+
+describe('mergePartiesInto', () => {
+    beforeEach(() => { vi.stubGlobal('prompt', () => 'TESTER'); });
+
+    it('moves POs and price lists to the target and folds in the other record', () => {
+        const target = party('P-1', 'SHREE BUILDERS');
+        const other = party('P-2', 'SHREE BUILDERS PVT LTD', { gstin: '27AAPFU0939F1ZV', siteAddresses: ['PLOT 4'], creditLimit: 500000 });
+        const po = makePO({ partyId: 'P-2', partyName: 'SHREE BUILDERS PVT LTD', shipToPartyName: 'SHREE BUILDERS PVT LTD' });
+        const untouched = makePO({ id: 'PO-2', partyId: 'P-1', partyName: 'SHREE BUILDERS', shipToPartyName: 'SHREE BUILDERS' });
+        applyPersistedData(makeData({
+            parties: [target, other],
+            purchaseOrders: [po, untouched],
+            priceLists: [{ id: 'PL-1', name: 'SHREE', partyIds: ['P-1', 'P-2'], tolerancePercentage: 0, entries: [] }]
+        }));
+
+        const changes = mergePartiesInto(['SHREE BUILDERS PVT LTD'], target);
+
+        const data = getPersistedSnapshot();
+        expect(data.parties.map(p => p.id)).toEqual(['P-1']);
+        expect(target).toMatchObject({ gstin: '27AAPFU0939F1ZV', siteAddresses: ['PLOT 4'], creditLimit: 500000 });
+        expect(po).toMatchObject({ partyId: 'P-1', partyName: 'SHREE BUILDERS', shipToPartyName: 'SHREE BUILDERS' });
+        expect(data.priceLists[0].partyIds).toEqual(['P-1']);
+        expect(changes.map(c => c.record.id)).toEqual(['PO-1']);
+        expect(data.auditLog.map(entry => entry.recordId)).toEqual(['PO-1']);
+    });
+});
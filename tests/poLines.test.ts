@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { describePOLine, linkDispatchItemsToLines } from '../index';
+import { makeDispatch, makeLine, makePO } from './fixtures';
+
+describe('linkDispatchItemsToLines', () => {
+    it('attaches an item to the first line with its material', () => {
+        const po = makePO({ items: [makeLine({ id: 'item-1', material: 'SAND' }), makeLine({ id: 'item-2' }), makeLine({ id: 'item-3' })] });
+        const dispatch = makeDispatch({ dispatchedItems: [{ lineId: '', material: 'cement', quantity: 10, unit: 'BAG', lineQuantity: 10 }] });
+        linkDispatchItemsToLines(dispatch, po);
+        expect(dispatch.dispatchedItems[0].lineId).toBe('item-2');
+    });
+
+    it('keeps items that already have a line', () => {
+        const dispatch = makeDispatch({ dispatchedItems: [{ lineId: 'item-9', material: 'CEMENT', quantity: 10, unit: 'BAG', lineQuantity: 10 }] });
+        linkDispatchItemsToLines(dispatch, makePO());
+        expect(dispatch.dispatchedItems[0].lineId).toBe('item-9');
+    });
+
+    it('gives an item with no matching line a line ID of its own', () => {
+        const dispatch = makeDispatch({ dispatchedItems: [{ lineId: '', material: 'GRIT', quantity: 10, unit: 'BAG', lineQuantity: 10 }] });
+        linkDispatchItemsToLines(dispatch, makePO());
+        expect(dispatch.dispatchedItems[0].lineId).toMatch(/^item/);
+        expect(dispatch.dispatchedItems[0].lineId).not.toBe('item-1');
+    });
+});
+
+describe('describePOLine', () => {
+    it('uses the material name when the PO has it on one line', () => {
+        expect(describePOLine(makePO(), 'item-1', 'CEMENT')).toBe('CEMENT');
+    });
+
+    it('adds the line number and rate when the material is on more than one line', () => {
+        const po = makePO({ items: [makeLine(), makeLine({ id: 'item-2', rate: 360 })] });
+        expect(describePOLine(po, 'item-2', 'CEMENT')).toBe('CEMENT (Line 2 @ ₹360.00)');
+    });
+
+    it('falls back to the recorded material for a line the PO no longer has', () => {
+        expect(describePOLine(makePO(), 'item-9', 'GRIT')).toBe('GRIT');
+        expect(describePOLine(undefined, 'item-1', 'GRIT')).toBe('GRIT');
+    });
+});
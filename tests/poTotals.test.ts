@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { computePOTotals } from '../index';
+import { makeLine } from './fixtures';
+
+describe('computePOTotals', () => {
+    it('applies the line discount, then the cash discount, before GST', () => {
+        const totals = computePOTotals([makeLine({ quantity: 10, rate: 100, gstPercentage: 18, discountPercentage: 10 })], 5, [], false);
+        expect(totals.grossAmount).toBe(1000);
+        expect(totals.lineDiscount).toBe(100);
+        expect(totals.cashDiscount).toBeCloseTo(45);
+        expect(totals.taxable).toBeCloseTo(855);
+        expect(totals.cgst).toBeCloseTo(76.95);
+        expect(totals.sgst).toBeCloseTo(76.95);
+        expect(totals.igst).toBe(0);
+    });
+
+    it('adds charges with their own GST and no discount', () => {
+        const charges = [{ id: 'c-1', label: 'FREIGHT', amount: 500, gstPercentage: 12 }];
+        const totals = computePOTotals([makeLine({ quantity: 10, rate: 100, gstPercentage: 18 })], 10, charges, true);
+        expect(totals.chargesAmount).toBe(500);
+        expect(totals.taxable).toBeCloseTo(1400);
+        expect(totals.igst).toBeCloseTo(162 + 60);
+        expect(totals.total).toBe(1622);
+    });
+
+    it('rounds the grand total to the nearest rupee and keeps the difference as round-off', () => {
+        const down = computePOTotals([makeLine({ quantity: 3, rate: 33.33, gstPercentage: 5 })], 0, [], false);
+        expect(down.total).toBe(105);
+        expect(down.roundOff).toBeCloseTo(105 - 104.9895);
+
+        const up = computePOTotals([makeLine({ quantity: 1, rate: 10.5, gstPercentage: 0 })], 0, [], false);
+        expect(up.total).toBe(11);
+        expect(up.roundOff).toBeCloseTo(0.5);
+    });
+
+    it('is all zero for an empty order', () => {
+        expect(computePOTotals([], 0, [], false).total).toBe(0);
+    });
+});
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPersistedData, findApplicablePrice, renameMaterialInRecords } from '../index';
+import type { Material, PriceList } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+const material = (code: string, name: string): Material =>
+    ({ code, name, unit: 'BAG', alternateUnits: [], hsnCode: '', defaultGstPercentage: 18, defaultRate: 0, active: true });
+
+describe('findApplicablePrice', () => {
+    const lists: PriceList[] = [
+        { id: 'PL-GROUP', name: 'BUILDERS', partyIds: ['P-1', 'P-2'], tolerancePercentage: 0, entries: [
+            { material: 'CEMENT', unit: 'BAG', rate: 340, effectiveFrom: '2025-04-01', effectiveTo: '' }
+        ] },
+        { id: 'PL-ACME', name: 'ACME', partyIds: ['P-1'], tolerancePercentage: 0, entries: [
+            { material: 'CEMENT', unit: 'BAG', rate: 330, effectiveFrom: '2025-04-01', effectiveTo: '2025-06-30' },
+            { material: 'CEMENT', unit: 'BAG', rate: 335, effectiveFrom: '2025-07-01', effectiveTo: '' }
+        ] }
+    ];
+    beforeEach(() => applyPersistedData(makeData({ priceLists: lists })));
+
+    it('prefers the party\'s own list over a group list', () => {
+        expect(findApplicablePrice('P-1', 'cement', '2025-05-10')?.entry.rate).toBe(330);
+        expect(findApplicablePrice('P-2', 'CEMENT', '2025-05-10')?.entry.rate).toBe(340);
+    });
+
+    it('picks the entry in force on the date', () => {
+        expect(findApplicablePrice('P-1', 'CEMENT', '2025-06-30')?.entry.rate).toBe(330);
+        expect(findApplicablePrice('P-1', 'CEMENT', '2025-07-01')?.entry.rate).toBe(335);
+        expect(findApplicablePrice('P-1', 'CEMENT', '2025-03-31')).toBeUndefined();
+        expect(findApplicablePrice(undefined, 'CEMENT', '2025-05-10')).toBeUndefined();
+    });
+});
+
+describe('renameMaterialInRecords', () => {
+    beforeEach(() => { vi.stubGlobal('prompt', () => 'TESTER'); });
+
+    it('renames the material on POs, dispatches and price list entries', () => {
+        const list: PriceList = { id: 'PL-1', name: 'ACME', partyIds: ['P-1'], tolerancePercentage: 0, entries: [
+            { material: 'OPC CEMENT', unit: 'BAG', rate: 330, effectiveFrom: '2025-04-01', effectiveTo: '' }
+        ] };
+        const po = makePO({ partyId: 'P-1', items: [makePO().items[0]] });
+        po.items[0].material = 'OPC CEMENT';
+        const dispatch = makeDispatch();
+        dispatch.dispatchedItems[0].material = 'OPC CEMENT';
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [dispatch], priceLists: [list], materials: [material('M001', 'OPC CEMENT 43')] }));
+
+        const changes = renameMaterialInRecords('OPC CEMENT', 'OPC CEMENT 43');
+
+        expect(changes.map(c => c.entity)).toEqual(['po', 'dispatch']);
+        expect(po.items[0].material).toBe('OPC CEMENT 43');
+        expect(dispatch.dispatchedItems[0].material).toBe('OPC CEMENT 43');
+        expect(list.entries.map(e => e.material)).toEqual(['OPC CEMENT 43']);
+        expect(findApplicablePrice('P-1', 'OPC CEMENT 43', '2025-05-01')?.entry.rate).toBe(330);
+    });
+
+    it('keeps the target\'s own rates when merging into a material the list already prices', () => {
+        const list: PriceList = { id: 'PL-1', name: 'ACME', partyIds: ['P-1'], tolerancePercentage: 0, entries: [
+            { material: 'CEMENT', unit: 'BAG', rate: 340, effectiveFrom: '2025-04-01', effectiveTo: '2025-09-30' },
+            { material: 'OPC CEMENT', unit: 'BAG', rate: 330, effectiveFrom: '2025-01-01', effectiveTo: '2025-03-31' },
+            { material: 'OPC CEMENT', unit: 'BAG', rate: 335, effectiveFrom: '2025-06-01', effectiveTo: '' }
+        ] };
+        applyPersistedData(makeData({ priceLists: [list], materials: [material('M001', 'CEMENT')] }));
+
+        renameMaterialInRecords('OPC CEMENT', 'CEMENT');
+
+        expect(list.entries).toEqual([
+            { material: 'CEMENT', unit: 'BAG', rate: 340, effectiveFrom: '2025-04-01', effectiveTo: '2025-09-30' },
+            { material: 'CEMENT', unit: 'BAG', rate: 330, effectiveFrom: '2025-01-01', effectiveTo: '2025-03-31' }
+        ]);
+    });
+});
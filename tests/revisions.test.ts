@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { applyPersistedData, getRevisionChain, getRevisionNumber } from '../index';
+import { makeData, makePO } from './fixtures';
+
+describe('getRevisionChain', () => {
+    it('lists every version of the order, oldest first, from any of them', () => {
+        const original = makePO({ id: 'PO-1', status: 'Cancelled', revisedInto: 'PO-2' });
+        const first = makePO({ id: 'PO-2', status: 'Cancelled', revisedFrom: 'PO-1', revisedInto: 'PO-3' });
+        const second = makePO({ id: 'PO-3', revisedFrom: 'PO-2' });
+        applyPersistedData(makeData({ purchaseOrders: [second, original, first] }));
+
+        [original, first, second].forEach(po => {
+            expect(getRevisionChain(po).map(p => p.id)).toEqual(['PO-1', 'PO-2', 'PO-3']);
+        });
+        expect([original, first, second].map(getRevisionNumber)).toEqual([0, 1, 2]);
+    });
+
+    it('stops at a link to a PO that is missing', () => {
+        const revised = makePO({ id: 'PO-2', revisedFrom: 'PO-1', revisedInto: 'PO-9' });
+        applyPersistedData(makeData({ purchaseOrders: [revised] }));
+        expect(getRevisionChain(revised).map(p => p.id)).toEqual(['PO-2']);
+        expect(getRevisionNumber(revised)).toBe(0);
+    });
+
+    it('does not loop on links that point back', () => {
+        const a = makePO({ id: 'PO-1', revisedFrom: 'PO-2', revisedInto: 'PO-2' });
+        const b = makePO({ id: 'PO-2', revisedFrom: 'PO-1', revisedInto: 'PO-1' });
+        applyPersistedData(makeData({ purchaseOrders: [a, b] }));
+        expect(getRevisionChain(a).map(p => p.id)).toEqual(['PO-2', 'PO-1']);
+    });
+});
@@ -0,0 +1,90 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getPersistedSnapshot, loadData, openDatabase, readDatabase, saveData, writeDatabase } from '../index';
+import { makePO } from './fixtures';
+
+// The tests share one database and run in order, as a single tab would.
+describe('saveData', () => {
+    beforeAll(async () => {
+        await loadData();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+    });
+
+    it('stores the change and moves the revision on', async () => {
+        const db = await openDatabase();
+        const before = (await readDatabase(db)).revision;
+        getPersistedSnapshot().purchaseOrders.push(makePO());
+        expect(await saveData()).toBe(true);
+        const stored = await readDatabase(db);
+        expect(stored.revision).toBe(before + 1);
+        expect(stored.data!.purchaseOrders.map(po => po.id)).toEqual(['PO-1']);
+        db.close();
+    });
+
+    it('refuses to write over a newer revision from another tab', async () => {
+        const alertMock = vi.fn();
+        vi.stubGlobal('alert', alertMock);
+        const otherTab = await openDatabase();
+        const stored = await readDatabase(otherTab);
+        stored.data!.purchaseOrders.push(makePO({ id: 'PO-2' }));
+        expect(await writeDatabase(otherTab, stored.data!, stored.revision)).toBe(stored.revision + 1);
+
+        getPersistedSnapshot().purchaseOrders.push(makePO({ id: 'PO-3' }));
+        expect(await saveData()).toBe(false);
+        expect(alertMock).toHaveBeenCalledWith(expect.stringMatching(/changed in another tab/));
+        expect((await readDatabase(otherTab)).data!.purchaseOrders.map(po => po.id)).toEqual(['PO-1', 'PO-2']);
+        // The page is back on the stored data, so the next save goes through.
+        expect(getPersistedSnapshot().purchaseOrders.map(po => po.id)).toEqual(['PO-1', 'PO-2']);
+        expect(await saveData()).toBe(true);
+        otherTab.close();
+    });
+
+    it('resolves to false when the write fails', async () => {
+        const alertMock = vi.fn();
+        vi.stubGlobal('alert', alertMock);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(IDBDatabase.prototype, 'transaction').mockImplementationOnce(() => {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        });
+        getPersistedSnapshot().purchaseOrders.push(makePO({ id: 'PO-4' }));
+        expect(await saveData()).toBe(false);
+        expect(alertMock).toHaveBeenCalledWith(expect.stringMatching(/was NOT saved/));
+        expect(getPersistedSnapshot().purchaseOrders.map(po => po.id)).toEqual(['PO-1', 'PO-2']);
+    });
+});
+
+describe('writeDatabase change history', () => {
+    const entry = (id: string, note: string) =>
+        ({ id, entity: 'po' as const, recordId: 'PO-1', poId: 'PO-1', action: 'update' as const, changes: [], note, at: '2025-06-01T09:00:00.000Z', user: 'RAVI' });
+
+    async function write(auditLog: ReturnType<typeof entry>[], auditWrite?: { replace: boolean; editedIds: Set<string> }) {
+        const db = await openDatabase();
+        const stored = await readDatabase(db);
+        expect(await writeDatabase(db, { ...stored.data!, auditLog }, stored.revision, auditWrite)).toBe(stored.revision + 1);
+        const notes = (await readDatabase(db)).data!.auditLog.map(e => `${e.id}:${e.note}`).sort();
+        db.close();
+        return notes;
+    }
+
+    it('adds new entries and leaves stored ones alone', async () => {
+        await write([entry('a-1', 'first')], { replace: true, editedIds: new Set() });
+        expect(await write([entry('a-1', 'changed'), entry('a-2', 'second')])).toEqual(['a-1:first', 'a-2:second']);
+    });
+
+    it('keeps stored entries the snapshot no longer holds', async () => {
+        expect(await write([entry('a-2', 'second')])).toEqual(['a-1:first', 'a-2:second']);
+    });
+
+    it('writes edited entries again', async () => {
+        expect(await write([entry('a-1', 'renumbered'), entry('a-2', 'second')], { replace: false, editedIds: new Set(['a-1']) }))
+            .toEqual(['a-1:renumbered', 'a-2:second']);
+    });
+
+    it('replaces the whole log when asked to', async () => {
+        expect(await write([entry('a-3', 'restored')], { replace: true, editedIds: new Set() })).toEqual(['a-3:restored']);
+    });
+});
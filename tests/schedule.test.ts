@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyPersistedData, getScheduleSlotStatuses, parseScheduleText } from '../index';
+import { makeData, makeDispatch, makeLine, makePO } from './fixtures';
+
+describe('parseScheduleText', () => {
+    it('reads dates with quantities, the last date taking the rest of the line', () => {
+        expect(parseScheduleText('2025-06-10 = 40, 2025-06-20 = 30\n2025-06-30', 100)).toEqual([
+            { date: '2025-06-10', quantity: 40 },
+            { date: '2025-06-20', quantity: 30 },
+            { date: '2025-06-30', quantity: 30 }
+        ]);
+        expect(parseScheduleText('', 100)).toEqual([]);
+    });
+
+    it('rejects schedules that are out of order or malformed', () => {
+        expect(() => parseScheduleText('10/06/2025', 100)).toThrow(/not in the form YYYY-MM-DD/);
+        expect(() => parseScheduleText('2025-02-30 = 10', 100)).toThrow(/not in the form/);
+        expect(() => parseScheduleText('2025-06-20 = 10, 2025-06-10 = 10', 100)).toThrow('2025-06-10 must come after 2025-06-20.');
+        expect(() => parseScheduleText('2025-06-10, 2025-06-20', 100)).toThrow(/2025-06-10 needs a quantity/);
+        expect(() => parseScheduleText('2025-06-10 = 0', 100)).toThrow(/must be more than zero/);
+    });
+
+    it('rejects schedules for more than the line', () => {
+        expect(() => parseScheduleText('2025-06-10 = 60, 2025-06-20 = 50', 100)).toThrow(/adds up to 110.00 but the line is for 100.00/);
+        expect(() => parseScheduleText('2025-06-10 = 100, 2025-06-20', 100)).toThrow(/Nothing is left/);
+    });
+});
+
+describe('getScheduleSlotStatuses', () => {
+    const slots = [{ date: '2025-06-10', quantity: 40 }, { date: '2025-06-20', quantity: 60 }];
+
+    it('marks each slot met on the day the line reached it, or overdue', () => {
+        const po = makePO({ items: [makeLine({ schedule: slots })] });
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [makeDispatch({ dispatchedAt: '2025-06-12T00:00:00.000Z' })] }));
+        const statuses = getScheduleSlotStatuses(po, '2025-06-25');
+        expect(statuses.map(s => [s.metOn, s.daysLate, s.overdue])).toEqual([['2025-06-12', 2, false], [null, 5, true]]);
+    });
+
+    it('is never overdue on a closed order or a cancelled line', () => {
+        const closed = makePO({ status: 'Short Closed', items: [makeLine({ schedule: slots })] });
+        const cancelledLine = makePO({ id: 'PO-2', items: [makeLine({ schedule: slots, cancelled: { at: '2025-06-05T00:00:00.000Z', by: 'RAVI', reason: 'Not needed' } } as any)] });
+        applyPersistedData(makeData({ purchaseOrders: [closed, cancelledLine] }));
+        [closed, cancelledLine].forEach(po => {
+            expect(getScheduleSlotStatuses(po, '2025-06-25').every(s => !s.overdue && s.daysLate === 0)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,3 @@
+// index.tsx looks these up when it loads and renders into them (e.g. the navbar after the
+// user enters their name), as in index.html.
+document.body.innerHTML = '<nav id="navbar"></nav><main id="main-content"></main>';
@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPersistedData, getPersistedSnapshot } from '../index';
+import { makeData, makeDispatch, makeLine, makePO } from './fixtures';
+
+const promptShortClosePO = (poId: string): Promise<void> => (window as any).promptShortClosePO(poId);
+
+describe('promptShortClosePO', () => {
+    const alertMock = vi.fn();
+
+    beforeEach(() => {
+        alertMock.mockReset();
+        vi.stubGlobal('alert', alertMock);
+        vi.stubGlobal('prompt', (message: string) => message.startsWith('Short close') ? 'Site closed' : 'TESTER');
+    });
+
+    it('writes off what is still pending on each open line', async () => {
+        const cancelledLine = makeLine({ id: 'item-2', cancelled: { at: '2025-06-03T09:00:00.000Z', by: 'RAVI', reason: 'Not needed', quantity: 50 } });
+        const po = makePO({ status: 'Partially Dispatched', items: [makeLine(), cancelledLine], dispatchedQuantityByLine: { 'item-1': 40, 'item-2': 0 } });
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [makeDispatch()] }));
+
+        await promptShortClosePO('PO-1');
+
+        expect(po.status).toBe('Short Closed');
+        expect(po.shortClose).toMatchObject({ by: 'TESTER', reason: 'Site closed', quantityByLine: { 'item-1': 60 } });
+        expect(po.updatedAt).toBe(po.shortClose!.at);
+        expect(getPersistedSnapshot().auditLog).toEqual([expect.objectContaining({ action: 'short-close', note: 'Site closed' })]);
+    });
+
+    it('only short closes a partially dispatched PO', async () => {
+        const po = makePO({ status: 'Pending' });
+        applyPersistedData(makeData({ purchaseOrders: [po] }));
+
+        await promptShortClosePO('PO-1');
+
+        expect(po.status).toBe('Pending');
+        expect(po.shortClose).toBeUndefined();
+        expect(alertMock).toHaveBeenCalledWith(expect.stringMatching(/^Only partially dispatched POs can be short closed/));
+    });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    addToSyncQueue, applyPersistedData, hasPendingOperation, mergeRemoteRecord, normalizeRemoteChanges, pushQueuedOperations
+} from '../index';
+import type { PurchaseOrder } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+const IGNORED = ['status', 'dispatchedQuantityByLine', 'updatedAt'];
+
+describe('mergeRemoteRecord', () => {
+    it('adds a record this device does not have', () => {
+        const list: PurchaseOrder[] = [];
+        expect(mergeRemoteRecord('po', list, makePO(), IGNORED)).toBe(true);
+        expect(list).toHaveLength(1);
+    });
+
+    it('takes the server version when it was edited later', () => {
+        const list = [makePO({ updatedAt: '2025-06-01T10:00:00.000Z' })];
+        const remote = makePO({ salesmanName: 'SUNIL', updatedAt: '2025-06-01T11:00:00.000Z' });
+        expect(mergeRemoteRecord('po', list, remote, IGNORED)).toBe(true);
+        expect(list[0].salesmanName).toBe('SUNIL');
+    });
+
+    it('keeps the local version when it was edited later', () => {
+        const list = [makePO({ updatedAt: '2025-06-01T12:00:00.000Z' })];
+        const remote = makePO({ salesmanName: 'SUNIL', updatedAt: '2025-06-01T11:00:00.000Z' });
+        expect(mergeRemoteRecord('po', list, remote, IGNORED)).toBe(false);
+        expect(list[0].salesmanName).toBe('RAVI');
+    });
+
+    it('drops a queued local edit that lost to the server', () => {
+        const local = makePO({ id: 'PO-7', updatedAt: '2025-06-01T10:00:00.000Z' });
+        addToSyncQueue('po', 'update', local);
+        expect(mergeRemoteRecord('po', [local], makePO({ id: 'PO-7', salesmanName: 'SUNIL', updatedAt: '2025-06-01T11:00:00.000Z' }), IGNORED)).toBe(true);
+        expect(hasPendingOperation('po', 'PO-7')).toBe(false);
+    });
+});
+
+describe('normalizeRemoteChanges', () => {
+    beforeEach(() => {
+        applyPersistedData(makeData({ purchaseOrders: [makePO()] }));
+    });
+
+    it('fills in what an older device left out', () => {
+        const { deliverySites, supplierStateCode, ...older } = makePO({ id: 'PO-2' });
+        const result = normalizeRemoteChanges({ purchaseOrders: [older as PurchaseOrder], dispatches: [], cursor: '' });
+        expect(result.rejected).toEqual([]);
+        expect(result.purchaseOrders[0].deliverySites).toHaveLength(1);
+    });
+
+    it('sets aside records that fail validation', () => {
+        const result = normalizeRemoteChanges({
+            purchaseOrders: [makePO({ id: 'PO-2', createdAt: 'yesterday' })],
+            dispatches: [makeDispatch({ id: 'D-2', dispatchedItems: null as any })],
+            cursor: ''
+        });
+        expect(result.purchaseOrders).toEqual([]);
+        expect(result.dispatches).toEqual([]);
+        expect(result.rejected.map(r => [r.entity, r.recordId])).toEqual([['po', 'PO-2'], ['dispatch', 'D-2']]);
+        expect(result.rejected[0].note).toMatch(/^Server record not merged: /);
+    });
+});
+
+describe('pushQueuedOperations', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('sets aside a change the server keeps rejecting so the rest can go', async () => {
+        const fetchMock = vi.fn(async (url: string) => new Response('{}', { status: url.endsWith('/PO-8') ? 422 : 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        addToSyncQueue('po', 'update', makePO({ id: 'PO-8' }));
+        addToSyncQueue('dispatch', 'create', makeDispatch({ id: 'D-8' }));
+
+        await expect(pushQueuedOperations()).rejects.toThrow(/HTTP 422/);
+        await expect(pushQueuedOperations()).rejects.toThrow(/HTTP 422/);
+        expect(await pushQueuedOperations()).toBe('done');
+        expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['/purchase-orders/PO-8', '/purchase-orders/PO-8', '/purchase-orders/PO-8', '/dispatches']);
+        expect(hasPendingOperation('po', 'PO-8')).toBe(false);
+        expect(hasPendingOperation('dispatch', 'D-8')).toBe(false);
+    });
+
+    it('keeps retrying when the server only asks to wait', async () => {
+        const fetchMock = vi.fn(async () => new Response('{}', { status: 429 }));
+        vi.stubGlobal('fetch', fetchMock);
+        addToSyncQueue('po', 'update', makePO({ id: 'PO-9' }));
+        for (let i = 0; i < 4; i++) await expect(pushQueuedOperations()).rejects.toThrow(/HTTP 429/);
+        expect(hasPendingOperation('po', 'PO-9')).toBe(true);
+    });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyPersistedData, convertQuantity, getConvertibleUnits, toBaseUnit } from '../index';
+import { makeData } from './fixtures';
+
+describe('unit conversion', () => {
+    beforeEach(() => {
+        applyPersistedData(makeData({
+            materials: [{
+                code: 'M001', name: 'CEMENT', unit: 'BAG', hsnCode: '2523', defaultGstPercentage: 28, defaultRate: 350, active: true,
+                alternateUnits: [{ unit: 'TONNE', factor: 20 }, { unit: 'KG', factor: 0.02 }]
+            }]
+        }));
+    });
+
+    it('converts through the base unit', () => {
+        expect(convertQuantity('cement', 2, 'TONNE', 'BAG')).toBe(40);
+        expect(convertQuantity('CEMENT', 50, 'BAG', 'TONNE')).toBe(2.5);
+        expect(convertQuantity('CEMENT', 1, 'TONNE', 'KG')).toBeCloseTo(1000);
+    });
+
+    it('gives null when the master has no factor for a unit', () => {
+        expect(convertQuantity('CEMENT', 1, 'NOS', 'BAG')).toBeNull();
+        expect(convertQuantity('SAND', 1, 'TONNE', 'BAG')).toBeNull();
+        expect(convertQuantity('SAND', 1, 'TONNE', 'TONNE')).toBe(1);
+    });
+
+    it('offers the units a quantity can be entered in', () => {
+        expect(getConvertibleUnits('CEMENT', 'BAG')).toEqual(['BAG', 'TONNE', 'KG']);
+        expect(getConvertibleUnits('CEMENT', 'NOS')).toEqual(['NOS']);
+        expect(getConvertibleUnits('SAND', 'TONNE')).toEqual(['TONNE']);
+    });
+
+    it('reports in the base unit where it can', () => {
+        expect(toBaseUnit('CEMENT', 3, 'TONNE')).toEqual({ quantity: 60, unit: 'BAG' });
+        expect(toBaseUnit('CEMENT', 3, 'NOS')).toEqual({ quantity: 3, unit: 'NOS' });
+    });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPersistedData, getPersistedSnapshot, handleVoidDispatch } from '../index';
+import { makeData, makeDispatch, makePO } from './fixtures';
+
+describe('handleVoidDispatch', () => {
+    beforeEach(() => {
+        vi.stubGlobal('prompt', () => 'TESTER');
+        vi.stubGlobal('alert', () => {});
+    });
+
+    it('keeps the dispatch but takes its quantities off the PO', async () => {
+        const po = makePO({ status: 'Completed', dispatchedQuantityByLine: { 'item-1': 100 } });
+        const first = makeDispatch({ dispatchedItems: [{ lineId: 'item-1', material: 'CEMENT', quantity: 60, unit: 'BAG', lineQuantity: 60 }] });
+        const second = makeDispatch({ id: 'D-2' });
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [first, second] }));
+
+        await handleVoidDispatch('D-2', 'Entered twice');
+
+        expect(getPersistedSnapshot().dispatches).toHaveLength(2);
+        expect(second.voided).toMatchObject({ by: 'TESTER', reason: 'Entered twice' });
+        expect(second.updatedAt).toBe(second.voided!.at);
+        expect(po.dispatchedQuantityByLine).toEqual({ 'item-1': 60 });
+        expect(po.status).toBe('Partially Dispatched');
+    });
+
+    it('records the reason in the change history', async () => {
+        const po = makePO({ status: 'Partially Dispatched', dispatchedQuantityByLine: { 'item-1': 40 } });
+        applyPersistedData(makeData({ purchaseOrders: [po], dispatches: [makeDispatch()] }));
+
+        await handleVoidDispatch('D-1', 'Lorry turned back');
+
+        expect(po.status).toBe('Pending');
+        expect(getPersistedSnapshot().auditLog).toEqual([
+            expect.objectContaining({ entity: 'dispatch', recordId: 'D-1', poId: 'PO-1', action: 'void', note: 'Reason: Lorry turned back', user: 'TESTER' })
+        ]);
+    });
+});
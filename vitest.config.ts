@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// index.tsx touches the DOM when it loads, so the tests run in jsdom.
+export default defineConfig({
+    test: {
+        environment: 'jsdom',
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts']
+    }
+});